@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "streamingServices" INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+ADD COLUMN     "watchRegion" TEXT NOT NULL DEFAULT 'IN';
@@ -0,0 +1,26 @@
+-- CreateEnum
+CREATE TYPE "FeedbackType" AS ENUM ('LIKE', 'DISLIKE', 'NOT_INTERESTED');
+
+-- CreateTable
+CREATE TABLE "RecommendationFeedback" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "mediaId" INTEGER NOT NULL,
+    "mediaType" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "posterPath" TEXT,
+    "type" "FeedbackType" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RecommendationFeedback_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RecommendationFeedback_userId_idx" ON "RecommendationFeedback"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RecommendationFeedback_userId_mediaId_mediaType_key" ON "RecommendationFeedback"("userId", "mediaId", "mediaType");
+
+-- AddForeignKey
+ALTER TABLE "RecommendationFeedback" ADD CONSTRAINT "RecommendationFeedback_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
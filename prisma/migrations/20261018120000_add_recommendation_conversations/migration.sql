@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "RecommendationConversation" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT,
+    "description" TEXT NOT NULL,
+    "mediaType" TEXT NOT NULL,
+    "selectedMedia" JSONB NOT NULL,
+    "filters" JSONB,
+    "useTaste" BOOLEAN NOT NULL DEFAULT false,
+    "onlyMyServices" BOOLEAN NOT NULL DEFAULT false,
+    "messages" JSONB NOT NULL,
+    "results" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RecommendationConversation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RecommendationConversation_userId_idx" ON "RecommendationConversation"("userId");
+
+-- AddForeignKey
+ALTER TABLE "RecommendationConversation" ADD CONSTRAINT "RecommendationConversation_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,73 @@
+-- CreateTable
+CREATE TABLE "Media" (
+    "tmdbId" INTEGER NOT NULL,
+    "mediaType" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "originalTitle" TEXT,
+    "posterPath" TEXT,
+    "backdropPath" TEXT,
+    "overview" TEXT,
+    "tagline" TEXT,
+    "originalLanguage" TEXT,
+    "genres" TEXT[],
+    "genreIds" INTEGER[],
+    "keywords" TEXT[],
+    "runtime" INTEGER,
+    "releaseDate" DATE,
+    "certification" TEXT,
+    "voteAverage" DOUBLE PRECISION,
+    "voteCount" INTEGER,
+    "status" TEXT,
+    "numberOfSeasons" INTEGER,
+    "numberOfEpisodes" INTEGER,
+    "inProduction" BOOLEAN,
+    "lastAirDate" DATE,
+    "nextEpisode" JSONB,
+    "seasons" JSONB,
+    "refreshedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Media_pkey" PRIMARY KEY ("mediaType","tmdbId")
+);
+
+-- CreateTable
+CREATE TABLE "MediaCredit" (
+    "id" TEXT NOT NULL,
+    "mediaType" TEXT NOT NULL,
+    "mediaId" INTEGER NOT NULL,
+    "personId" INTEGER NOT NULL,
+    "role" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "profilePath" TEXT,
+    "character" TEXT,
+    "job" TEXT,
+    "order" INTEGER NOT NULL,
+
+    CONSTRAINT "MediaCredit_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Media_refreshedAt_idx" ON "Media"("refreshedAt");
+
+-- CreateIndex
+CREATE INDEX "MediaCredit_mediaType_mediaId_idx" ON "MediaCredit"("mediaType", "mediaId");
+
+-- CreateIndex
+CREATE INDEX "MediaCredit_personId_idx" ON "MediaCredit"("personId");
+
+-- CreateIndex
+CREATE INDEX "WatchlistEntry_mediaType_mediaId_idx" ON "WatchlistEntry"("mediaType", "mediaId");
+
+-- Backfill the titles already on watchlists from their latest entry.
+-- Their TMDB details are filled in by the next refresh, since refreshedAt is null.
+INSERT INTO "Media" ("tmdbId", "mediaType", "title", "posterPath", "genres", "genreIds", "keywords", "updatedAt")
+SELECT DISTINCT ON ("mediaType", "mediaId") "mediaId", "mediaType", "title", "posterPath", "genres", '{}', '{}', CURRENT_TIMESTAMP
+FROM "WatchlistEntry"
+ORDER BY "mediaType", "mediaId", "updatedAt" DESC;
+
+-- AddForeignKey
+ALTER TABLE "WatchlistEntry" ADD CONSTRAINT "WatchlistEntry_mediaType_mediaId_fkey" FOREIGN KEY ("mediaType", "mediaId") REFERENCES "Media"("mediaType", "tmdbId") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MediaCredit" ADD CONSTRAINT "MediaCredit_mediaType_mediaId_fkey" FOREIGN KEY ("mediaType", "mediaId") REFERENCES "Media"("mediaType", "tmdbId") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "RecommendationConversation" ADD COLUMN     "turns" INTEGER NOT NULL DEFAULT 0;
+
+-- Count the follow-ups already sent, every user message after the opening one
+UPDATE "RecommendationConversation"
+SET "turns" = GREATEST(0, (
+  SELECT COUNT(*) FROM jsonb_array_elements("messages") AS message WHERE message->>'role' = 'user'
+) - 1);
@@ -0,0 +1,462 @@
+/**
+ * Offline evaluation harness for the recommendation prompt templates.
+ *
+ * Replays the seed cases in evals/recommendations/cases.json against a mocked or
+ * recorded model, resolves the returned titles against the TMDB fixtures in
+ * evals/recommendations/tmdb.json and reports resolution, duplicate, constraint
+ * violation and expected-title overlap metrics, so prompt changes can be compared
+ * without network access.
+ *
+ * Usage:
+ *   pnpm eval:recommendations                          Replay each case's hand-written mock response
+ *   pnpm eval:recommendations --record                 Record fresh responses from the configured provider
+ *                                                      (and missing TMDB fixtures when TMDB_API_KEY is set)
+ *   pnpm eval:recommendations --model recorded         Replay the recorded responses for the default prompt
+ *   pnpm eval:recommendations --prompt v2 --model recorded
+ *                                                      Replay the recordings of another prompt version
+ *   pnpm eval:recommendations --out report.json        Save the report
+ *   pnpm eval:recommendations --baseline report.json   Show the change against a saved report
+ */
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import { z } from 'zod';
+import { completeWithGemini, generateWithRepair } from '@/services/gemmaService';
+import { completeWithOpenAICompatible } from '@/services/openAICompatibleService';
+import {
+  DEFAULT_RECOMMENDATION_PROMPT_VERSION,
+  isRecommendationPromptVersion,
+  RECOMMENDATION_PROMPTS,
+  RecommendationPromptTemplate,
+} from '@/prompts/recommendation';
+import { findFilterViolation, hasActiveFilters, TMDBFilterDetails, toFilterableDetails } from '@/lib/recommendationFilters';
+import { normalizeTitle, resolveTitle } from '@/lib/titleResolution';
+import { createTMDBClient } from '@/lib/tmdbClient';
+import { recommendationFiltersSchema, RecommendedTitle, selectedMediaSchema } from '@/lib/validationSchemas';
+import { TMDBListItem } from '@/lib/tmdbSchemas';
+import { Media } from '@/types/media';
+import { RecommendationInput } from '@/types/recommendation';
+
+const EVAL_DIR = path.join(process.cwd(), 'evals', 'recommendations');
+const CASES_PATH = path.join(EVAL_DIR, 'cases.json');
+const TMDB_FIXTURES_PATH = path.join(EVAL_DIR, 'tmdb.json');
+const TMDB_BASE_URL = 'https://api.themoviedb.org/3';
+
+const evalCaseSchema = z.object({
+  id: z.string(),
+  input: z.object({
+    description: z.string(),
+    selectedMedia: selectedMediaSchema,
+    count: z.number().int().min(1).max(30),
+    mediaType: z.enum(['movie', 'tv', 'mixed']),
+    filters: recommendationFiltersSchema.optional(),
+    tasteProfile: z.object({
+      likedMedia: selectedMediaSchema,
+      dislikedTitles: z.array(z.string()),
+      favoriteGenres: z.array(z.string()),
+      excludedKeys: z.array(z.string()),
+      excludedTitles: z.array(z.string()),
+    }).optional(),
+  }),
+  // Titles a good answer should contain
+  expected: z.array(z.string()),
+  // Raw text (or JSON) the mock model answers with
+  mockResponse: z.unknown().optional(),
+});
+
+type EvalCase = z.infer<typeof evalCaseSchema>;
+
+// The fields of a search result that title matching looks at
+type SearchFixture = Pick<
+  TMDBListItem,
+  'id' | 'title' | 'name' | 'original_title' | 'original_name' | 'release_date' | 'first_air_date' | 'poster_path' | 'popularity'
+>;
+
+interface TMDBFixtures {
+  // Keyed by the normalized search query
+  search: Record<string, { movie?: SearchFixture[]; tv?: SearchFixture[] }>;
+  // Keyed as `${mediaType}:${id}`
+  details: Record<string, TMDBFilterDetails>;
+}
+
+interface Recordings {
+  provider: string;
+  responses: Record<string, { promptHash: string; text: string }>;
+}
+
+interface TitleResult {
+  title: string;
+  resolvedAs: string | null;
+  duplicate: boolean;
+  violation: string | null;
+}
+
+interface CaseResult {
+  id: string;
+  requested: number;
+  returned: number;
+  resolved: number;
+  duplicates: number;
+  violations: number;
+  expectedHits: number;
+  expectedTotal: number;
+  parseFailed: boolean;
+  titles: TitleResult[];
+}
+
+interface EvaluationMetrics {
+  cases: number;
+  parseFailures: number;
+  // Returned titles over requested titles
+  fillRate: number;
+  // Titles found on TMDB over returned titles
+  resolutionRate: number;
+  // Repeats of an already returned TMDB entry over resolved titles
+  duplicateRate: number;
+  // Distinct titles breaking a hard constraint, the media type, or the exclusions over distinct titles
+  violationRate: number;
+  // Expected titles that were returned over expected titles
+  expectedOverlap: number;
+}
+
+interface EvaluationReport {
+  promptVersion: string;
+  model: string;
+  metrics: EvaluationMetrics;
+  cases: CaseResult[];
+}
+
+const readJson = <T>(file: string): T => JSON.parse(readFileSync(file, 'utf8'));
+
+const writeJson = (file: string, value: unknown) => writeFileSync(file, `${JSON.stringify(value, null, 2)}\n`);
+
+const ratio = (part: number, total: number) => (total > 0 ? part / total : 0);
+
+const hashPrompt = (prompt: string) => createHash('sha256').update(prompt).digest('hex').substring(0, 16);
+
+const getRecordingsPath = (version: string) => path.join(EVAL_DIR, 'recordings', `${version}.json`);
+
+/**
+ * Serve TMDB paths from the fixtures, recording missing ones from the live API when allowed
+ */
+function createFixtureTMDB(fixtures: TMDBFixtures, record: boolean) {
+  const missing = new Set<string>();
+  let changed = false;
+
+  const fetchLive = async <T>(tmdbPath: string): Promise<T> => {
+    const response = await fetch(`${TMDB_BASE_URL}${tmdbPath}&api_key=${process.env.TMDB_API_KEY}`, {
+      signal: AbortSignal.timeout(10000), // 10 second timeout
+    });
+    if (!response.ok) {
+      throw new Error(`TMDB returned ${response.status} for ${tmdbPath}`);
+    }
+    changed = true;
+    return response.json();
+  };
+  const canRecord = record && !!process.env.TMDB_API_KEY;
+
+  const search = async (tmdbPath: string): Promise<{ results: SearchFixture[] }> => {
+    const url = new URL(tmdbPath, TMDB_BASE_URL);
+    const mediaType = url.pathname.endsWith('/tv') ? 'tv' : 'movie';
+    const query = normalizeTitle(url.searchParams.get('query') || '');
+
+    // The year-filtered search is served from the same fixture
+    const cached = fixtures.search[query]?.[mediaType];
+    if (cached) return { results: cached };
+
+    if (!canRecord) {
+      missing.add(`search ${mediaType} "${query}"`);
+      return { results: [] };
+    }
+
+    url.searchParams.delete('year');
+    url.searchParams.delete('first_air_date_year');
+    const data = await fetchLive<{ results?: SearchFixture[] }>(`${url.pathname}${url.search}`);
+    const results = (data.results || []).slice(0, 5).map(result => ({
+      id: result.id,
+      title: result.title,
+      name: result.name,
+      original_title: result.original_title,
+      original_name: result.original_name,
+      release_date: result.release_date,
+      first_air_date: result.first_air_date,
+      poster_path: result.poster_path,
+      popularity: result.popularity,
+    }));
+    fixtures.search[query] = { ...fixtures.search[query], [mediaType]: results };
+    return { results };
+  };
+
+  const details = async (media: Media): Promise<TMDBFilterDetails | null> => {
+    const key = `${media.media_type}:${media.id}`;
+    if (fixtures.details[key]) return fixtures.details[key];
+
+    if (!canRecord) {
+      missing.add(`details ${key}`);
+      return null;
+    }
+
+    const append = media.media_type === 'movie' ? 'release_dates' : 'content_ratings';
+    const data = await fetchLive<TMDBFilterDetails>(`/${media.media_type}/${media.id}?language=en-US&append_to_response=${append}`);
+    fixtures.details[key] = {
+      runtime: data.runtime,
+      episode_run_time: data.episode_run_time,
+      release_date: data.release_date,
+      first_air_date: data.first_air_date,
+      original_language: data.original_language,
+      vote_average: data.vote_average,
+      vote_count: data.vote_count,
+      release_dates: data.release_dates,
+      content_ratings: data.content_ratings,
+    };
+    return fixtures.details[key];
+  };
+
+  // Title resolution parses the fixtures through the same client as the app
+  return { client: createTMDBClient(search), details, missing, hasChanges: () => changed };
+}
+
+type FixtureTMDB = ReturnType<typeof createFixtureTMDB>;
+
+/**
+ * The model the recordings are captured from, picked like the app picks its provider
+ */
+function getLiveModel(): { provider: string; complete: (prompt: string) => Promise<string> } {
+  const provider = process.env.RECOMMENDATION_PROVIDER || 'gemini';
+  if (provider === 'gemini' && process.env.GEMINI_API_KEY) {
+    return { provider, complete: completeWithGemini };
+  }
+  if (provider === 'openai' && (process.env.OPENAI_BASE_URL || process.env.OPENAI_API_KEY)) {
+    return { provider, complete: completeWithOpenAICompatible };
+  }
+  throw new Error(`Recording needs a configured LLM provider, "${provider}" is not one`);
+}
+
+/**
+ * Why a resolved title should not have been recommended, or null if it is fine
+ */
+async function findViolation(media: Media, input: RecommendationInput, tmdb: FixtureTMDB): Promise<string | null> {
+  const key = `${media.media_type}:${media.id}`;
+
+  if (input.mediaType !== 'mixed' && media.media_type !== input.mediaType) return 'wrong media type';
+  if (input.selectedMedia.some(selected => `${selected.media_type}:${selected.id}` === key)) return 'selected title';
+  if (input.tasteProfile?.excludedKeys.includes(key)) return 'already seen or queued';
+
+  if (hasActiveFilters(input.filters)) {
+    const details = await tmdb.details(media);
+    // Missing fixtures are reported separately rather than counted against the prompt
+    return details ? findFilterViolation(toFilterableDetails(details), input.filters) : null;
+  }
+
+  return null;
+}
+
+/**
+ * Run one case through the prompt, model and title resolution and score the outcome
+ */
+async function evaluateCase(
+  evalCase: EvalCase,
+  prompt: RecommendationPromptTemplate,
+  complete: (prompt: string) => Promise<string>,
+  tmdb: FixtureTMDB
+): Promise<CaseResult> {
+  const input: RecommendationInput = evalCase.input;
+
+  let recommendations: RecommendedTitle[] = [];
+  let parseFailed = false;
+  try {
+    recommendations = await generateWithRepair(complete, prompt.render(input), input.count);
+  } catch {
+    parseFailed = true;
+  }
+
+  const seen = new Set<string>();
+  const returnedTitles = new Set<string>();
+  const titles: TitleResult[] = [];
+
+  for (const recommendation of recommendations) {
+    const match = await resolveTitle(
+      { title: recommendation.title, year: recommendation.year, mediaType: recommendation.mediaType },
+      tmdb.client
+    );
+
+    if (!match) {
+      titles.push({ title: recommendation.title, resolvedAs: null, duplicate: false, violation: null });
+      continue;
+    }
+
+    const key = `${match.media.media_type}:${match.media.id}`;
+    const duplicate = seen.has(key);
+    seen.add(key);
+    returnedTitles.add(normalizeTitle(match.media.title));
+
+    titles.push({
+      title: recommendation.title,
+      resolvedAs: key,
+      duplicate,
+      violation: duplicate ? null : await findViolation(match.media, input, tmdb),
+    });
+  }
+
+  return {
+    id: evalCase.id,
+    requested: input.count,
+    returned: recommendations.length,
+    resolved: titles.filter(title => title.resolvedAs).length,
+    duplicates: titles.filter(title => title.duplicate).length,
+    violations: titles.filter(title => title.violation).length,
+    expectedHits: evalCase.expected.filter(title => returnedTitles.has(normalizeTitle(title))).length,
+    expectedTotal: evalCase.expected.length,
+    parseFailed,
+    titles,
+  };
+}
+
+/**
+ * Aggregate the case results, pooling titles across cases
+ */
+function summarize(results: CaseResult[]): EvaluationMetrics {
+  const sum = (pick: (result: CaseResult) => number) => results.reduce((total, result) => total + pick(result), 0);
+  const resolved = sum(result => result.resolved);
+
+  return {
+    cases: results.length,
+    parseFailures: results.filter(result => result.parseFailed).length,
+    fillRate: ratio(sum(result => result.returned), sum(result => result.requested)),
+    resolutionRate: ratio(resolved, sum(result => result.returned)),
+    duplicateRate: ratio(sum(result => result.duplicates), resolved),
+    violationRate: ratio(sum(result => result.violations), resolved - sum(result => result.duplicates)),
+    expectedOverlap: ratio(sum(result => result.expectedHits), sum(result => result.expectedTotal)),
+  };
+}
+
+const formatMetric = (name: keyof EvaluationMetrics, value: number) =>
+  name === 'cases' || name === 'parseFailures' ? String(value) : `${(value * 100).toFixed(1)}%`;
+
+function printReport(report: EvaluationReport, baseline?: EvaluationReport) {
+  console.log(`\nPrompt ${report.promptVersion} with the ${report.model} model\n`);
+
+  report.cases.forEach(result => {
+    console.log(`${result.id}: ${result.returned}/${result.requested} returned, ${result.resolved} resolved, ` +
+      `${result.expectedHits}/${result.expectedTotal} expected${result.parseFailed ? ', unparseable output' : ''}`);
+    result.titles.forEach(title => {
+      const notes = [
+        !title.resolvedAs && 'unresolved',
+        title.duplicate && 'duplicate',
+        title.violation,
+      ].filter(Boolean);
+      console.log(`  ${notes.length ? '✗' : '✓'} ${title.title}${title.resolvedAs ? ` (${title.resolvedAs})` : ''}` +
+        `${notes.length ? ` - ${notes.join(', ')}` : ''}`);
+    });
+  });
+
+  console.log('');
+  (Object.keys(report.metrics) as Array<keyof EvaluationMetrics>).forEach(name => {
+    const value = report.metrics[name];
+    const previous = baseline?.metrics[name];
+    const change = previous === undefined
+      ? ''
+      : ` (was ${formatMetric(name, previous)} in ${baseline!.promptVersion} with ${baseline!.model})`;
+    console.log(`${name.padEnd(16)} ${formatMetric(name, value).padStart(7)}${change}`);
+  });
+}
+
+async function main() {
+  const { values: args } = parseArgs({
+    options: {
+      prompt: { type: 'string', default: DEFAULT_RECOMMENDATION_PROMPT_VERSION },
+      // Defaults to the mock model, which needs no recordings, or to recording with --record
+      model: { type: 'string' },
+      record: { type: 'boolean', default: false },
+      out: { type: 'string' },
+      baseline: { type: 'string' },
+    },
+  });
+
+  if (!isRecommendationPromptVersion(args.prompt)) {
+    throw new Error(`Unknown prompt version "${args.prompt}", expected one of ${Object.keys(RECOMMENDATION_PROMPTS).join(', ')}`);
+  }
+  const model = args.model ?? (args.record ? 'recorded' : 'mock');
+  if (model !== 'recorded' && model !== 'mock') {
+    throw new Error(`Unknown model "${model}", expected "recorded" or "mock"`);
+  }
+  if (args.record && model === 'mock') {
+    throw new Error('Recording replaces the recorded responses, it cannot be combined with --model mock');
+  }
+
+  const prompt = RECOMMENDATION_PROMPTS[args.prompt];
+  const cases = z.array(evalCaseSchema).parse(readJson(CASES_PATH));
+  const fixtures = readJson<TMDBFixtures>(TMDB_FIXTURES_PATH);
+  const tmdb = createFixtureTMDB(fixtures, args.record);
+  const recordingsPath = getRecordingsPath(prompt.version);
+
+  if (args.record) {
+    const { provider, complete } = getLiveModel();
+    const recordings: Recordings = { provider, responses: {} };
+    for (const evalCase of cases) {
+      const text = prompt.render(evalCase.input);
+      console.log(`Recording ${evalCase.id} with ${provider}...`);
+      recordings.responses[evalCase.id] = { promptHash: hashPrompt(text), text: await complete(text) };
+    }
+    mkdirSync(path.dirname(recordingsPath), { recursive: true });
+    writeJson(recordingsPath, recordings);
+  }
+
+  const recordings = model === 'recorded'
+    ? existsSync(recordingsPath) ? readJson<Recordings>(recordingsPath) : null
+    : null;
+  if (model === 'recorded' && !recordings) {
+    throw new Error(`No recordings for prompt ${prompt.version}, run with --record first or leave out --model recorded to replay the mock responses`);
+  }
+
+  const results: CaseResult[] = [];
+  for (const evalCase of cases) {
+    const recording = recordings?.responses[evalCase.id];
+    if (model === 'recorded') {
+      if (!recording) {
+        throw new Error(`No recording for case "${evalCase.id}" with prompt ${prompt.version}, run with --record`);
+      }
+      if (recording.promptHash !== hashPrompt(prompt.render(evalCase.input))) {
+        console.warn(`Case "${evalCase.id}" was recorded with a different prompt, re-record to pick up the change`);
+      }
+    } else if (evalCase.mockResponse === undefined) {
+      throw new Error(`Case "${evalCase.id}" has no mockResponse`);
+    }
+
+    // Every attempt gets the same answer, so unparseable output fails like it would after the retries
+    const complete = async () => recording
+      ? recording.text
+      : typeof evalCase.mockResponse === 'string' ? evalCase.mockResponse : JSON.stringify(evalCase.mockResponse);
+
+    results.push(await evaluateCase(evalCase, prompt, complete, tmdb));
+  }
+
+  if (tmdb.hasChanges()) {
+    writeJson(TMDB_FIXTURES_PATH, fixtures);
+  }
+
+  const report: EvaluationReport = {
+    promptVersion: prompt.version,
+    model: recordings ? `recorded ${recordings.provider}` : 'mock',
+    metrics: summarize(results),
+    cases: results,
+  };
+
+  printReport(report, args.baseline ? readJson<EvaluationReport>(args.baseline) : undefined);
+
+  if (tmdb.missing.size > 0) {
+    console.warn(`\nMissing TMDB fixtures (counted as not found), run with --record and TMDB_API_KEY to add them:`);
+    tmdb.missing.forEach(entry => console.warn(`  ${entry}`));
+  }
+
+  if (args.out) {
+    writeJson(args.out, report);
+    console.log(`\nReport saved to ${args.out}`);
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,27 @@
+/**
+ * Purges everything cached about one title: its TMDB responses in the shared cache
+ * and the freshness of its stored details, so the next request reads it from TMDB again.
+ * Runs against Redis (see the media:purge script), an in-memory cache would only purge itself.
+ *
+ * Usage:
+ *   pnpm media:purge movie 603
+ *   pnpm media:purge tv 1399
+ */
+import { mediaParamsSchema } from '@/lib/validationSchemas';
+import { purgeMedia } from '@/services/mediaDetailsService';
+
+async function main() {
+  const [mediaType, mediaId] = process.argv.slice(2);
+  const parsed = mediaParamsSchema.safeParse({ mediaType, mediaId });
+  if (!parsed.success) {
+    throw new Error('Usage: pnpm media:purge <movie|tv> <tmdb id>');
+  }
+
+  await purgeMedia(parsed.data);
+  console.log(`Purged ${parsed.data.mediaType}:${parsed.data.mediaId}`);
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
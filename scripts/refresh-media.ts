@@ -0,0 +1,32 @@
+/**
+ * Refreshes the stored TMDB metadata of titles that are due, oldest first.
+ * Meant to run on a schedule, e.g. a daily cron: shows still on the air are
+ * refreshed after a day, everything else after a week.
+ *
+ * Usage:
+ *   pnpm media:refresh                Refresh up to 500 titles
+ *   pnpm media:refresh --limit 2000   Refresh up to 2000 titles
+ */
+import { parseArgs } from 'util';
+import { refreshStaleMedia } from '@/services/mediaDetailsService';
+
+async function main() {
+  const { values: args } = parseArgs({
+    options: {
+      limit: { type: 'string', default: '500' },
+    },
+  });
+
+  const limit = Number(args.limit);
+  if (!Number.isInteger(limit) || limit <= 0) {
+    throw new Error(`--limit must be a positive integer, got "${args.limit}"`);
+  }
+
+  const { refreshed, failed } = await refreshStaleMedia(limit);
+  console.log(`Refreshed ${refreshed} titles${failed > 0 ? `, ${failed} failed` : ''}`);
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -1,7 +1,7 @@
 import { NextResponse } from 'next/server';
 import { adminAuth } from '@/lib/firebase-admin';
 import { prisma } from '@/lib/prisma';
-import { withCache, generateCacheKey, CACHE_TTL } from '@/lib/redis';
+import { withCache, generateCacheKey, CACHE_TTL, cacheTags } from '@/lib/cache';
 
 export async function GET(request: Request) {
   try {
@@ -65,7 +65,8 @@ export async function GET(request: Request) {
           status: item.status,
           createdAt: item.createdAt.toISOString(),
         }));
-      }
+      },
+      { tags: [cacheTags.feed(userId)] }
     );
 
     return NextResponse.json(transformedFeedItems);
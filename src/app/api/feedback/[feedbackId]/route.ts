@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { prisma, withPrismaRetry } from '@/lib/prisma';
+import { authenticateRequest } from '@/lib/authMiddleware';
+import { successResponse, handleApiError, notFoundResponse } from '@/lib/apiResponse';
+import { invalidateUserRecommendations } from '@/services/feedbackService';
+
+type Props = {
+  params: Promise<{
+    feedbackId: string
+  }>
+}
+
+// DELETE /api/feedback/[feedbackId] - Remove feedback on a single title
+export async function DELETE(
+  request: Request,
+  props: Props
+): Promise<NextResponse> {
+  try {
+    const params = await props.params;
+    const auth = await authenticateRequest(request);
+    if (!auth.success) return auth.response;
+
+    const { count } = await withPrismaRetry(() =>
+      prisma.recommendationFeedback.deleteMany({
+        where: {
+          id: params.feedbackId,
+          userId: auth.user.uid,
+        },
+      })
+    );
+
+    if (count === 0) {
+      return notFoundResponse('Feedback');
+    }
+
+    await invalidateUserRecommendations(auth.user.uid);
+
+    return successResponse({ message: 'Feedback removed successfully' });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
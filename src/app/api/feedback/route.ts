@@ -0,0 +1,104 @@
+import { prisma, withPrismaRetry } from '@/lib/prisma';
+import { authenticateRequest } from '@/lib/authMiddleware';
+import { successResponse, handleApiError, badRequestResponse } from '@/lib/apiResponse';
+import { recommendationFeedbackSchema } from '@/lib/validationSchemas';
+import { FeedbackType } from '@/lib/prismaTypes';
+import { invalidateUserRecommendations } from '@/services/feedbackService';
+
+// GET /api/feedback - Get the user's recommendation feedback, newest first
+export async function GET(request: Request) {
+  try {
+    const auth = await authenticateRequest(request);
+    if (!auth.success) return auth.response;
+
+    const feedback = await withPrismaRetry(() =>
+      prisma.recommendationFeedback.findMany({
+        where: { userId: auth.user.uid },
+        orderBy: { updatedAt: 'desc' },
+      })
+    );
+
+    return successResponse({ data: feedback });
+  } catch (error) {
+    console.error('Error in feedback GET:', error);
+    return handleApiError(error);
+  }
+}
+
+// POST /api/feedback - Like, dislike or hide a recommended title (replaces earlier feedback on it)
+export async function POST(request: Request) {
+  try {
+    const auth = await authenticateRequest(request);
+    if (!auth.success) return auth.response;
+
+    const body = await request.json();
+    const { mediaId, mediaType, title, posterPath, type } = recommendationFeedbackSchema.parse(body);
+
+    const feedback = await withPrismaRetry(() =>
+      prisma.recommendationFeedback.upsert({
+        where: {
+          userId_mediaId_mediaType: {
+            userId: auth.user.uid,
+            mediaId,
+            mediaType,
+          },
+        },
+        update: { type, title, posterPath },
+        create: {
+          mediaId,
+          mediaType,
+          title,
+          posterPath,
+          type,
+          user: {
+            connectOrCreate: {
+              where: { id: auth.user.uid },
+              create: {
+                id: auth.user.uid,
+                email: auth.user.email,
+                displayName: auth.user.name,
+                photoURL: auth.user.picture,
+              },
+            },
+          },
+        },
+      })
+    );
+
+    await invalidateUserRecommendations(auth.user.uid);
+
+    return successResponse({ data: feedback });
+  } catch (error) {
+    console.error('Error in feedback POST:', error);
+    return handleApiError(error);
+  }
+}
+
+// DELETE /api/feedback?type=NOT_INTERESTED - Clear all feedback, or only one type of it
+export async function DELETE(request: Request) {
+  try {
+    const auth = await authenticateRequest(request);
+    if (!auth.success) return auth.response;
+
+    const type = new URL(request.url).searchParams.get('type');
+    if (type && !Object.values(FeedbackType).includes(type as FeedbackType)) {
+      return badRequestResponse(`Unknown feedback type: ${type}`);
+    }
+
+    const { count } = await withPrismaRetry(() =>
+      prisma.recommendationFeedback.deleteMany({
+        where: {
+          userId: auth.user.uid,
+          ...(type && { type: type as FeedbackType }),
+        },
+      })
+    );
+
+    await invalidateUserRecommendations(auth.user.uid);
+
+    return successResponse({ data: { count } });
+  } catch (error) {
+    console.error('Error in feedback DELETE:', error);
+    return handleApiError(error);
+  }
+}
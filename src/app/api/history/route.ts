@@ -1,7 +1,7 @@
 import { prisma, withPrismaRetry } from '@/lib/prisma'
 import { authenticateRequest } from '@/lib/authMiddleware'
 import { successResponse, handleApiError } from '@/lib/apiResponse'
-import { withCache, generateCacheKey, CACHE_TTL } from '@/lib/redis'
+import { withCache, generateCacheKey, CACHE_TTL, cacheTags } from '@/lib/cache'
 
 // GET /api/history - Get user's watch history
 export async function GET(request: Request) {
@@ -47,7 +47,8 @@ export async function GET(request: Request) {
         
         // Return an array even if no items found
         return historyItems || []
-      }
+      },
+      { tags: [cacheTags.user(auth.user.uid)] }
     )
 
     // Return the history items directly without wrapping in a data property
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { getOptionalUser } from '@/lib/authMiddleware';
+import { successResponse, notFoundResponse, tooManyRequestsResponse, handleApiError } from '@/lib/apiResponse';
+import { checkRateLimit, getRateLimitIdentifier, RateLimit } from '@/lib/rateLimit';
+import { languageQuerySchema, mediaParamsSchema } from '@/lib/validationSchemas';
+import { getLocalizedMediaDetails } from '@/services/mediaDetailsService';
+import { getLocalePreferences } from '@/services/localeService';
+
+type Props = {
+  params: Promise<{
+    mediaType: string
+    mediaId: string
+  }>
+}
+
+// Signed-out visitors can open details too, each uncached title costs a TMDB request
+const MEDIA_ANONYMOUS_RATE_LIMIT: RateLimit = { limit: 60, windowSeconds: 60 };
+
+// GET /api/media/[mediaType]/[mediaId] - Details with credits for one title, from the media store.
+// Text and artwork follow ?language=, or the signed-in user's saved language without it
+export async function GET(
+  request: Request,
+  props: Props
+): Promise<NextResponse> {
+  try {
+    const key = mediaParamsSchema.parse(await props.params);
+    const query = languageQuerySchema.parse(
+      Object.fromEntries(new URL(request.url).searchParams)
+    );
+
+    const user = await getOptionalUser(request);
+    if (!user) {
+      const rateLimit = await checkRateLimit('media', getRateLimitIdentifier(request), MEDIA_ANONYMOUS_RATE_LIMIT);
+      if (!rateLimit.allowed) {
+        return tooManyRequestsResponse(rateLimit.retryAfter);
+      }
+    }
+
+    const language = query.language || (await getLocalePreferences(user?.uid)).locale;
+    const details = await getLocalizedMediaDetails(key, language);
+    if (!details) {
+      return notFoundResponse('Title');
+    }
+
+    return successResponse({ data: details });
+  } catch (error) {
+    console.error('Error in media GET:', error);
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,22 @@
+import { authenticateRequest } from '@/lib/authMiddleware';
+import { successResponse, handleApiError } from '@/lib/apiResponse';
+import { mediaBatchRequestSchema } from '@/lib/validationSchemas';
+import { getMediaDetailsBatch } from '@/services/mediaDetailsService';
+
+// POST /api/media/batch - Details for many titles in one request, for stats across a whole watchlist
+export async function POST(request: Request) {
+  try {
+    const auth = await authenticateRequest(request);
+    if (!auth.success) return auth.response;
+
+    const body = await request.json();
+    const { items } = mediaBatchRequestSchema.parse(body);
+
+    const details = await getMediaDetailsBatch(items);
+
+    return successResponse({ data: { details } });
+  } catch (error) {
+    console.error('Error in media batch POST:', error);
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { getOptionalUser } from '@/lib/authMiddleware';
+import { successResponse, notFoundResponse, tooManyRequestsResponse, handleApiError } from '@/lib/apiResponse';
+import { checkRateLimit, getRateLimitIdentifier, RateLimit } from '@/lib/rateLimit';
+import { languageQuerySchema, personParamsSchema } from '@/lib/validationSchemas';
+import { getPersonDetails } from '@/services/personService';
+import { getLocalePreferences } from '@/services/localeService';
+
+type Props = {
+  params: Promise<{
+    personId: string
+  }>
+}
+
+// Signed-out visitors can open person pages too, each uncached person costs a TMDB request
+const PERSON_ANONYMOUS_RATE_LIMIT: RateLimit = { limit: 60, windowSeconds: 60 };
+
+// GET /api/person/[personId] - A person's profile and credits, with the viewer's watchlist status on each.
+// Text follows ?language=, or the signed-in user's saved language without it
+export async function GET(
+  request: Request,
+  props: Props
+): Promise<NextResponse> {
+  try {
+    const { personId } = personParamsSchema.parse(await props.params);
+    const query = languageQuerySchema.parse(
+      Object.fromEntries(new URL(request.url).searchParams)
+    );
+
+    const user = await getOptionalUser(request);
+    if (!user) {
+      const rateLimit = await checkRateLimit('person', getRateLimitIdentifier(request), PERSON_ANONYMOUS_RATE_LIMIT);
+      if (!rateLimit.allowed) {
+        return tooManyRequestsResponse(rateLimit.retryAfter);
+      }
+    }
+
+    const language = query.language || (await getLocalePreferences(user?.uid)).locale;
+    const person = await getPersonDetails(personId, { userId: user?.uid, language });
+    if (!person) {
+      return notFoundResponse('Person');
+    }
+
+    return successResponse({ data: person });
+  } catch (error) {
+    console.error('Error in person GET:', error);
+    return handleApiError(error);
+  }
+}
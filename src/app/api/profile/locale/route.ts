@@ -0,0 +1,52 @@
+import { prisma, withPrismaRetry } from '@/lib/prisma';
+import { authenticateRequest } from '@/lib/authMiddleware';
+import { successResponse, handleApiError } from '@/lib/apiResponse';
+import { localePreferencesUpdateSchema } from '@/lib/validationSchemas';
+import { getLocalePreferences } from '@/services/localeService';
+
+// GET /api/profile/locale - Get the user's language and watch region
+export async function GET(request: Request) {
+  try {
+    const auth = await authenticateRequest(request);
+    if (!auth.success) return auth.response;
+
+    const preferences = await getLocalePreferences(auth.user.uid);
+
+    return successResponse({ data: preferences });
+  } catch (error) {
+    console.error('Error in locale GET:', error);
+    return handleApiError(error);
+  }
+}
+
+// PUT /api/profile/locale - Replace the user's language and watch region
+export async function PUT(request: Request) {
+  try {
+    const auth = await authenticateRequest(request);
+    if (!auth.success) return auth.response;
+
+    const body = await request.json();
+    const { locale, region } = localePreferencesUpdateSchema.parse(body);
+
+    const user = await withPrismaRetry(() =>
+      prisma.user.upsert({
+        where: { id: auth.user.uid },
+        update: { locale, watchRegion: region },
+        create: {
+          id: auth.user.uid,
+          email: auth.user.email,
+          displayName: auth.user.name,
+          photoURL: auth.user.picture,
+          locale,
+          watchRegion: region,
+        },
+        select: { locale: true, watchRegion: true },
+      })
+    );
+
+    return successResponse({ data: { locale: user.locale, region: user.watchRegion } });
+  } catch (error) {
+    console.error('Error in locale PUT:', error);
+    return handleApiError(error);
+  }
+}
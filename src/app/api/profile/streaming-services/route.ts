@@ -0,0 +1,53 @@
+import { prisma, withPrismaRetry } from '@/lib/prisma';
+import { authenticateRequest } from '@/lib/authMiddleware';
+import { successResponse, handleApiError } from '@/lib/apiResponse';
+import { streamingServicesUpdateSchema } from '@/lib/validationSchemas';
+import { getStreamingPreferences } from '@/services/streamingAvailabilityService';
+
+// GET /api/profile/streaming-services - Get the user's streaming services and watch region
+export async function GET(request: Request) {
+  try {
+    const auth = await authenticateRequest(request);
+    if (!auth.success) return auth.response;
+
+    const preferences = await getStreamingPreferences(auth.user.uid);
+
+    return successResponse({ data: preferences });
+  } catch (error) {
+    console.error('Error in streaming services GET:', error);
+    return handleApiError(error);
+  }
+}
+
+// PUT /api/profile/streaming-services - Replace the user's streaming services and watch region
+export async function PUT(request: Request) {
+  try {
+    const auth = await authenticateRequest(request);
+    if (!auth.success) return auth.response;
+
+    const body = await request.json();
+    const { region, services } = streamingServicesUpdateSchema.parse(body);
+    const uniqueServices = Array.from(new Set(services));
+
+    const user = await withPrismaRetry(() =>
+      prisma.user.upsert({
+        where: { id: auth.user.uid },
+        update: { watchRegion: region, streamingServices: uniqueServices },
+        create: {
+          id: auth.user.uid,
+          email: auth.user.email,
+          displayName: auth.user.name,
+          photoURL: auth.user.picture,
+          watchRegion: region,
+          streamingServices: uniqueServices,
+        },
+        select: { watchRegion: true, streamingServices: true },
+      })
+    );
+
+    return successResponse({ data: { region: user.watchRegion, services: user.streamingServices } });
+  } catch (error) {
+    console.error('Error in streaming services PUT:', error);
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,86 @@
+import { NextResponse } from 'next/server';
+import { prisma, withPrismaRetry } from '@/lib/prisma';
+import { getOptionalUser } from '@/lib/authMiddleware';
+import {
+  successResponse,
+  handleApiError,
+  notFoundResponse,
+  badRequestResponse,
+  tooManyRequestsResponse,
+} from '@/lib/apiResponse';
+import { checkRateLimit, getRateLimitIdentifier } from '@/lib/rateLimit';
+import { conversationMessageSchema } from '@/lib/validationSchemas';
+import {
+  ASSISTANT_RATE_LIMIT,
+  continueConversation,
+  toRecommendationConversation,
+} from '@/services/conversationService';
+
+type Props = {
+  params: Promise<{
+    conversationId: string
+  }>
+}
+
+/**
+ * Load a conversation the caller may see: their own, or an anonymous one they hold the ID of
+ */
+async function findConversation(conversationId: string, userId?: string) {
+  const conversation = await withPrismaRetry(() =>
+    prisma.recommendationConversation.findUnique({ where: { id: conversationId } })
+  );
+  return conversation && (!conversation.userId || conversation.userId === userId) ? conversation : null;
+}
+
+// GET /api/recommendations/conversations/[conversationId] - Get the messages and latest results
+export async function GET(
+  request: Request,
+  props: Props
+): Promise<NextResponse> {
+  try {
+    const params = await props.params;
+    const user = await getOptionalUser(request);
+
+    const conversation = await findConversation(params.conversationId, user?.uid);
+    if (!conversation) {
+      return notFoundResponse('Conversation');
+    }
+
+    return successResponse({ data: toRecommendationConversation(conversation) });
+  } catch (error) {
+    console.error('Error in conversation GET:', error);
+    return handleApiError(error);
+  }
+}
+
+// POST /api/recommendations/conversations/[conversationId] - Send a follow-up that refines the results
+export async function POST(
+  request: Request,
+  props: Props
+): Promise<NextResponse> {
+  try {
+    const params = await props.params;
+    const body = await request.json();
+    const { message } = conversationMessageSchema.parse(body);
+    const user = await getOptionalUser(request);
+
+    // Checked first, so rejected requests cost no database lookup
+    const limit = await checkRateLimit('assistant', getRateLimitIdentifier(request, user?.uid), ASSISTANT_RATE_LIMIT);
+    if (!limit.allowed) return tooManyRequestsResponse(limit.retryAfter);
+
+    const conversation = await findConversation(params.conversationId, user?.uid);
+    if (!conversation) {
+      return notFoundResponse('Conversation');
+    }
+
+    const updated = await continueConversation(conversation, message);
+    if (!updated) {
+      return badRequestResponse('This conversation is at its limit, start a new one to keep going');
+    }
+
+    return successResponse({ data: updated });
+  } catch (error) {
+    console.error('Error in conversation POST:', error);
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,38 @@
+import { getOptionalUser } from '@/lib/authMiddleware';
+import {
+  successResponse,
+  handleApiError,
+  notFoundResponse,
+  tooManyRequestsResponse,
+  unauthorizedResponse,
+} from '@/lib/apiResponse';
+import { checkRateLimit, getRateLimitIdentifier } from '@/lib/rateLimit';
+import { conversationStartSchema } from '@/lib/validationSchemas';
+import { ASSISTANT_RATE_LIMIT, startConversation } from '@/services/conversationService';
+
+// POST /api/recommendations/conversations - Start a recommendation chat, optionally from a saved session
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const input = conversationStartSchema.parse(body);
+
+    const user = await getOptionalUser(request);
+    if ((input.useTaste || input.onlyMyServices) && !user) return unauthorizedResponse();
+
+    // Continuing from a session reuses its results, so only fresh generations count
+    if (!input.sessionId) {
+      const limit = await checkRateLimit('assistant', getRateLimitIdentifier(request, user?.uid), ASSISTANT_RATE_LIMIT);
+      if (!limit.allowed) return tooManyRequestsResponse(limit.retryAfter);
+    }
+
+    const conversation = await startConversation(input, user);
+    if (!conversation) {
+      return notFoundResponse('Session');
+    }
+
+    return successResponse({ data: conversation });
+  } catch (error) {
+    console.error('Error in conversations POST:', error);
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,63 @@
+import { prisma, withPrismaRetry } from '@/lib/prisma';
+import { authenticateRequest } from '@/lib/authMiddleware';
+import { successResponse, handleApiError, badRequestResponse } from '@/lib/apiResponse';
+import { groupRecommendationRequestSchema } from '@/lib/validationSchemas';
+import { getRecommendations } from '@/services/recommendationService';
+import { GroupParticipant, scoreGroupFit } from '@/services/groupRecommendationService';
+
+// POST /api/recommendations/group - Recommend something for the user and some friends to watch together
+export async function POST(request: Request) {
+  try {
+    const auth = await authenticateRequest(request);
+    if (!auth.success) return auth.response;
+
+    const body = await request.json();
+    const { friendIds, description, count, mediaType, filters } = groupRecommendationRequestSchema.parse(body);
+
+    const [organizer, friendships] = await Promise.all([
+      withPrismaRetry(() =>
+        prisma.user.findUnique({
+          where: { id: auth.user.uid },
+          select: { id: true, displayName: true, photoURL: true },
+        })
+      ),
+      withPrismaRetry(() =>
+        prisma.friendship.findMany({
+          where: { userId: auth.user.uid, friendId: { in: friendIds } },
+          select: { friend: { select: { id: true, displayName: true, photoURL: true } } },
+        })
+      ),
+    ]);
+
+    const uniqueFriendIds = new Set(friendIds);
+    if (friendships.length !== uniqueFriendIds.size) {
+      return badRequestResponse('You can only plan a movie night with your friends');
+    }
+
+    const participants: GroupParticipant[] = [
+      organizer || { id: auth.user.uid, displayName: auth.user.name || null, photoURL: auth.user.picture || null },
+      ...friendships.map(({ friend }) => friend),
+    ];
+
+    const recommendations = await getRecommendations({
+      description: [
+        `Watching together as a group of ${participants.length}, pick titles everyone will enjoy.`,
+        description,
+      ].join(' ').trim(),
+      selectedMedia: [],
+      count,
+      mediaType,
+      filters,
+      groupUserIds: participants.map(participant => participant.id),
+      feedbackUserId: auth.user.uid,
+      localeUserId: auth.user.uid,
+    });
+
+    const picks = await scoreGroupFit(recommendations, participants);
+
+    return successResponse({ data: picks });
+  } catch (error) {
+    console.error('Error in group recommendations POST:', error);
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,34 @@
+import { getOptionalUser } from '@/lib/authMiddleware';
+import { successResponse, handleApiError, tooManyRequestsResponse, unauthorizedResponse } from '@/lib/apiResponse';
+import { checkRateLimit, getRateLimitIdentifier } from '@/lib/rateLimit';
+import { recommendationRequestSchema } from '@/lib/validationSchemas';
+import { getRecommendations, RECOMMENDATION_RATE_LIMIT } from '@/services/recommendationService';
+
+// POST /api/recommendations - Generate recommendations and resolve them to TMDB media
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const { useTaste, onlyMyServices, ...validatedData } = recommendationRequestSchema.parse(body);
+
+    // Feedback and language apply whenever the user is signed in, the watchlist and services are opt-in
+    const user = await getOptionalUser(request);
+    if ((useTaste || onlyMyServices) && !user) return unauthorizedResponse();
+
+    const limit = await checkRateLimit('recommendations', getRateLimitIdentifier(request, user?.uid), RECOMMENDATION_RATE_LIMIT);
+    if (!limit.allowed) return tooManyRequestsResponse(limit.retryAfter);
+
+    const personalization = {
+      tasteUserId: useTaste ? user?.uid : undefined,
+      servicesUserId: onlyMyServices ? user?.uid : undefined,
+      feedbackUserId: user?.uid,
+      localeUserId: user?.uid,
+    };
+
+    const recommendations = await getRecommendations({ ...validatedData, ...personalization });
+
+    return successResponse({ data: recommendations });
+  } catch (error) {
+    console.error('Error in recommendations POST:', error);
+    return handleApiError(error);
+  }
+}
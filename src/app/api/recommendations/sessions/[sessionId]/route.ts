@@ -0,0 +1,102 @@
+import { NextResponse } from 'next/server';
+import { prisma, withPrismaRetry } from '@/lib/prisma';
+import { authenticateRequest, getOptionalUser } from '@/lib/authMiddleware';
+import { successResponse, handleApiError, notFoundResponse } from '@/lib/apiResponse';
+import { recommendationSessionUpdateSchema } from '@/lib/validationSchemas';
+import { toRecommendationSession } from '@/services/recommendationSessionService';
+
+type Props = {
+  params: Promise<{
+    sessionId: string
+  }>
+}
+
+// GET /api/recommendations/sessions/[sessionId] - Get a session, anyone with the link may view it
+export async function GET(
+  request: Request,
+  props: Props
+): Promise<NextResponse> {
+  try {
+    const params = await props.params;
+    const user = await getOptionalUser(request);
+
+    const session = await withPrismaRetry(() =>
+      prisma.recommendationSession.findUnique({
+        where: { id: params.sessionId },
+      })
+    );
+
+    if (!session) {
+      return notFoundResponse('Session');
+    }
+
+    return successResponse({ data: toRecommendationSession(session, user?.uid) });
+  } catch (error) {
+    console.error('Error in recommendation session GET:', error);
+    return handleApiError(error);
+  }
+}
+
+// PATCH /api/recommendations/sessions/[sessionId] - Rename one of the user's sessions
+export async function PATCH(
+  request: Request,
+  props: Props
+): Promise<NextResponse> {
+  try {
+    const params = await props.params;
+    const auth = await authenticateRequest(request);
+    if (!auth.success) return auth.response;
+
+    const body = await request.json();
+    const { name } = recommendationSessionUpdateSchema.parse(body);
+
+    const { count } = await withPrismaRetry(() =>
+      prisma.recommendationSession.updateMany({
+        where: {
+          id: params.sessionId,
+          userId: auth.user.uid,
+        },
+        data: { name },
+      })
+    );
+
+    if (count === 0) {
+      return notFoundResponse('Session');
+    }
+
+    return successResponse({ data: { id: params.sessionId, name } });
+  } catch (error) {
+    console.error('Error in recommendation session PATCH:', error);
+    return handleApiError(error);
+  }
+}
+
+// DELETE /api/recommendations/sessions/[sessionId] - Delete one of the user's sessions
+export async function DELETE(
+  request: Request,
+  props: Props
+): Promise<NextResponse> {
+  try {
+    const params = await props.params;
+    const auth = await authenticateRequest(request);
+    if (!auth.success) return auth.response;
+
+    const { count } = await withPrismaRetry(() =>
+      prisma.recommendationSession.deleteMany({
+        where: {
+          id: params.sessionId,
+          userId: auth.user.uid,
+        },
+      })
+    );
+
+    if (count === 0) {
+      return notFoundResponse('Session');
+    }
+
+    return successResponse({ message: 'Session deleted successfully' });
+  } catch (error) {
+    console.error('Error in recommendation session DELETE:', error);
+    return handleApiError(error);
+  }
+}
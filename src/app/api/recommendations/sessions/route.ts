@@ -0,0 +1,27 @@
+import { prisma, withPrismaRetry } from '@/lib/prisma';
+import { authenticateRequest } from '@/lib/authMiddleware';
+import { successResponse, handleApiError } from '@/lib/apiResponse';
+import { toRecommendationSession } from '@/services/recommendationSessionService';
+
+const MAX_SESSIONS = 50;
+
+// GET /api/recommendations/sessions - Get the user's past recommendation sessions, newest first
+export async function GET(request: Request) {
+  try {
+    const auth = await authenticateRequest(request);
+    if (!auth.success) return auth.response;
+
+    const sessions = await withPrismaRetry(() =>
+      prisma.recommendationSession.findMany({
+        where: { userId: auth.user.uid },
+        orderBy: { createdAt: 'desc' },
+        take: MAX_SESSIONS,
+      })
+    );
+
+    return successResponse({ data: sessions.map(session => toRecommendationSession(session, auth.user.uid)) });
+  } catch (error) {
+    console.error('Error in recommendation sessions GET:', error);
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { getOptionalUser } from '@/lib/authMiddleware';
+import { successResponse, tooManyRequestsResponse, handleApiError } from '@/lib/apiResponse';
+import { checkRateLimit, getRateLimitIdentifier, RateLimit } from '@/lib/rateLimit';
+import { mediaParamsSchema } from '@/lib/validationSchemas';
+import { getSimilarMedia } from '@/services/similarMediaService';
+
+type Props = {
+  params: Promise<{
+    mediaType: string
+    mediaId: string
+  }>
+}
+
+// Signed-out visitors see "More like this" too, each uncached title costs several TMDB requests
+const SIMILAR_ANONYMOUS_RATE_LIMIT: RateLimit = { limit: 60, windowSeconds: 60 };
+
+// GET /api/recommendations/similar/[mediaType]/[mediaId] - "More like this", tailored to the viewer when signed in
+export async function GET(
+  request: Request,
+  props: Props
+): Promise<NextResponse> {
+  try {
+    const { mediaType, mediaId } = mediaParamsSchema.parse(await props.params);
+    const user = await getOptionalUser(request);
+    if (!user) {
+      const rateLimit = await checkRateLimit('similar', getRateLimitIdentifier(request), SIMILAR_ANONYMOUS_RATE_LIMIT);
+      if (!rateLimit.allowed) {
+        return tooManyRequestsResponse(rateLimit.retryAfter);
+      }
+    }
+
+    const similar = await getSimilarMedia(mediaType, mediaId, user?.uid);
+
+    return successResponse({ data: similar });
+  } catch (error) {
+    console.error('Error in similar media GET:', error);
+    return handleApiError(error);
+  }
+}
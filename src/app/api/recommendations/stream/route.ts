@@ -0,0 +1,100 @@
+import { getOptionalUser } from '@/lib/authMiddleware';
+import { handleApiError, tooManyRequestsResponse, unauthorizedResponse } from '@/lib/apiResponse';
+import { checkRateLimit, getRateLimitIdentifier } from '@/lib/rateLimit';
+import { recommendationRequestSchema } from '@/lib/validationSchemas';
+import { RECOMMENDATION_RATE_LIMIT, streamRecommendations } from '@/services/recommendationService';
+import { saveRecommendationSession } from '@/services/recommendationSessionService';
+import { RankedRecommendation } from '@/types/recommendation';
+
+// Overall time budget for generating and resolving one batch
+const STREAM_TIMEOUT_MS = 60000;
+
+const encoder = new TextEncoder();
+
+const formatEvent = (event: string, data: unknown) =>
+  encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+// POST /api/recommendations/stream - Stream each recommendation as a Server-Sent Event once it is resolved,
+// then save the run as a shareable session for signed-in users
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const { useTaste, onlyMyServices, ...validatedData } = recommendationRequestSchema.parse(body);
+
+    // Feedback and language apply whenever the user is signed in, the watchlist and services are opt-in
+    const user = await getOptionalUser(request);
+    if ((useTaste || onlyMyServices) && !user) return unauthorizedResponse();
+
+    // Checked before the stream opens, since each run holds it open for up to STREAM_TIMEOUT_MS
+    const limit = await checkRateLimit('recommendations', getRateLimitIdentifier(request, user?.uid), RECOMMENDATION_RATE_LIMIT);
+    if (!limit.allowed) return tooManyRequestsResponse(limit.retryAfter);
+
+    const personalization = {
+      tasteUserId: useTaste ? user?.uid : undefined,
+      servicesUserId: onlyMyServices ? user?.uid : undefined,
+      feedbackUserId: user?.uid,
+      localeUserId: user?.uid,
+    };
+
+    // Stop work when the client disconnects or the time budget runs out
+    const signal = AbortSignal.any([request.signal, AbortSignal.timeout(STREAM_TIMEOUT_MS)]);
+
+    let closed = false;
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        // The client may cancel at any point, after which the stream must not be written to
+        const send = (event: string, data: unknown) => {
+          if (!closed) controller.enqueue(formatEvent(event, data));
+        };
+
+        try {
+          const results: RankedRecommendation[] = [];
+          for await (const result of streamRecommendations({ ...validatedData, ...personalization }, signal)) {
+            results.push(result);
+            send('recommendation', result);
+          }
+
+          if (signal.aborted && !request.signal.aborted) {
+            send('error', { error: 'Request timed out' });
+          } else {
+            // Only complete runs of signed-in users are saved, so anonymous traffic cannot fill the table,
+            // and failing to save must not fail the run
+            if (user && !signal.aborted && results.length > 0) {
+              try {
+                const ranked = results.map(({ media }) => media);
+                send('session', { id: await saveRecommendationSession(validatedData, ranked, user) });
+              } catch (error) {
+                console.error('Error saving recommendation session:', error);
+              }
+            }
+            send('done', {});
+          }
+        } catch (error) {
+          console.error('Error streaming recommendations:', error);
+          send('error', {
+            error: error instanceof Error ? error.message : 'Failed to generate recommendations',
+          });
+        } finally {
+          if (!closed) {
+            closed = true;
+            controller.close();
+          }
+        }
+      },
+      cancel() {
+        closed = true;
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+      },
+    });
+  } catch (error) {
+    console.error('Error in recommendations stream POST:', error);
+    return handleApiError(error);
+  }
+}
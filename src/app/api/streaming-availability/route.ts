@@ -0,0 +1,29 @@
+import { authenticateRequest } from '@/lib/authMiddleware';
+import { successResponse, handleApiError } from '@/lib/apiResponse';
+import { streamingAvailabilityRequestSchema } from '@/lib/validationSchemas';
+import { getStreamingAvailability, getStreamingPreferences } from '@/services/streamingAvailabilityService';
+
+// POST /api/streaming-availability - Which of the user's services stream each title in their region
+export async function POST(request: Request) {
+  try {
+    const auth = await authenticateRequest(request);
+    if (!auth.success) return auth.response;
+
+    const body = await request.json();
+    const { items } = streamingAvailabilityRequestSchema.parse(body);
+
+    const preferences = await getStreamingPreferences(auth.user.uid);
+    const availability = await getStreamingAvailability(items, preferences);
+
+    return successResponse({
+      data: {
+        // Lets the client tell "not on your services" apart from "no services set up"
+        hasServices: preferences.services.length > 0,
+        availability,
+      },
+    });
+  } catch (error) {
+    console.error('Error in streaming availability POST:', error);
+    return handleApiError(error);
+  }
+}
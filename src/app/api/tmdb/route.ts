@@ -1,59 +1,40 @@
 import { NextResponse } from 'next/server';
-import { fetchWithRetry } from '@/lib/retryUtils';
-import { withCache, generateCacheKey, CACHE_TTL } from '@/lib/redis';
+import { fetchFromTMDBWithStatus } from '@/lib/tmdb';
+import { getOptionalUser } from '@/lib/authMiddleware';
+import { badRequestResponse, tooManyRequestsResponse } from '@/lib/apiResponse';
+import { checkRateLimit, getRateLimitIdentifier } from '@/lib/rateLimit';
+import { TMDB_PROXY_ANONYMOUS_RATE_LIMIT, validateTMDBProxyPath } from '@/lib/tmdbProxy';
 
 export async function GET(request: Request) {
   try {
     const { searchParams } = new URL(request.url);
     const path = searchParams.get('path');
-    
+
     if (!path) {
-      return NextResponse.json({ error: 'Path parameter is required' }, { status: 400 });
+      return badRequestResponse('Path parameter is required');
     }
 
-    // Generate cache key based on the TMDB path
-    const cacheKey = generateCacheKey('tmdb', { path });
-    
-    // Use the withCache helper to handle caching logic
-    const data = await withCache(
-      cacheKey,
-      CACHE_TTL.TMDB,
-      async () => {
-        const tmdbResponse = await fetchWithRetry(
-          `https://api.themoviedb.org/3${path}${path.includes('?') ? '&' : '?'}api_key=${process.env.NEXT_PUBLIC_TMDB_API_KEY}`,
-          {
-            headers: {
-              'Accept': 'application/json'
-            },
-            signal: AbortSignal.timeout(10000) // 10 second timeout
-          },
-          {
-            maxRetries: 3,
-            baseDelay: 1000,
-            maxDelay: 5000
-          }
-        );
-
-        if (!tmdbResponse.ok) {
-          const errorData = await tmdbResponse.json().catch(() => ({ 
-            status_message: tmdbResponse.statusText || 'Unknown error',
-            status_code: tmdbResponse.status 
-          }));
-          
-          console.error('TMDB API error:', {
-            status: tmdbResponse.status,
-            statusText: tmdbResponse.statusText,
-            error: errorData
-          });
-          
-          throw new Error(errorData.status_message || 'TMDB API error');
-        }
+    searchParams.delete('path');
+    const validated = validateTMDBProxyPath(path, searchParams);
+    if (!validated.success) {
+      return badRequestResponse(validated.error);
+    }
 
-        return tmdbResponse.json();
+    const user = await getOptionalUser(request);
+    if (!user) {
+      const rateLimit = await checkRateLimit('tmdb', getRateLimitIdentifier(request), TMDB_PROXY_ANONYMOUS_RATE_LIMIT);
+      if (!rateLimit.allowed) {
+        return tooManyRequestsResponse(rateLimit.retryAfter);
       }
-    );
-    
-    return NextResponse.json(data);
+    }
+
+    // Fetch through the shared server-side TMDB helper (handles caching and retries)
+    const { data, status, age } = await fetchFromTMDBWithStatus(validated.path);
+
+    // HIT, STALE (served while refreshing in the background) or MISS
+    return NextResponse.json(data, {
+      headers: { 'X-Cache': status, 'Age': String(age) },
+    });
   } catch (error) {
     console.error('TMDB proxy error:', error);
     if (error instanceof Error) {
@@ -69,4 +50,4 @@ export async function GET(request: Request) {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}
@@ -7,6 +7,7 @@ import {
   notFoundResponse 
 } from '@/lib/apiResponse';
 import { watchlistUpdateSchema } from '@/lib/validationSchemas';
+import { invalidateWatchlistCaches } from '@/services/watchlistService';
 
 type Props = {
   params: Promise<{
@@ -75,6 +76,9 @@ export async function PATCH(
       },
     });
 
+    // Invalidate this user's watchlist and history, and their friends' feeds
+    await invalidateWatchlistCaches(auth.user.uid);
+
     return successResponse(updatedEntry);
   } catch (error) {
     return handleApiError(error);
@@ -107,6 +111,9 @@ export async function DELETE(
       },
     });
 
+    // Invalidate this user's watchlist and history, and their friends' feeds
+    await invalidateWatchlistCaches(auth.user.uid);
+
     return successResponse({ message: 'Watchlist entry deleted successfully' });
   } catch (error) {
     return handleApiError(error);
@@ -6,8 +6,10 @@ import {
 } from '@/lib/apiResponse'
 import { watchlistCreateSchema } from '@/lib/validationSchemas'
 import { Prisma } from '@prisma/client'
-import { NextRequest } from 'next/server'
-import { withCache, generateCacheKey, CACHE_TTL, invalidateCache } from '@/lib/redis'
+import { after, NextRequest } from 'next/server'
+import { withCache, generateCacheKey, CACHE_TTL, cacheTags } from '@/lib/cache'
+import { getMediaDetails } from '@/services/mediaDetailsService'
+import { invalidateWatchlistCaches } from '@/services/watchlistService'
 
 // GET /api/watchlist - Get user's watchlist
 export async function GET(request: Request) {
@@ -61,7 +63,8 @@ export async function GET(request: Request) {
             orderBy: { updatedAt: 'desc' },
           })
         )
-      }
+      },
+      { tags: [cacheTags.user(auth.user.uid)] }
     )
 
     return successResponse({ data: watchlist })
@@ -98,6 +101,19 @@ export async function POST(request: Request) {
             },
           })
 
+          // Entries reference the stored title, a stub until its TMDB details are filled in below
+          await tx.media.upsert({
+            where: { mediaType_tmdbId: { mediaType: validatedData.mediaType, tmdbId: validatedData.mediaId } },
+            update: {},
+            create: {
+              tmdbId: validatedData.mediaId,
+              mediaType: validatedData.mediaType,
+              title: validatedData.title,
+              posterPath: validatedData.posterPath,
+              genres: validatedData.genres,
+            },
+          })
+
           // Add media to watchlist with progress data if provided
           return tx.watchlistEntry.create({
             data: {
@@ -124,12 +140,15 @@ export async function POST(request: Request) {
         })
       )
       
-      // Invalidate watchlist cache for this user
-      await invalidateCache(`watchlist:userId=${auth.user.uid}*`)
-      
-      // Also invalidate feed cache for all users (since this update might affect their feeds)
-      await invalidateCache('feed:*')
+      // Invalidate this user's watchlist and history, and their friends' feeds
+      await invalidateWatchlistCaches(auth.user.uid)
       
+      // Store the title's details once the response is sent, unless they are already fresh
+      after(() =>
+        getMediaDetails([{ mediaType: validatedData.mediaType, mediaId: validatedData.mediaId }])
+          .catch(error => console.error('Error storing media details:', error))
+      )
+
       console.log('Created watchlist entry:', entry)
       return successResponse({ data: entry })
     } catch (validationError) {
@@ -163,11 +182,8 @@ export async function DELETE(request: NextRequest, { params }: DeleteParams) {
       },
     })
     
-    // Invalidate watchlist cache for this user
-    await invalidateCache(`watchlist:userId=${auth.user.uid}*`)
-    
-    // Also invalidate feed cache for all users (since this deletion might affect their feeds)
-    await invalidateCache('feed:*')
+    // Invalidate this user's watchlist and history, and their friends' feeds
+    await invalidateWatchlistCaches(auth.user.uid)
 
     return successResponse({ data: { success: true } })
   } catch (error) {
@@ -0,0 +1,257 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { LuSendHorizontal, LuLoader, LuSparkles, LuRotateCcw, LuBot } from "react-icons/lu";
+import MediaRecommendations from "@/components/MediaRecommendations";
+import { useAuth } from "@/contexts/AuthContext";
+import { fetchConversation, sendConversationMessage, startConversation } from "@/lib/assistant";
+import { availabilityKey } from "@/lib/utils";
+import { RecommendationConversation, RecommendationMediaType, RecommendedMedia } from "@/types/recommendation";
+
+const MEDIA_MODES: { value: RecommendationMediaType; label: string }[] = [
+  { value: "movie", label: "Movies" },
+  { value: "tv", label: "TV" },
+  { value: "mixed", label: "Both" },
+];
+
+const SUGGESTIONS = ["darker", "less violent", "more recent", "more like #1"];
+
+export default function AssistantPage() {
+  const { user } = useAuth();
+  const [conversation, setConversation] = useState<RecommendationConversation | null>(null);
+  const [results, setResults] = useState<RecommendedMedia[]>([]);
+  const [input, setInput] = useState("");
+  const [pendingMessage, setPendingMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [mediaMode, setMediaMode] = useState<RecommendationMediaType>("movie");
+  const [tasteMode, setTasteMode] = useState(false);
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+
+  const applyConversation = (next: RecommendationConversation) => {
+    setConversation(next);
+    setResults(next.results);
+    // Keep the conversation in the URL so a refresh picks it back up
+    window.history.replaceState(null, "", `/assistant?conversation=${next.id}`);
+  };
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const conversationId = params.get("conversation");
+    const sessionId = params.get("session");
+    if (!conversationId && !sessionId) return;
+
+    setPendingMessage(conversationId ? "" : "Picking up your saved recommendations...");
+    (conversationId ? fetchConversation(conversationId) : startConversation({ sessionId: sessionId! }))
+      .then(applyConversation)
+      .catch((error) => {
+        console.error("Error loading conversation:", error);
+        setError(error instanceof Error ? error.message : "Failed to load the conversation");
+        window.history.replaceState(null, "", "/assistant");
+      })
+      .finally(() => setPendingMessage(null));
+  }, []);
+
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ behavior: "smooth", block: "nearest" });
+  }, [conversation?.messages.length, pendingMessage]);
+
+  // Numbers follow the server's order, so "#3" still means the same title after one is hidden
+  const numbers = useMemo(
+    () => new Map(conversation?.results.map((media, index) => [availabilityKey(media.media_type, media.id), index + 1])),
+    [conversation]
+  );
+
+  const handleSend = async (text = input) => {
+    const message = text.trim();
+    if (!message || pendingMessage !== null) return;
+
+    setInput("");
+    setError(null);
+    setPendingMessage(message);
+    try {
+      applyConversation(conversation
+        ? await sendConversationMessage(conversation.id, message)
+        : await startConversation({ message, mediaType: mediaMode, useTaste: tasteMode && !!user }));
+    } catch (error) {
+      console.error("Error sending message:", error);
+      setError(error instanceof Error ? error.message : "Failed to get recommendations");
+      setInput(message);
+    } finally {
+      setPendingMessage(null);
+    }
+  };
+
+  const handleStartOver = () => {
+    setConversation(null);
+    setResults([]);
+    setError(null);
+    window.history.replaceState(null, "", "/assistant");
+  };
+
+  const isBusy = pendingMessage !== null;
+  const isAtLimit = conversation?.remainingTurns === 0;
+
+  return (
+    <div className="min-h-screen flex flex-col py-16 sm:py-20 px-4 sm:px-8">
+      <div className="w-full max-w-2xl mx-auto flex flex-col gap-4">
+        <div className="flex items-center justify-between gap-4">
+          <h1 className="text-2xl sm:text-3xl font-bold flex items-center gap-2">
+            <LuBot className="w-7 h-7" />
+            Recommendation Assistant
+          </h1>
+          {conversation && (
+            <button
+              onClick={handleStartOver}
+              className="flex items-center gap-2 px-3 py-1.5 rounded-full text-sm text-gray-400 hover:text-white hover:bg-white/10 transition-colors"
+            >
+              <LuRotateCcw className="w-4 h-4" />
+              Start over
+            </button>
+          )}
+        </div>
+
+        <div className="flex flex-col gap-3 bg-black/50 backdrop-blur-sm border border-gray-800/50 rounded-2xl p-4 max-h-[40vh] overflow-y-auto">
+          {!conversation && !isBusy && (
+            <p className="text-sm text-gray-400">
+              Describe what you&apos;re in the mood for, then keep refining: &ldquo;darker&rdquo;,
+              &ldquo;less violent&rdquo;, &ldquo;more like #3&rdquo;.
+            </p>
+          )}
+          {conversation?.messages.map((message, index) => (
+            <div
+              key={index}
+              className={`max-w-[85%] px-3 py-2 rounded-2xl text-sm ${
+                message.role === "user"
+                  ? "self-end bg-white/15 text-white rounded-br-sm"
+                  : "self-start bg-white/5 text-gray-300 rounded-bl-sm"
+              }`}
+            >
+              {message.content}
+            </div>
+          ))}
+          {pendingMessage && (
+            <div className="self-end max-w-[85%] px-3 py-2 rounded-2xl rounded-br-sm text-sm bg-white/15 text-white">
+              {pendingMessage}
+            </div>
+          )}
+          {isBusy && (
+            <div className="self-start flex items-center gap-2 px-3 py-2 text-sm text-gray-400">
+              <LuLoader className="w-4 h-4 animate-spin" />
+              Thinking...
+            </div>
+          )}
+          <div ref={messagesEndRef} />
+        </div>
+
+        {error && (
+          <div className="bg-red-500/10 text-red-400 px-4 py-3 rounded-xl text-sm">{error}</div>
+        )}
+
+        {conversation && !isAtLimit && (
+          <div className="flex flex-wrap gap-2">
+            {SUGGESTIONS.map((suggestion) => (
+              <button
+                key={suggestion}
+                onClick={() => handleSend(suggestion)}
+                disabled={isBusy}
+                className="px-3 py-1 rounded-full text-xs sm:text-sm bg-black/50 border border-gray-800/50 text-gray-400 hover:text-white transition-colors disabled:opacity-50"
+              >
+                {suggestion}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {isAtLimit ? (
+          <p className="text-sm text-gray-400 text-center">
+            This conversation has reached its limit.{" "}
+            <button onClick={handleStartOver} className="text-white hover:underline">Start a new one</button>
+          </p>
+        ) : (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleSend();
+            }}
+            className="flex gap-2"
+          >
+            <input
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              maxLength={500}
+              placeholder={conversation ? "Refine the results..." : "Describe what you want to watch..."}
+              className="flex-1 bg-black/50 backdrop-blur-sm text-white placeholder:text-gray-500 px-4 py-3 rounded-xl border border-gray-800/50 text-sm sm:text-base focus:outline-none focus:ring-2 focus:ring-white/20"
+            />
+            <button
+              type="submit"
+              disabled={isBusy || !input.trim()}
+              className="bg-black/50 backdrop-blur-sm hover:bg-white/10 active:bg-white/20 transition-colors px-4 rounded-xl flex items-center justify-center border border-gray-800/50 disabled:opacity-50"
+              aria-label="Send"
+            >
+              <LuSendHorizontal className="w-5 h-5" />
+            </button>
+          </form>
+        )}
+
+        {conversation && conversation.remainingTurns > 0 && (
+          <p className="text-xs text-gray-500 text-center">
+            {conversation.remainingTurns} follow-up{conversation.remainingTurns === 1 ? "" : "s"} left in this conversation
+          </p>
+        )}
+
+        {!conversation && (
+          <div className="flex flex-wrap items-center justify-center gap-2">
+            <div
+              className="flex bg-black/50 backdrop-blur-sm border border-gray-800/50 rounded-full p-1 text-xs sm:text-sm"
+              role="radiogroup"
+              aria-label="What to recommend"
+            >
+              {MEDIA_MODES.map(({ value, label }) => (
+                <button
+                  key={value}
+                  onClick={() => setMediaMode(value)}
+                  className={`px-3 py-1 rounded-full transition-colors touch-manipulation ${
+                    mediaMode === value ? "bg-white/15 text-white" : "text-gray-400 hover:text-white"
+                  }`}
+                  role="radio"
+                  aria-checked={mediaMode === value}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+
+            {user && (
+              <button
+                onClick={() => setTasteMode(!tasteMode)}
+                className={`flex items-center gap-2 px-3 py-1.5 rounded-full text-xs sm:text-sm border transition-colors touch-manipulation ${
+                  tasteMode
+                    ? 'bg-purple-500/20 text-purple-300 border-purple-500/40'
+                    : 'bg-black/50 backdrop-blur-sm text-gray-400 border-gray-800/50 hover:text-white'
+                }`}
+                aria-pressed={tasteMode}
+              >
+                <LuSparkles className="w-4 h-4" />
+                Use my taste
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {conversation && (
+        <div className="w-full max-w-7xl mx-auto">
+          <MediaRecommendations
+            recommendations={results}
+            isLoading={isBusy && results.length === 0}
+            selectedMedia={[]}
+            onClearSelection={() => {}}
+            description={conversation.description}
+            onHide={(hidden) => setResults((prev) => prev.filter((media) => media !== hidden))}
+            getNumber={(media) => numbers.get(availabilityKey(media.media_type, media.id))}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
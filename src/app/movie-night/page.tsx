@@ -0,0 +1,284 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Image from 'next/image'
+import Link from 'next/link'
+import { motion } from 'framer-motion'
+import { LuPopcorn, LuCheck, LuLoader } from 'react-icons/lu'
+import clsx from 'clsx'
+import withAuth from '@/components/withAuth'
+import WatchlistButton from '@/components/WatchlistButton'
+import MediaDetailsModal from '@/components/MediaDetailsModal'
+import RecommendationFilters from '@/components/RecommendationFilters'
+import { fetchWithAuth } from '@/lib/api'
+import { fetchGroupRecommendations } from '@/lib/recommendations'
+import type { RecommendationFilters as Filters } from '@/lib/validationSchemas'
+import { GroupRecommendation, RecommendationMediaType } from '@/types/recommendation'
+
+interface Friend {
+  id: string
+  displayName: string | null
+  photoURL: string | null
+  email: string
+}
+
+const MAX_FRIENDS = 5
+
+const MEDIA_MODES: { value: RecommendationMediaType; label: string }[] = [
+  { value: 'movie', label: 'Movies' },
+  { value: 'tv', label: 'TV' },
+  { value: 'mixed', label: 'Both' },
+]
+
+const fitColor = (score: number) =>
+  score >= 70 ? 'bg-green-500' : score >= 40 ? 'bg-yellow-500' : 'bg-red-500'
+
+function MovieNight() {
+  const [friends, setFriends] = useState<Friend[]>([])
+  const [isLoadingFriends, setIsLoadingFriends] = useState(true)
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [description, setDescription] = useState('')
+  const [mediaMode, setMediaMode] = useState<RecommendationMediaType>('movie')
+  const [filters, setFilters] = useState<Filters>({})
+  const [picks, setPicks] = useState<GroupRecommendation[]>([])
+  const [isGenerating, setIsGenerating] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [selectedPick, setSelectedPick] = useState<GroupRecommendation | null>(null)
+
+  useEffect(() => {
+    fetchWithAuth<Friend[]>('/api/friends')
+      .then(setFriends)
+      .catch(error => {
+        console.error('Error fetching friends:', error)
+        setError('Failed to load your friends')
+      })
+      .finally(() => setIsLoadingFriends(false))
+  }, [])
+
+  const toggleFriend = (friendId: string) => {
+    setSelectedIds(prev =>
+      prev.includes(friendId)
+        ? prev.filter(id => id !== friendId)
+        : prev.length < MAX_FRIENDS ? [...prev, friendId] : prev
+    )
+  }
+
+  const handleGenerate = async () => {
+    if (selectedIds.length === 0) {
+      setError('Pick at least one friend to watch with')
+      return
+    }
+
+    setIsGenerating(true)
+    setError(null)
+    setPicks([])
+    try {
+      setPicks(await fetchGroupRecommendations({
+        friendIds: selectedIds,
+        description,
+        mediaType: mediaMode,
+        filters,
+      }))
+    } catch (error) {
+      console.error('Error generating group recommendations:', error)
+      setError(error instanceof Error ? error.message : 'Failed to generate recommendations')
+    } finally {
+      setIsGenerating(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen py-16 px-4 sm:px-8">
+      <div className="max-w-xl mx-auto flex flex-col gap-4">
+        <h1 className="text-3xl sm:text-4xl font-bold flex items-center gap-3">
+          <LuPopcorn className="w-8 h-8" />
+          Movie Night
+        </h1>
+        <p className="text-gray-400 text-sm">
+          Pick who&apos;s watching and we&apos;ll find something everyone should enjoy,
+          skipping anything one of you has already seen.
+        </p>
+
+        {error && (
+          <div className="bg-red-500/10 text-red-400 px-4 py-3 rounded-xl text-sm">{error}</div>
+        )}
+
+        <div className="flex flex-col gap-2">
+          <h2 className="text-sm font-medium text-gray-300">
+            Who&apos;s watching? <span className="text-gray-500">({selectedIds.length}/{MAX_FRIENDS})</span>
+          </h2>
+          {isLoadingFriends ? (
+            <div className="h-12 bg-white/5 rounded-xl animate-pulse" />
+          ) : friends.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              <Link href="/friends" className="text-white hover:underline">Add some friends</Link> to plan a movie night.
+            </p>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {friends.map(friend => {
+                const isSelected = selectedIds.includes(friend.id)
+                return (
+                  <button
+                    key={friend.id}
+                    onClick={() => toggleFriend(friend.id)}
+                    className={clsx(
+                      'flex items-center gap-2 pl-1 pr-3 py-1 rounded-full border text-sm transition-colors touch-manipulation',
+                      isSelected
+                        ? 'bg-white/15 border-white/30 text-white'
+                        : 'bg-black/50 border-gray-800/50 text-gray-400 hover:text-white'
+                    )}
+                    aria-pressed={isSelected}
+                  >
+                    <Image
+                      src={friend.photoURL || '/default-avatar.png'}
+                      alt=""
+                      width={24}
+                      height={24}
+                      className="rounded-full"
+                    />
+                    {friend.displayName || friend.email}
+                    {isSelected && <LuCheck className="w-4 h-4" />}
+                  </button>
+                )
+              })}
+            </div>
+          )}
+        </div>
+
+        <textarea
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          placeholder="What's the group in the mood for? (optional)"
+          className="bg-black/50 backdrop-blur-sm text-white placeholder:text-gray-500 p-3 sm:p-4 rounded-xl border border-gray-800/50 min-h-[60px] resize-none text-sm sm:text-base"
+        />
+
+        <div className="flex flex-wrap items-center justify-center gap-2">
+          <div
+            className="flex bg-black/50 backdrop-blur-sm border border-gray-800/50 rounded-full p-1 text-xs sm:text-sm"
+            role="radiogroup"
+            aria-label="What to recommend"
+          >
+            {MEDIA_MODES.map(({ value, label }) => (
+              <button
+                key={value}
+                onClick={() => setMediaMode(value)}
+                className={`px-3 py-1 rounded-full transition-colors touch-manipulation ${
+                  mediaMode === value ? 'bg-white/15 text-white' : 'text-gray-400 hover:text-white'
+                }`}
+                role="radio"
+                aria-checked={mediaMode === value}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <RecommendationFilters filters={filters} onChange={setFilters} />
+
+        <button
+          onClick={handleGenerate}
+          disabled={isGenerating || selectedIds.length === 0}
+          className="flex items-center justify-center gap-2 bg-white text-black font-medium px-4 py-3 rounded-xl hover:bg-gray-200 transition-colors disabled:opacity-50 disabled:hover:bg-white"
+        >
+          {isGenerating && <LuLoader className="w-4 h-4 animate-spin" />}
+          {isGenerating ? 'Finding something for everyone...' : 'Find something to watch'}
+        </button>
+      </div>
+
+      <div className="max-w-7xl mx-auto grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-3 sm:gap-6 mt-8">
+        {isGenerating && [...Array(5)].map((_, i) => (
+          <div
+            key={i}
+            className="bg-white/5 backdrop-blur-xl rounded-xl overflow-hidden border border-white/10 animate-pulse"
+          >
+            <div className="aspect-[2/3] bg-white/10" />
+            <div className="p-4">
+              <div className="h-6 bg-white/10 rounded mb-2" />
+              <div className="h-4 bg-white/10 rounded w-2/3" />
+            </div>
+          </div>
+        ))}
+
+        {picks.map((pick, index) => (
+          <motion.div
+            key={`${pick.media_type}-${pick.id}`}
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: index * 0.05 }}
+            onClick={() => setSelectedPick(pick)}
+            className="bg-white/5 backdrop-blur-xl rounded-xl overflow-hidden border border-white/10 cursor-pointer touch-manipulation"
+          >
+            <div className="relative aspect-[2/3]">
+              {pick.poster_path ? (
+                <Image
+                  src={`https://image.tmdb.org/t/p/w342${pick.poster_path}`}
+                  alt={pick.title}
+                  fill
+                  className="object-cover"
+                  sizes="(max-width: 640px) 150px, (max-width: 1024px) 200px, 250px"
+                />
+              ) : (
+                <div className="absolute inset-0 bg-gray-800 flex items-center justify-center">
+                  <span className="text-gray-400 text-sm text-center px-4">No poster available</span>
+                </div>
+              )}
+              {pick.groupScore !== null && (
+                <div
+                  className="absolute top-2 left-2 bg-black/60 text-white border border-white/10 backdrop-blur-sm text-xs font-medium px-2 py-1 rounded-lg"
+                  title="Predicted fit for the least enthusiastic person in the group"
+                >
+                  Group fit {pick.groupScore}%
+                </div>
+              )}
+            </div>
+            <div className="p-3 sm:p-4">
+              <h3 className="text-base sm:text-lg font-semibold line-clamp-2">{pick.title}</h3>
+              {pick.reason && (
+                <p className="mt-1.5 text-xs sm:text-sm text-gray-400 line-clamp-3" title={pick.reason}>
+                  {pick.reason}
+                </p>
+              )}
+              <div className="mt-3 flex flex-col gap-1.5">
+                {pick.fits.map(fit => (
+                  <div key={fit.userId} className="flex items-center gap-2 text-xs">
+                    <Image
+                      src={fit.photoURL || '/default-avatar.png'}
+                      alt={fit.displayName || ''}
+                      title={fit.displayName || undefined}
+                      width={18}
+                      height={18}
+                      className="rounded-full shrink-0"
+                    />
+                    {fit.score === null ? (
+                      <span className="text-gray-500">Not enough history</span>
+                    ) : (
+                      <>
+                        <div className="flex-1 h-1.5 bg-white/10 rounded-full overflow-hidden">
+                          <div className={`h-full ${fitColor(fit.score)}`} style={{ width: `${fit.score}%` }} />
+                        </div>
+                        <span className="text-gray-300 w-8 text-right">{fit.score}%</span>
+                      </>
+                    )}
+                  </div>
+                ))}
+              </div>
+              <div className="mt-3 sm:mt-4" onClick={(e) => e.stopPropagation()}>
+                <WatchlistButton media={pick} position="bottom" />
+              </div>
+            </div>
+          </motion.div>
+        ))}
+      </div>
+
+      <MediaDetailsModal
+        mediaId={selectedPick?.id ?? null}
+        mediaType={selectedPick?.media_type ?? 'movie'}
+        onClose={() => setSelectedPick(null)}
+        explanation={selectedPick || undefined}
+      />
+    </div>
+  )
+}
+
+export default withAuth(MovieNight)
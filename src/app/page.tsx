@@ -1,13 +1,19 @@
 "use client";
 
-import { useState } from "react";
-import { LuArrowBigRightDash, LuPlus, LuX, LuInfo } from "react-icons/lu";
+import { useEffect, useRef, useState } from "react";
+import { LuArrowBigRightDash, LuPlus, LuX, LuInfo, LuSparkles, LuSquare, LuMonitorPlay, LuShare2, LuCheck } from "react-icons/lu";
+import Link from "next/link";
 import MediaSearchModal from "@/components/MediaSearchModal";
 import MediaRecommendations from "@/components/MediaRecommendations";
-import { generateMediaRecommendations } from "@/services/gemmaService";
+import RecommendationFilters from "@/components/RecommendationFilters";
+import { streamRecommendations } from "@/lib/recommendations";
+import { fetchSession, getSessionUrl } from "@/lib/recommendationSessions";
 import Image from "next/image";
 import MouseGlow from "@/components/MouseGlow";
 import MediaDetailsModal from "@/components/MediaDetailsModal";
+import { RecommendationMediaType, RecommendedMedia } from "@/types/recommendation";
+import { useAuth } from "@/contexts/AuthContext";
+import type { RecommendationFilters as Filters } from "@/lib/validationSchemas";
 
 interface Media {
   id: number;
@@ -16,12 +22,20 @@ interface Media {
   media_type: 'movie' | 'tv';
 }
 
+const MEDIA_MODES: { value: RecommendationMediaType; label: string }[] = [
+  { value: "movie", label: "Movies" },
+  { value: "tv", label: "TV" },
+  { value: "mixed", label: "Both" },
+];
+
 export default function Home() {
+  const { user } = useAuth();
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [selectedMedia, setSelectedMedia] = useState<Media[]>([]);
   const [description, setDescription] = useState("");
-  const [recommendations, setRecommendations] = useState<Media[]>([]);
+  const [recommendations, setRecommendations] = useState<RecommendedMedia[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [backdropMediaId, setBackdropMediaId] = useState<number | null>(null);
   const [backdropMediaType, setBackdropMediaType] = useState<'movie' | 'tv'>('movie');
@@ -30,6 +44,47 @@ export default function Home() {
   const [selectedMediaType] = useState<'movie' | 'tv'>('movie');
   const [showMediaSearch, setShowMediaSearch] = useState(false);
   const [showMaxMediaError, setShowMaxMediaError] = useState(false);
+  const [tasteMode, setTasteMode] = useState(false);
+  const [mediaMode, setMediaMode] = useState<RecommendationMediaType>("movie");
+  const [filters, setFilters] = useState<Filters>({});
+  const [onlyMyServices, setOnlyMyServices] = useState(false);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [copiedLink, setCopiedLink] = useState(false);
+  const streamControllerRef = useRef<AbortController | null>(null);
+
+  // Stop any stream still running when leaving the page
+  useEffect(() => () => streamControllerRef.current?.abort(), []);
+
+  // The last run is kept in the URL, so restore it after a refresh
+  useEffect(() => {
+    const savedSessionId = new URLSearchParams(window.location.search).get("session");
+    if (!savedSessionId) return;
+
+    fetchSession(savedSessionId)
+      .then((session) => {
+        setDescription(session.description);
+        setSelectedMedia(session.selectedMedia);
+        setMediaMode(session.mediaType);
+        setFilters(session.filters || {});
+        setRecommendations(session.results);
+        setSessionId(session.id);
+      })
+      .catch((error) => {
+        console.error("Error restoring recommendation session:", error);
+        window.history.replaceState(null, "", "/");
+      });
+  }, []);
+
+  const handleCopySessionLink = async () => {
+    if (!sessionId) return;
+    try {
+      await navigator.clipboard.writeText(getSessionUrl(sessionId));
+      setCopiedLink(true);
+      setTimeout(() => setCopiedLink(false), 2000);
+    } catch (error) {
+      console.error("Error copying session link:", error);
+    }
+  };
 
   const handleRemoveMedia = (mediaId: number) => {
     setSelectedMedia((prev) => prev.filter((media) => media.id !== mediaId));
@@ -41,100 +96,77 @@ export default function Home() {
       return;
     }
 
+    // A new request replaces whatever is still streaming in
+    streamControllerRef.current?.abort();
+    const controller = new AbortController();
+    streamControllerRef.current = controller;
+
     setIsLoading(true);
+    setIsStreaming(true);
     setError(null);
+    setRecommendations([]);
+    setSessionId(null);
+    window.history.replaceState(null, "", "/");
     try {
-      // Use the media type of the last selected item, or default to 'movie'
-      const preferredMediaType = selectedMedia.length > 0 
-        ? selectedMedia[selectedMedia.length - 1].media_type 
-        : 'movie';
-
-      const mediaTitles = await generateMediaRecommendations(
-        description,
-        selectedMedia,
-        15,
-        preferredMediaType
-      );
-
-      if (!mediaTitles || mediaTitles.length === 0) {
-        throw new Error("No recommendations received");
-      }
-
-      const mediaPromises = mediaTitles.map(async (title: string) => {
-        try {
-          // Search both movies and TV shows
-          const [movieResponse, tvResponse] = await Promise.all([
-            fetch(
-              `https://api.themoviedb.org/3/search/movie?api_key=${
-                process.env.NEXT_PUBLIC_TMDB_API_KEY
-              }&query=${encodeURIComponent(title)}`
-            ),
-            fetch(
-              `https://api.themoviedb.org/3/search/tv?api_key=${
-                process.env.NEXT_PUBLIC_TMDB_API_KEY
-              }&query=${encodeURIComponent(title)}`
-            )
-          ]);
-
-          if (!movieResponse.ok && !tvResponse.ok) {
-            throw new Error(
-              `TMDB API requests failed with status ${movieResponse.status} and ${tvResponse.status}`
-            );
-          }
-
-          const [movieData, tvData] = await Promise.all([
-            movieResponse.json(),
-            tvResponse.json()
-          ]);
-
-          // Get the best match from either movies or TV shows
-          const movieResult = movieData.results[0];
-          const tvResult = tvData.results[0];
-
-          if (!movieResult && !tvResult) return null;
-
-          // If we have a preferred media type, prioritize that type's result
-          if (preferredMediaType === 'movie' && movieResult) {
-            return { ...movieResult, media_type: 'movie' };
-          }
-          if (preferredMediaType === 'tv' && tvResult) {
-            return { ...tvResult, media_type: 'tv', title: tvResult.name };
-          }
-
-          // Otherwise, choose the result with higher popularity
-          if (!movieResult) return { ...tvResult, media_type: 'tv', title: tvResult.name };
-          if (!tvResult) return { ...movieResult, media_type: 'movie' };
-
-          return movieResult.popularity > tvResult.popularity
-            ? { ...movieResult, media_type: 'movie' }
-            : { ...tvResult, media_type: 'tv', title: tvResult.name };
-
-        } catch (error) {
-          console.error(`Error searching for media "${title}":`, error);
-          return null;
+      // Results arrive in the order they resolve, keep them in the model's ranking.
+      // Keyed by type as well, since movie and TV IDs overlap in mixed mode
+      const ranks = new Map<string, number>();
+      const rankOf = (media: RecommendedMedia) => ranks.get(`${media.media_type}:${media.id}`) ?? 0;
+      let received = 0;
+
+      await streamRecommendations(
+        {
+          description,
+          selectedMedia,
+          mediaType: mediaMode,
+          count: 15,
+          useTaste: tasteMode && !!user,
+          onlyMyServices: onlyMyServices && !!user,
+          filters,
+        },
+        {
+          signal: controller.signal,
+          onRecommendation: ({ rank, media }) => {
+            received++;
+            ranks.set(`${media.media_type}:${media.id}`, rank);
+            setRecommendations((prev) => [...prev, media].sort((a, b) => rankOf(a) - rankOf(b)));
+            setIsLoading(false);
+          },
+          onSession: (id) => {
+            setSessionId(id);
+            window.history.replaceState(null, "", `/?session=${id}`);
+          },
         }
-      });
-
-      const mediaResults = await Promise.all(mediaPromises);
-      const validMedia = mediaResults.filter(
-        (media): media is Media => media !== null
       );
 
-      if (validMedia.length === 0) {
+      if (received === 0) {
         throw new Error("Could not find any matching movies or TV shows");
       }
 
-      setRecommendations(validMedia);
       setError(null);
     } catch (error) {
+      // Cancelled by the user or superseded by a newer request
+      if (controller.signal.aborted) return;
+
       console.error("Error generating recommendations:", error);
       setError(error instanceof Error ? error.message : "Failed to generate recommendations");
       setRecommendations([]);
     } finally {
-      setIsLoading(false);
+      if (streamControllerRef.current === controller) {
+        streamControllerRef.current = null;
+        setIsLoading(false);
+        setIsStreaming(false);
+      }
     }
   };
 
+  const handleStopRecommendations = () => {
+    streamControllerRef.current?.abort();
+    streamControllerRef.current = null;
+    setIsLoading(false);
+    setIsStreaming(false);
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -192,14 +224,80 @@ export default function Home() {
                 placeholder="Describe what kind of movie or TV show you're looking for..."
                 className="flex-1 bg-black/50 backdrop-blur-sm text-white placeholder:text-gray-500 p-3 sm:p-4 rounded-xl sm:rounded-2xl border border-gray-800/50 min-h-[60px] resize-none hide-scrollbar shine-border text-sm sm:text-base"
               />
-              <button
-                onClick={handleGenerateRecommendations}
-                className="bg-black/50 backdrop-blur-sm hover:bg-white/10 active:bg-white/20 transition-colors p-3 sm:p-4 rounded-xl sm:rounded-2xl flex items-center justify-center border border-gray-800/50 touch-manipulation"
-                aria-label="Generate recommendations"
+              {isStreaming ? (
+                <button
+                  onClick={handleStopRecommendations}
+                  className="bg-black/50 backdrop-blur-sm hover:bg-white/10 active:bg-white/20 transition-colors p-3 sm:p-4 rounded-xl sm:rounded-2xl flex items-center justify-center border border-gray-800/50 touch-manipulation"
+                  aria-label="Stop generating recommendations"
+                >
+                  <LuSquare className="w-5 h-5 sm:w-6 sm:h-6" />
+                </button>
+              ) : (
+                <button
+                  onClick={handleGenerateRecommendations}
+                  className="bg-black/50 backdrop-blur-sm hover:bg-white/10 active:bg-white/20 transition-colors p-3 sm:p-4 rounded-xl sm:rounded-2xl flex items-center justify-center border border-gray-800/50 touch-manipulation"
+                  aria-label="Generate recommendations"
+                >
+                  <LuArrowBigRightDash className="w-5 h-5 sm:w-6 sm:h-6" />
+                </button>
+              )}
+            </div>
+
+            <div className="flex flex-wrap items-center justify-center gap-2">
+              <div
+                className="flex bg-black/50 backdrop-blur-sm border border-gray-800/50 rounded-full p-1 text-xs sm:text-sm"
+                role="radiogroup"
+                aria-label="What to recommend"
               >
-                <LuArrowBigRightDash className="w-5 h-5 sm:w-6 sm:h-6" />
-              </button>
+                {MEDIA_MODES.map(({ value, label }) => (
+                  <button
+                    key={value}
+                    onClick={() => setMediaMode(value)}
+                    className={`px-3 py-1 rounded-full transition-colors touch-manipulation ${
+                      mediaMode === value ? "bg-white/15 text-white" : "text-gray-400 hover:text-white"
+                    }`}
+                    role="radio"
+                    aria-checked={mediaMode === value}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+
+              {user && (
+                <button
+                  onClick={() => setTasteMode(!tasteMode)}
+                  className={`flex items-center gap-2 px-3 py-1.5 rounded-full text-xs sm:text-sm border transition-colors touch-manipulation ${
+                    tasteMode
+                      ? 'bg-purple-500/20 text-purple-300 border-purple-500/40'
+                      : 'bg-black/50 backdrop-blur-sm text-gray-400 border-gray-800/50 hover:text-white'
+                  }`}
+                  aria-pressed={tasteMode}
+                  title="Personalize using your watchlist ratings and skip titles you've already logged"
+                >
+                  <LuSparkles className="w-4 h-4" />
+                  Use my taste
+                </button>
+              )}
+
+              {user && (
+                <button
+                  onClick={() => setOnlyMyServices(!onlyMyServices)}
+                  className={`flex items-center gap-2 px-3 py-1.5 rounded-full text-xs sm:text-sm border transition-colors touch-manipulation ${
+                    onlyMyServices
+                      ? 'bg-green-500/20 text-green-300 border-green-500/40'
+                      : 'bg-black/50 backdrop-blur-sm text-gray-400 border-gray-800/50 hover:text-white'
+                  }`}
+                  aria-pressed={onlyMyServices}
+                  title="Only recommend titles streaming on the services saved in your profile"
+                >
+                  <LuMonitorPlay className="w-4 h-4" />
+                  Only on my services
+                </button>
+              )}
             </div>
+
+            <RecommendationFilters filters={filters} onChange={setFilters} />
           </div>
         </div>
       </div>
@@ -238,11 +336,38 @@ export default function Home() {
           </div>
         )}
 
+        {sessionId && !isStreaming && recommendations.length > 0 && (
+          <div className="max-w-xl mx-auto mt-4 flex items-center justify-center gap-3 text-xs sm:text-sm text-gray-400">
+            <button
+              onClick={handleCopySessionLink}
+              className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-black/50 backdrop-blur-sm border border-gray-800/50 hover:text-white transition-colors touch-manipulation"
+            >
+              {copiedLink ? <LuCheck className="w-4 h-4" /> : <LuShare2 className="w-4 h-4" />}
+              {copiedLink ? "Link copied" : "Copy share link"}
+            </button>
+            <Link href={`/sessions/${sessionId}`} className="hover:text-white transition-colors">
+              Open saved session
+            </Link>
+            <Link href={`/assistant?session=${sessionId}`} className="hover:text-white transition-colors">
+              Refine in chat
+            </Link>
+          </div>
+        )}
+
         <MediaRecommendations
           recommendations={recommendations}
           isLoading={isLoading}
+          isStreaming={isStreaming}
           selectedMedia={selectedMedia}
           onClearSelection={() => setSelectedMedia([])}
+          description={description}
+          tasteMode={tasteMode && !!user}
+          onlyMyServices={onlyMyServices && !!user}
+          filters={filters}
+          onReplace={(replaced, replacement) =>
+            setRecommendations((prev) => prev.map((media) => media === replaced ? replacement : media))
+          }
+          onHide={(hidden) => setRecommendations((prev) => prev.filter((media) => media !== hidden))}
         />
       </div>
 
@@ -258,7 +383,7 @@ export default function Home() {
         isOpen={isModalOpen}
         onClose={() => setIsModalOpen(false)}
         onSelectMedia={handleSelectMediaFromSearch}
-        initialMediaType={selectedMedia.length > 0 ? selectedMedia[selectedMedia.length - 1].media_type : 'movie'}
+        initialMediaType={mediaMode === "tv" ? "tv" : "movie"}
       />
 
       {showMediaDetails && backdropMediaId && (
@@ -279,7 +404,7 @@ export default function Home() {
         isOpen={showMediaSearch}
         onClose={() => setShowMediaSearch(false)}
         onSelectMedia={handleSelectMediaFromSearch}
-        initialMediaType={selectedMedia.length > 0 ? selectedMedia[selectedMedia.length - 1].media_type : 'movie'}
+        initialMediaType={mediaMode === "tv" ? "tv" : "movie"}
       />
     </div>
   );
@@ -0,0 +1,283 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { useParams } from 'next/navigation'
+import Link from 'next/link'
+import Image from 'next/image'
+import { motion } from 'framer-motion'
+import clsx from 'clsx'
+import { LuStar } from 'react-icons/lu'
+import MediaDetailsModal from '@/components/MediaDetailsModal'
+import { useAuth } from '@/contexts/AuthContext'
+import { useLocale } from '@/contexts/LocaleContext'
+import { WatchStatus } from '@/lib/prismaTypes'
+import { fetchPersonDetails } from '@/lib/person'
+import { MediaType } from '@/types/media'
+import { PersonCredit, PersonDetails } from '@/types/person'
+
+const watchStatusLabels: Record<WatchStatus, string> = {
+  PLAN_TO_WATCH: 'Plan to Watch',
+  WATCHING: 'Watching',
+  WATCHED: 'Watched',
+  ON_HOLD: 'On Hold',
+  DROPPED: 'Dropped',
+}
+
+const watchStatusColors: Record<WatchStatus, string> = {
+  PLAN_TO_WATCH: 'bg-blue-500/80',
+  WATCHING: 'bg-yellow-500/80',
+  WATCHED: 'bg-green-500/80',
+  ON_HOLD: 'bg-orange-500/80',
+  DROPPED: 'bg-red-500/80',
+}
+
+// Long biographies are cut to this many characters until expanded
+const BIOGRAPHY_PREVIEW_LENGTH = 600
+
+type CreditTab = 'cast' | 'crew'
+
+export default function PersonPage() {
+  const { personId } = useParams()
+  const { user } = useAuth()
+  const { locale } = useLocale()
+  const [person, setPerson] = useState<PersonDetails | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [tab, setTab] = useState<CreditTab>('cast')
+  const [showFullBiography, setShowFullBiography] = useState(false)
+  const [selectedMedia, setSelectedMedia] = useState<{ id: number; type: MediaType } | null>(null)
+
+  const loadPerson = useCallback((signal?: AbortSignal) => {
+    return fetchPersonDetails(Number(personId), { signal, language: locale })
+      .then(person => {
+        setPerson(person)
+        setError(null)
+        return person
+      })
+      .catch(error => {
+        if (error instanceof Error && error.name === 'AbortError') return null
+        console.error('Error loading person:', error)
+        setError(error instanceof Error ? error.message : 'Could not load this person')
+        return null
+      })
+  }, [personId, locale])
+
+  // Reloaded when the viewer signs in or out, since the watchlist overlay depends on it
+  useEffect(() => {
+    const controller = new AbortController()
+    loadPerson(controller.signal).then(person => {
+      // Open on whatever the person is best known for
+      if (person) setTab(person.known_for_department === 'Acting' || person.crew.length === 0 ? 'cast' : 'crew')
+    })
+    return () => controller.abort()
+  }, [loadPerson, user])
+
+  const handleCloseModal = () => {
+    setSelectedMedia(null)
+    // The viewer may have added or rated the title in the modal
+    if (user) loadPerson()
+  }
+
+  if (error) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4 px-4 text-center">
+        <p className="text-gray-400">{error}</p>
+        <Link href="/" className="text-sm text-white hover:underline">
+          Back to home
+        </Link>
+      </div>
+    )
+  }
+
+  if (!person) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="w-8 h-8 border-4 border-white border-t-transparent rounded-full animate-spin" />
+      </div>
+    )
+  }
+
+  const credits = tab === 'cast' ? person.cast : person.crew
+  const biography = showFullBiography || person.biography.length <= BIOGRAPHY_PREVIEW_LENGTH
+    ? person.biography
+    : `${person.biography.slice(0, BIOGRAPHY_PREVIEW_LENGTH).trimEnd()}…`
+  const progressPercent = person.progress?.total
+    ? Math.round((person.progress.seen / person.progress.total) * 100)
+    : 0
+
+  return (
+    <div className="min-h-screen py-16 px-4 sm:px-8">
+      <div className="max-w-7xl mx-auto flex flex-col gap-10">
+        {/* Profile */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="flex flex-col sm:flex-row gap-6 sm:gap-8"
+        >
+          <div className="relative w-40 sm:w-56 aspect-[2/3] flex-shrink-0 mx-auto sm:mx-0 rounded-2xl overflow-hidden bg-white/10">
+            {person.profile_path ? (
+              <Image
+                src={`https://image.tmdb.org/t/p/w500${person.profile_path}`}
+                alt={person.name}
+                fill
+                sizes="(max-width: 640px) 160px, 224px"
+                className="object-cover"
+                priority
+              />
+            ) : (
+              <div className="w-full h-full flex items-center justify-center text-5xl font-bold bg-gradient-to-br from-purple-500/20 to-blue-500/20 text-white/60">
+                {person.name.charAt(0)}
+              </div>
+            )}
+          </div>
+
+          <div className="flex-1 flex flex-col gap-4">
+            <div>
+              <h1 className="text-3xl sm:text-4xl font-bold">{person.name}</h1>
+              <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-gray-400 mt-2">
+                {person.known_for_department && <span>Known for {person.known_for_department}</span>}
+                {person.birthday && (
+                  <span>
+                    Born {new Date(person.birthday).toLocaleDateString(locale, { year: 'numeric', month: 'long', day: 'numeric' })}
+                    {person.place_of_birth && ` in ${person.place_of_birth}`}
+                  </span>
+                )}
+                {person.deathday && (
+                  <span>
+                    Died {new Date(person.deathday).toLocaleDateString(locale, { year: 'numeric', month: 'long', day: 'numeric' })}
+                  </span>
+                )}
+              </div>
+            </div>
+
+            {/* Progress through their credits */}
+            {person.progress && person.progress.total > 0 && (
+              <div className="bg-white/5 backdrop-blur-lg rounded-xl p-4 border border-white/10 flex flex-col gap-2 max-w-md">
+                <div className="flex items-baseline justify-between gap-4">
+                  <span className="font-medium">
+                    You&apos;ve seen {person.progress.seen} of {person.progress.total}
+                  </span>
+                  <span className="text-sm text-gray-400">{progressPercent}%</span>
+                </div>
+                <div className="h-2 rounded-full bg-white/10 overflow-hidden">
+                  <motion.div
+                    initial={{ width: 0 }}
+                    animate={{ width: `${progressPercent}%` }}
+                    transition={{ duration: 0.6 }}
+                    className="h-full bg-gradient-to-r from-purple-500 to-blue-500"
+                  />
+                </div>
+              </div>
+            )}
+
+            {biography && (
+              <div className="text-sm sm:text-base text-gray-300 leading-relaxed whitespace-pre-line">
+                {biography}
+                {person.biography.length > BIOGRAPHY_PREVIEW_LENGTH && (
+                  <button
+                    onClick={() => setShowFullBiography(!showFullBiography)}
+                    className="block mt-2 text-sm text-gray-400 hover:text-white transition-colors"
+                  >
+                    {showFullBiography ? 'Show less' : 'Read more'}
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+        </motion.div>
+
+        {/* Credits */}
+        <div className="flex flex-col gap-6">
+          <div className="flex gap-2">
+            {(['cast', 'crew'] as const)
+              .filter(creditTab => person[creditTab].length > 0)
+              .map(creditTab => (
+                <button
+                  key={creditTab}
+                  onClick={() => setTab(creditTab)}
+                  className={clsx(
+                    'px-4 py-2 rounded-lg text-sm transition-colors',
+                    tab === creditTab ? 'bg-white/20 text-white' : 'bg-white/5 text-gray-400 hover:bg-white/10'
+                  )}
+                >
+                  {creditTab === 'cast' ? 'Acting' : 'Behind the camera'} ({person[creditTab].length})
+                </button>
+              ))}
+          </div>
+
+          {credits.length === 0 ? (
+            <p className="text-gray-400">No credits yet</p>
+          ) : (
+            <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-6 gap-4">
+              {credits.map(credit => (
+                <CreditCard
+                  key={`${credit.media_type}:${credit.id}`}
+                  credit={credit}
+                  onSelect={() => setSelectedMedia({ id: credit.id, type: credit.media_type })}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {selectedMedia && (
+        <MediaDetailsModal
+          mediaId={selectedMedia.id}
+          mediaType={selectedMedia.type}
+          onClose={handleCloseModal}
+        />
+      )}
+    </div>
+  )
+}
+
+function CreditCard({ credit, onSelect }: { credit: PersonCredit; onSelect: () => void }) {
+  const year = credit.date ? new Date(credit.date).getFullYear() : null
+
+  return (
+    <button onClick={onSelect} className="group flex flex-col gap-2 text-left">
+      <div
+        className={clsx(
+          'relative w-full aspect-[2/3] rounded-xl overflow-hidden bg-white/5 border transition-all group-hover:scale-[1.02]',
+          credit.watchlist?.status === WatchStatus.WATCHED ? 'border-green-500/40' : 'border-white/10'
+        )}
+      >
+        {credit.poster_path ? (
+          <Image
+            src={`https://image.tmdb.org/t/p/w342${credit.poster_path}`}
+            alt={credit.title}
+            fill
+            sizes="(max-width: 640px) 50vw, (max-width: 1024px) 25vw, 16vw"
+            className="object-cover"
+          />
+        ) : (
+          <div className="absolute inset-0 flex items-center justify-center p-2 text-center text-sm text-gray-400">
+            {credit.title}
+          </div>
+        )}
+        {credit.watchlist && (
+          <div className="absolute top-2 left-2 right-2 flex items-center justify-between gap-1">
+            <span className={clsx('text-xs text-white px-2 py-0.5 rounded-md', watchStatusColors[credit.watchlist.status])}>
+              {watchStatusLabels[credit.watchlist.status]}
+            </span>
+            {credit.watchlist.rating !== null && (
+              <span className="flex items-center gap-1 text-xs text-yellow-400 bg-black/70 px-1.5 py-0.5 rounded-md">
+                <LuStar className="w-3 h-3" />
+                {credit.watchlist.rating}
+              </span>
+            )}
+          </div>
+        )}
+      </div>
+      <div className="min-w-0">
+        <div className="text-sm font-medium truncate">{credit.title}</div>
+        <div className="text-xs text-gray-400 truncate">
+          {[year, credit.media_type === 'tv' ? 'TV' : null].filter(Boolean).join(' · ')}
+        </div>
+        {credit.roles.length > 0 && (
+          <div className="text-xs text-gray-500 truncate">{credit.roles.join(', ')}</div>
+        )}
+      </div>
+    </button>
+  )
+}
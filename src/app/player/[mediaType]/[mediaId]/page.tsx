@@ -6,7 +6,8 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { LuArrowLeft } from 'react-icons/lu';
 import { MovieDetails, TVShowDetails } from '@/types/media';
 import { useWatchlist } from '@/contexts/WatchlistContext';
-import { fetchMediaDetails } from '@/lib/mediaUtils';
+import { useLocale } from '@/contexts/LocaleContext';
+import { fetchMediaDetails } from '@/lib/mediaDetails';
 import { WatchStatus } from '@/lib/prismaTypes';
 
 // Define a type for local history items
@@ -57,6 +58,7 @@ export default function PlayerPage() {
   } | null>(null);
   
   const { getWatchlistEntry, updateWatchlistEntry, addToWatchlist } = useWatchlist();
+  const { locale } = useLocale();
   const watchlistEntry = mediaId ? getWatchlistEntry(parseInt(mediaId)) : undefined;
 
   // Custom parameters from URL
@@ -218,26 +220,14 @@ export default function PlayerPage() {
       setIsLoading(true);
       
       try {
-        // Use the shared utility function to fetch media details
-        const mediaData = await fetchMediaDetails(mediaType, mediaId, {
-          signal: controller.signal
+        // Details come back with title and media_type set for movies and shows alike
+        const mediaData = await fetchMediaDetails(mediaType, Number(mediaId), {
+          signal: controller.signal,
+          language: locale
         });
 
         if (isMounted) {
-          // Create a properly typed object based on the mediaType
-          if (mediaType === 'movie') {
-            setMedia({
-              ...mediaData,
-              title: mediaData.title,
-              media_type: 'movie'
-            } as MovieDetails);
-          } else {
-            setMedia({
-              ...mediaData,
-              title: (mediaData as TVShowDetails).name,
-              media_type: 'tv'
-            } as TVShowDetails);
-          }
+          setMedia(mediaData);
           setIsLoading(false);
         }
       } catch (error) {
@@ -256,7 +246,7 @@ export default function PlayerPage() {
       isMounted = false;
       controller.abort();
     };
-  }, [mediaId, mediaType]);
+  }, [mediaId, mediaType, locale]);
   
   // Track history locally without requiring authentication
   useEffect(() => {
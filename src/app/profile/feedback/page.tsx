@@ -0,0 +1,203 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import Image from 'next/image'
+import { motion, AnimatePresence } from 'framer-motion'
+import { LuThumbsUp, LuThumbsDown, LuEyeOff, LuX } from 'react-icons/lu'
+import { useAuth } from '@/contexts/AuthContext'
+import { FeedbackType } from '@/lib/prismaTypes'
+import { clearFeedback, fetchFeedback, removeFeedback } from '@/lib/feedback'
+import { RecommendationFeedbackEntry } from '@/types/recommendation'
+import MediaDetailsModal from '@/components/MediaDetailsModal'
+
+const sections = [
+  {
+    type: FeedbackType.LIKE,
+    label: 'Liked recommendations',
+    description: 'Used as examples of what to recommend more of',
+    icon: LuThumbsUp,
+  },
+  {
+    type: FeedbackType.DISLIKE,
+    label: 'Disliked recommendations',
+    description: 'Used as examples of what to avoid, and never recommended again',
+    icon: LuThumbsDown,
+  },
+  {
+    type: FeedbackType.NOT_INTERESTED,
+    label: 'Not interested',
+    description: 'Never recommended again',
+    icon: LuEyeOff,
+  },
+]
+
+export default function FeedbackPage() {
+  const { user, loading } = useAuth()
+  const router = useRouter()
+  const [feedback, setFeedback] = useState<RecommendationFeedbackEntry[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [selectedMediaId, setSelectedMediaId] = useState<number | null>(null)
+  const [selectedMediaType, setSelectedMediaType] = useState<'movie' | 'tv'>('movie')
+
+  useEffect(() => {
+    if (!loading && !user) {
+      router.push('/')
+    }
+  }, [user, loading, router])
+
+  useEffect(() => {
+    if (!user) return
+
+    fetchFeedback()
+      .then(setFeedback)
+      .catch(error => {
+        console.error('Error loading feedback:', error)
+        setError('Could not load your feedback')
+      })
+      .finally(() => setIsLoading(false))
+  }, [user])
+
+  const handleRemove = async (entry: RecommendationFeedbackEntry) => {
+    const previous = feedback
+    setFeedback(prev => prev.filter(item => item.id !== entry.id))
+    try {
+      await removeFeedback(entry.id)
+    } catch (error) {
+      console.error('Error removing feedback:', error)
+      setFeedback(previous)
+    }
+  }
+
+  const handleClear = async (type?: FeedbackType) => {
+    const message = type
+      ? `Clear all "${sections.find(section => section.type === type)?.label}"?`
+      : 'Clear all of your recommendation feedback?'
+    if (!window.confirm(message)) return
+
+    const previous = feedback
+    setFeedback(prev => (type ? prev.filter(item => item.type !== type) : []))
+    try {
+      await clearFeedback(type)
+    } catch (error) {
+      console.error('Error clearing feedback:', error)
+      setFeedback(previous)
+    }
+  }
+
+  if (loading || (user && isLoading)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="w-8 h-8 border-4 border-white border-t-transparent rounded-full animate-spin" />
+      </div>
+    )
+  }
+
+  if (!user) return null
+
+  return (
+    <div className="min-h-screen py-16 px-4">
+      <div className="max-w-7xl mx-auto flex flex-col gap-8">
+        <div className="flex items-center justify-between gap-4">
+          <h1 className="text-3xl font-bold">Recommendation Feedback</h1>
+          {feedback.length > 0 && (
+            <button
+              onClick={() => handleClear()}
+              className="px-4 py-2 rounded-lg text-sm text-red-400 bg-white/10 hover:bg-red-500/10 transition-colors"
+            >
+              Clear all
+            </button>
+          )}
+        </div>
+
+        {error && (
+          <div className="bg-red-500/10 text-red-400 px-4 py-3 rounded-xl text-sm">{error}</div>
+        )}
+
+        {sections.map(({ type, label, description, icon: Icon }) => {
+          const entries = feedback.filter(entry => entry.type === type)
+
+          return (
+            <section key={type} className="rounded-2xl bg-white/5 backdrop-blur-lg border border-white/10 p-6">
+              <div className="flex items-start justify-between gap-4 mb-4">
+                <div>
+                  <h2 className="text-xl font-semibold flex items-center gap-2">
+                    <Icon className="w-5 h-5" />
+                    {label}
+                    <span className="text-sm text-gray-400 font-normal">({entries.length})</span>
+                  </h2>
+                  <p className="text-sm text-gray-400 mt-1">{description}</p>
+                </div>
+                {entries.length > 0 && (
+                  <button
+                    onClick={() => handleClear(type)}
+                    className="text-sm text-red-400 hover:text-red-300 transition-colors whitespace-nowrap"
+                  >
+                    Clear
+                  </button>
+                )}
+              </div>
+
+              {entries.length === 0 ? (
+                <p className="text-sm text-gray-500">Nothing here yet</p>
+              ) : (
+                <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-6 lg:grid-cols-8 gap-3">
+                  <AnimatePresence>
+                    {entries.map(entry => (
+                      <motion.div
+                        key={entry.id}
+                        layout
+                        initial={{ opacity: 0, scale: 0.9 }}
+                        animate={{ opacity: 1, scale: 1 }}
+                        exit={{ opacity: 0, scale: 0.9 }}
+                        className="relative group"
+                      >
+                        <button
+                          onClick={() => {
+                            setSelectedMediaId(entry.mediaId)
+                            setSelectedMediaType(entry.mediaType)
+                          }}
+                          className="relative block w-full aspect-[2/3] rounded-lg overflow-hidden bg-gray-800"
+                          title={entry.title}
+                        >
+                          {entry.posterPath ? (
+                            <Image
+                              src={`https://image.tmdb.org/t/p/w185${entry.posterPath}`}
+                              alt={entry.title}
+                              fill
+                              className="object-cover"
+                              sizes="120px"
+                            />
+                          ) : (
+                            <span className="absolute inset-0 flex items-center justify-center text-gray-400 text-xs text-center px-2">
+                              {entry.title}
+                            </span>
+                          )}
+                        </button>
+                        <button
+                          onClick={() => handleRemove(entry)}
+                          className="absolute top-1 right-1 p-1 bg-black/60 hover:bg-black/80 rounded-full opacity-100 sm:opacity-0 group-hover:opacity-100 transition-opacity"
+                          aria-label={`Remove feedback on ${entry.title}`}
+                        >
+                          <LuX className="w-3 h-3" />
+                        </button>
+                        <p className="mt-1 text-xs text-gray-300 truncate">{entry.title}</p>
+                      </motion.div>
+                    ))}
+                  </AnimatePresence>
+                </div>
+              )}
+            </section>
+          )
+        })}
+      </div>
+
+      <MediaDetailsModal
+        mediaId={selectedMediaId}
+        mediaType={selectedMediaType}
+        onClose={() => setSelectedMediaId(null)}
+      />
+    </div>
+  )
+}
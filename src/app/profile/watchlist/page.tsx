@@ -3,11 +3,14 @@
 import { useState, useEffect } from 'react'
 import { useWatchlist } from '@/contexts/WatchlistContext'
 import { WatchStatus } from '@/lib/prismaTypes'
-import { WatchlistEntry } from '@/types/media'
+import { Provider, WatchlistEntry } from '@/types/media'
 import Image from 'next/image'
-import { LuStar, LuPencil, LuTrash2, LuChevronDown } from 'react-icons/lu'
+import { LuStar, LuPencil, LuTrash2, LuChevronDown, LuMonitorPlay } from 'react-icons/lu'
 import { motion, AnimatePresence } from 'framer-motion'
 import MediaDetailsModal from '@/components/MediaDetailsModal'
+import ProviderBadge from '@/components/ProviderBadge'
+import { fetchStreamingAvailability } from '@/lib/streamingServices'
+import { availabilityKey } from '@/lib/utils'
 
 const watchStatusLabels: Record<WatchStatus, string> = {
   PLAN_TO_WATCH: 'Plan to Watch',
@@ -31,6 +34,28 @@ export default function WatchlistPage() {
   const [updatingEntryId, setUpdatingEntryId] = useState<string | null>(null);
   const [updatingStatusId, setUpdatingStatusId] = useState<string | null>(null);
   const [optimisticUpdates, setOptimisticUpdates] = useState<Record<string, Partial<WatchlistEntry>>>({});
+  const [availability, setAvailability] = useState<Record<string, Provider[]>>({});
+  const [hasServices, setHasServices] = useState(false);
+  const [onlyOnMyServices, setOnlyOnMyServices] = useState(false);
+
+  useEffect(() => {
+    if (watchlist.length === 0) return;
+
+    let cancelled = false;
+    fetchStreamingAvailability(watchlist.map(entry => ({ mediaType: entry.mediaType, mediaId: entry.mediaId })))
+      .then(result => {
+        if (cancelled) return;
+        setAvailability(result.availability);
+        setHasServices(result.hasServices);
+      })
+      .catch(error => console.error('Error loading streaming availability:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [watchlist]);
+
+  const getProviders = (entry: WatchlistEntry) => availability[availabilityKey(entry.mediaType, entry.mediaId)] || [];
 
   const handleCardTouch = (movieId: string, event: React.MouseEvent) => {
     if (window.matchMedia('(hover: hover)').matches) return;
@@ -107,7 +132,8 @@ export default function WatchlistPage() {
     .filter(entry => selectedStatus === 'ALL' || entry.status === selectedStatus)
     .filter(entry => 
       !searchQuery || entry.title.toLowerCase().includes(searchQuery.toLowerCase())
-    );
+    )
+    .filter(entry => !onlyOnMyServices || getProviders(entry).length > 0);
 
   const handleSearch = (e: React.ChangeEvent<HTMLInputElement>) => {
     setSearchQuery(e.target.value)
@@ -153,6 +179,21 @@ export default function WatchlistPage() {
                     className="w-full px-4 py-2 bg-black/80 backdrop-blur-xl rounded-lg focus:outline-none focus:ring-2 focus:ring-white/20 text-white placeholder-gray-400 border border-white/10"
                   />
                 </div>
+                {hasServices && (
+                  <button
+                    onClick={() => setOnlyOnMyServices(!onlyOnMyServices)}
+                    className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors whitespace-nowrap ${
+                      onlyOnMyServices
+                        ? 'bg-green-500/20 text-green-300'
+                        : 'bg-white/10 hover:bg-white/20 text-gray-300'
+                    }`}
+                    aria-pressed={onlyOnMyServices}
+                    title="Only show titles streaming on your services"
+                  >
+                    <LuMonitorPlay className="w-4 h-4" />
+                    <span className="hidden sm:inline">On my services</span>
+                  </button>
+                )}
               </div>
               <div className="flex items-center gap-2 overflow-x-auto pb-2 scrollbar-thin scrollbar-track-transparent scrollbar-thumb-white/20 hover:scrollbar-thumb-white/40">
                 <button
@@ -215,6 +256,7 @@ export default function WatchlistPage() {
                       <span className="text-gray-400 text-sm text-center px-4">No poster available</span>
                     </div>
                   )}
+                  <ProviderBadge providers={getProviders(entry)} className="absolute top-2 left-2" />
                   <div className={`absolute inset-0 bg-black/60 flex flex-col justify-end p-4 transition-opacity duration-200 ${
                     touchedMovieId === entry.id ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'
                   }`}>
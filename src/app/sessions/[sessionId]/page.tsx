@@ -0,0 +1,204 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useParams, useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { LuPencil, LuShare2, LuCheck, LuListPlus, LuLoader, LuArrowRight } from 'react-icons/lu'
+import MediaRecommendations from '@/components/MediaRecommendations'
+import { useAuth } from '@/contexts/AuthContext'
+import { useWatchlist } from '@/contexts/WatchlistContext'
+import { WatchStatus } from '@/lib/prismaTypes'
+import { fetchSession, getSessionUrl, renameSession } from '@/lib/recommendationSessions'
+import { Media } from '@/types/media'
+import { RecommendationSession, RecommendedMedia } from '@/types/recommendation'
+
+const mediaTypeLabels = {
+  movie: 'Movies',
+  tv: 'TV',
+  mixed: 'Movies & TV',
+}
+
+export default function SessionPage() {
+  const { sessionId } = useParams()
+  const { user } = useAuth()
+  const { addToWatchlist, isInWatchlist } = useWatchlist()
+  const router = useRouter()
+  const [session, setSession] = useState<RecommendationSession | null>(null)
+  const [recommendations, setRecommendations] = useState<RecommendedMedia[]>([])
+  const [selectedMedia, setSelectedMedia] = useState<Media[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [isEditingName, setIsEditingName] = useState(false)
+  const [name, setName] = useState('')
+  const [copiedLink, setCopiedLink] = useState(false)
+  const [isAddingAll, setIsAddingAll] = useState(false)
+
+  useEffect(() => {
+    fetchSession(sessionId as string)
+      .then(session => {
+        setSession(session)
+        setName(session.name)
+        setRecommendations(session.results)
+        setSelectedMedia(session.selectedMedia)
+      })
+      .catch(error => {
+        console.error('Error loading session:', error)
+        setError(error instanceof Error ? error.message : 'Failed to load session')
+      })
+  }, [sessionId, user])
+
+  const handleRename = async () => {
+    if (!session) return
+    const trimmed = name.trim()
+    setIsEditingName(false)
+    if (!trimmed || trimmed === session.name) {
+      setName(session.name)
+      return
+    }
+
+    try {
+      await renameSession(session.id, trimmed)
+      setSession({ ...session, name: trimmed })
+    } catch (error) {
+      console.error('Error renaming session:', error)
+      setName(session.name)
+    }
+  }
+
+  const handleCopyLink = async () => {
+    if (!session) return
+    try {
+      await navigator.clipboard.writeText(getSessionUrl(session.id))
+      setCopiedLink(true)
+      setTimeout(() => setCopiedLink(false), 2000)
+    } catch (error) {
+      console.error('Error copying session link:', error)
+    }
+  }
+
+  const missingFromWatchlist = recommendations.filter(media => !isInWatchlist(media.id))
+
+  const handleAddAll = async () => {
+    if (!user) {
+      localStorage.setItem('redirectPath', window.location.pathname)
+      router.replace('/auth/error')
+      return
+    }
+
+    setIsAddingAll(true)
+    try {
+      // One at a time, so a failure part-way leaves the rest of the list intact
+      for (const media of missingFromWatchlist) {
+        await addToWatchlist(media, WatchStatus.PLAN_TO_WATCH)
+      }
+    } catch (error) {
+      console.error('Error adding session titles to watchlist:', error)
+    } finally {
+      setIsAddingAll(false)
+    }
+  }
+
+  if (error) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4 px-4 text-center">
+        <p className="text-gray-400">{error}</p>
+        <Link href="/" className="text-sm text-white hover:underline">
+          Get new recommendations
+        </Link>
+      </div>
+    )
+  }
+
+  if (!session) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="w-8 h-8 border-4 border-white border-t-transparent rounded-full animate-spin" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen py-16 px-4 sm:px-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="flex flex-col gap-3">
+          {isEditingName ? (
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onBlur={handleRename}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleRename()
+                if (e.key === 'Escape') {
+                  setName(session.name)
+                  setIsEditingName(false)
+                }
+              }}
+              maxLength={80}
+              autoFocus
+              className="text-2xl sm:text-3xl font-bold bg-transparent border-b border-white/20 focus:outline-none focus:border-white/50"
+            />
+          ) : (
+            <div className="flex items-center gap-2">
+              <h1 className="text-2xl sm:text-3xl font-bold">{session.name}</h1>
+              {session.isOwner && (
+                <button
+                  onClick={() => setIsEditingName(true)}
+                  className="p-1.5 rounded-lg text-gray-400 hover:text-white hover:bg-white/10 transition-colors"
+                  aria-label="Rename session"
+                >
+                  <LuPencil className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          )}
+
+          <p className="text-sm text-gray-400">
+            {mediaTypeLabels[session.mediaType]} · {new Date(session.createdAt).toLocaleDateString()}
+          </p>
+          {session.description && session.description !== session.name && (
+            <p className="text-gray-300">{session.description}</p>
+          )}
+
+          <div className="flex flex-wrap items-center gap-2 mt-2">
+            <button
+              onClick={handleCopyLink}
+              className="flex items-center gap-2 px-3 py-1.5 rounded-full text-sm bg-white/10 hover:bg-white/20 transition-colors"
+            >
+              {copiedLink ? <LuCheck className="w-4 h-4" /> : <LuShare2 className="w-4 h-4" />}
+              {copiedLink ? 'Link copied' : 'Copy share link'}
+            </button>
+            <button
+              onClick={handleAddAll}
+              disabled={isAddingAll || (!!user && missingFromWatchlist.length === 0)}
+              className="flex items-center gap-2 px-3 py-1.5 rounded-full text-sm bg-white/10 hover:bg-white/20 transition-colors disabled:opacity-50 disabled:hover:bg-white/10"
+            >
+              {isAddingAll ? <LuLoader className="w-4 h-4 animate-spin" /> : <LuListPlus className="w-4 h-4" />}
+              {user && missingFromWatchlist.length === 0
+                ? 'All in your watchlist'
+                : `Add ${user ? missingFromWatchlist.length : recommendations.length} to watchlist`}
+            </button>
+            <Link
+              href={`/?session=${session.id}`}
+              className="flex items-center gap-2 px-3 py-1.5 rounded-full text-sm text-gray-400 hover:text-white transition-colors"
+            >
+              Refine this search
+              <LuArrowRight className="w-4 h-4" />
+            </Link>
+          </div>
+        </div>
+
+        <MediaRecommendations
+          recommendations={recommendations}
+          isLoading={false}
+          selectedMedia={selectedMedia}
+          onClearSelection={() => setSelectedMedia([])}
+          description={session.description}
+          filters={session.filters || undefined}
+          onReplace={(replaced, replacement) =>
+            setRecommendations(prev => prev.map(media => media === replaced ? replacement : media))
+          }
+          onHide={(hidden) => setRecommendations(prev => prev.filter(media => media !== hidden))}
+        />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,161 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import Image from 'next/image'
+import { motion, AnimatePresence } from 'framer-motion'
+import { LuPencil, LuTrash2 } from 'react-icons/lu'
+import withAuth from '@/components/withAuth'
+import { deleteSession, fetchSessions, renameSession } from '@/lib/recommendationSessions'
+import { RecommendationSession } from '@/types/recommendation'
+
+const PREVIEW_COUNT = 4
+
+function Sessions() {
+  const [sessions, setSessions] = useState<RecommendationSession[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editName, setEditName] = useState('')
+
+  useEffect(() => {
+    fetchSessions()
+      .then(setSessions)
+      .catch(error => {
+        console.error('Error loading sessions:', error)
+        setError('Could not load your past recommendations')
+      })
+      .finally(() => setIsLoading(false))
+  }, [])
+
+  const handleRename = async (session: RecommendationSession) => {
+    const name = editName.trim()
+    setEditingId(null)
+    if (!name || name === session.name) return
+
+    setSessions(prev => prev.map(item => item.id === session.id ? { ...item, name } : item))
+    try {
+      await renameSession(session.id, name)
+    } catch (error) {
+      console.error('Error renaming session:', error)
+      setSessions(prev => prev.map(item => item.id === session.id ? { ...item, name: session.name } : item))
+    }
+  }
+
+  const handleDelete = async (session: RecommendationSession) => {
+    if (!window.confirm(`Delete "${session.name}"? Shared links to it will stop working.`)) return
+
+    const previous = sessions
+    setSessions(prev => prev.filter(item => item.id !== session.id))
+    try {
+      await deleteSession(session.id)
+    } catch (error) {
+      console.error('Error deleting session:', error)
+      setSessions(previous)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="w-8 h-8 border-4 border-white border-t-transparent rounded-full animate-spin" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen py-16 px-4">
+      <div className="max-w-4xl mx-auto flex flex-col gap-6">
+        <h1 className="text-3xl font-bold">Past Recommendations</h1>
+
+        {error && (
+          <div className="bg-red-500/10 text-red-400 px-4 py-3 rounded-xl text-sm">{error}</div>
+        )}
+
+        {!error && sessions.length === 0 && (
+          <p className="text-gray-400">
+            Nothing here yet. <Link href="/" className="text-white hover:underline">Get some recommendations</Link>
+          </p>
+        )}
+
+        <AnimatePresence>
+          {sessions.map(session => (
+            <motion.div
+              key={session.id}
+              layout
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.95 }}
+              className="rounded-2xl bg-white/5 backdrop-blur-lg border border-white/10 p-4 flex gap-4 items-center"
+            >
+              <Link href={`/sessions/${session.id}`} className="flex -space-x-6 shrink-0">
+                {session.results.slice(0, PREVIEW_COUNT).map(media => (
+                  <div
+                    key={`${media.media_type}-${media.id}`}
+                    className="relative w-12 sm:w-14 aspect-[2/3] rounded-md overflow-hidden bg-gray-800 ring-2 ring-black"
+                  >
+                    {media.poster_path && (
+                      <Image
+                        src={`https://image.tmdb.org/t/p/w92${media.poster_path}`}
+                        alt={media.title}
+                        fill
+                        className="object-cover"
+                        sizes="56px"
+                      />
+                    )}
+                  </div>
+                ))}
+              </Link>
+
+              <div className="flex-1 min-w-0">
+                {editingId === session.id ? (
+                  <input
+                    value={editName}
+                    onChange={(e) => setEditName(e.target.value)}
+                    onBlur={() => handleRename(session)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') handleRename(session)
+                      if (e.key === 'Escape') setEditingId(null)
+                    }}
+                    maxLength={80}
+                    autoFocus
+                    className="w-full bg-transparent border-b border-white/20 font-semibold focus:outline-none focus:border-white/50"
+                  />
+                ) : (
+                  <Link href={`/sessions/${session.id}`} className="block font-semibold truncate hover:underline">
+                    {session.name}
+                  </Link>
+                )}
+                <p className="text-sm text-gray-400 mt-1">
+                  {session.results.length} titles · {new Date(session.createdAt).toLocaleDateString()}
+                </p>
+              </div>
+
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={() => {
+                    setEditingId(session.id)
+                    setEditName(session.name)
+                  }}
+                  className="p-2 rounded-lg text-gray-400 hover:text-white hover:bg-white/10 transition-colors"
+                  aria-label="Rename session"
+                >
+                  <LuPencil className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handleDelete(session)}
+                  className="p-2 rounded-lg text-gray-400 hover:text-red-400 hover:bg-white/10 transition-colors"
+                  aria-label="Delete session"
+                >
+                  <LuTrash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </motion.div>
+          ))}
+        </AnimatePresence>
+      </div>
+    </div>
+  )
+}
+
+export default withAuth(Sessions)
@@ -0,0 +1,101 @@
+'use client'
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { useLocale } from '@/contexts/LocaleContext';
+import { LOCALE_OPTIONS, LocalePreferences } from '@/lib/localePreferences';
+import { fetchWatchRegions, WatchRegion } from '@/lib/streamingServices';
+
+const selectClassName =
+  'bg-black/60 text-white text-sm px-3 py-2 rounded-lg border border-white/10 focus:outline-none focus:ring-2 focus:ring-white/20 disabled:opacity-50';
+
+export default function LocaleSettings() {
+  const { locale, region, updateLocalePreferences } = useLocale();
+  const [regions, setRegions] = useState<WatchRegion[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Country names follow the chosen language
+  useEffect(() => {
+    let cancelled = false;
+    fetchWatchRegions(locale)
+      .then(watchRegions => {
+        if (!cancelled) setRegions(watchRegions);
+      })
+      .catch(error => console.error('Error loading watch regions:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [locale]);
+
+  const handleChange = async (changes: Partial<LocalePreferences>) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await updateLocalePreferences(changes);
+    } catch (error) {
+      console.error('Error saving language and region:', error);
+      setError('Could not save your language and region');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <motion.div
+      layout="position"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.25 }}
+      className="relative rounded-2xl bg-white/5 backdrop-blur-lg border border-white/10 p-8"
+    >
+      <div className="flex flex-col gap-6">
+        <div>
+          <h2 className="text-2xl font-bold bg-gradient-to-r from-white to-gray-300 bg-clip-text text-transparent">
+            Language & Region
+          </h2>
+          <p className="text-sm text-gray-400 mt-1">
+            Titles, overviews and posters are shown in your language, streaming availability for your region
+          </p>
+        </div>
+
+        {error && (
+          <div className="bg-red-500/10 text-red-400 px-4 py-3 rounded-xl text-sm">{error}</div>
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <label className="flex flex-col gap-2 text-sm text-gray-400">
+            Language
+            <select
+              value={locale}
+              onChange={(e) => handleChange({ locale: e.target.value })}
+              disabled={isSaving}
+              className={selectClassName}
+            >
+              {LOCALE_OPTIONS.map(option => (
+                <option key={option.locale} value={option.locale}>
+                  {option.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-2 text-sm text-gray-400">
+            Region
+            <select
+              value={region}
+              onChange={(e) => handleChange({ region: e.target.value })}
+              disabled={isSaving || regions.length === 0}
+              className={selectClassName}
+            >
+              {regions.map(watchRegion => (
+                <option key={watchRegion.iso_3166_1} value={watchRegion.iso_3166_1}>
+                  {watchRegion.native_name || watchRegion.english_name}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+      </div>
+    </motion.div>
+  );
+}
@@ -1,14 +1,21 @@
 'use client'
 import { useEffect, useRef, useState } from 'react';
 import Image from 'next/image';
-import { LuX, LuStar, LuCalendar, LuClock, LuLanguages } from 'react-icons/lu';
+import Link from 'next/link';
+import { LuX, LuStar, LuCalendar, LuClock, LuLanguages, LuSparkles } from 'react-icons/lu';
 import { motion, AnimatePresence } from 'framer-motion';
 import RetryImage from './ui/RetryImage';
 import { ErrorBoundary } from 'react-error-boundary';
 import TVShowProgress from './TVShowProgress';
+import SimilarMediaRail from './SimilarMediaRail';
 import { useWatchlist } from '@/contexts/WatchlistContext';
-import { MovieDetails, TVShowDetails, MediaDetails, Provider, StreamingData, MediaVideo } from '@/types/media';
-import { fetchMediaDetails, fetchMediaVideos, fetchStreamingProviders } from '@/lib/mediaUtils';
+import { useLocale } from '@/contexts/LocaleContext';
+import { Media, MovieDetails, TVShowDetails, MediaDetails, Provider, StreamingData, MediaVideo } from '@/types/media';
+import { tmdbProxy } from '@/lib/api';
+import { fetchMediaDetails } from '@/lib/mediaDetails';
+import { getPersonUrl } from '@/lib/person';
+import { getDirectors } from '@/lib/tasteScoring';
+import { RecommendationExplanation } from '@/types/recommendation';
 
 // Helper function to normalize provider names
 const normalizeProviderName = (name: string): string => {
@@ -51,54 +58,103 @@ const normalizeProviderName = (name: string): string => {
     'BookMyShow Stream': 'BookMyShow Stream',
     'Aha': 'Aha',
     'ahaTV': 'Aha',
-    'aha': 'Aha'
+    'aha': 'Aha',
+    'Hulu': 'Hulu',
+    'HBO Max': 'Max',
+    'Max': 'Max',
+    'Peacock': 'Peacock',
+    'Peacock Premium': 'Peacock',
+    'Paramount+': 'Paramount Plus',
+    'Paramount Plus': 'Paramount Plus',
+    'BBC iPlayer': 'BBC iPlayer',
+    'ITVX': 'ITVX',
+    'ITV Hub': 'ITVX',
+    'Channel 4': 'Channel 4',
+    'Channel4': 'Channel 4'
   };
   return nameMap[name] || name;
 };
 
-// Updated streaming service URLs with verified working patterns for India
-const STREAMING_URLS: { [key: string]: (title: string, mediaType: 'movie' | 'tv') => string } = {
-  'Netflix': (title) => 
-    `https://www.netflix.com/in/search?q=${encodeURIComponent(title)}`,
-  'Amazon Prime Video': (title) => 
-    `https://www.primevideo.com/region/in/search/ref=atv_sr_sug_4?phrase=${encodeURIComponent(title)}&ie=UTF8`,
-  'Disney Plus': (title) => 
-    `https://www.hotstar.com/in/search?q=${encodeURIComponent(title)}&utm_source=search`,
-  'SonyLIV': (title) => 
-    `https://www.sonyliv.com/search?searchTerm=${encodeURIComponent(title)}`,
-  'Zee5': (title) => 
-    `https://www.zee5.com/search?q=${encodeURIComponent(title)}`,
-  'Voot': (title) => 
-    `https://www.voot.com/search?q=${encodeURIComponent(title)}`,
-  'Jio Cinema': (title) => 
-    `https://www.jiocinema.com/search/${encodeURIComponent(title.toLowerCase())}`,
-  'Apple TV': (title) => 
-    `https://tv.apple.com/in/search?term=${encodeURIComponent(title)}`,
-  'Aha': (title) => 
-    `https://www.aha.video/list/search?q=${encodeURIComponent(title)}`,
-  'Sun NXT': (title) => 
-    `https://www.sunnxt.com/search?q=${encodeURIComponent(title)}`,
-  'Mubi': (title) => 
-    `https://mubi.com/en/in/search/${encodeURIComponent(title.toLowerCase())}`,
-  'YouTube': (title, mediaType) => 
-    `https://www.youtube.com/results?search_query=${encodeURIComponent(title + ' ' + (mediaType === 'tv' ? 'tv series' : mediaType))}`,
-  'Google Play': (title, mediaType) => 
-    `https://play.google.com/store/search?q=${encodeURIComponent(title + ' ' + (mediaType === 'tv' ? 'tv show' : mediaType))}&c=${mediaType === 'tv' ? 'tv' : 'movies'}`,
-  'Tata Play': (title) => 
-    `https://watch.tataplay.com/search?q=${encodeURIComponent(title)}`,
-  'BookMyShow Stream': (title) => 
-    `https://in.bookmyshow.com/stream/search/${encodeURIComponent(title.toLowerCase())}`,
-  'Eros Now': (title) => 
-    `https://erosnow.com/search?q=${encodeURIComponent(title)}`,
-  'MX Player': (title) => 
-    `https://www.mxplayer.in/search?q=${encodeURIComponent(title)}`,
+// Top-billed cast shown under the overview
+const MAX_CAST_SHOWN = 12;
+
+type StreamingUrlBuilder = (title: string, mediaType: 'movie' | 'tv', region: string) => string;
+
+// Search links per provider, keyed by watch region with 'ALL' for providers that work everywhere
+const STREAMING_URLS: Record<string, Record<string, StreamingUrlBuilder>> = {
+  ALL: {
+    'Netflix': (title, _mediaType, region) =>
+      `https://www.netflix.com/${region.toLowerCase()}/search?q=${encodeURIComponent(title)}`,
+    'Amazon Prime Video': (title) =>
+      `https://www.primevideo.com/search/ref=atv_nb_sug?phrase=${encodeURIComponent(title)}&ie=UTF8`,
+    'Disney Plus': (title) =>
+      `https://www.disneyplus.com/search?q=${encodeURIComponent(title)}`,
+    'Apple TV': (title, _mediaType, region) =>
+      `https://tv.apple.com/${region.toLowerCase()}/search?term=${encodeURIComponent(title)}`,
+    'Mubi': (title, _mediaType, region) =>
+      `https://mubi.com/en/${region.toLowerCase()}/search/${encodeURIComponent(title.toLowerCase())}`,
+    'YouTube': (title, mediaType) =>
+      `https://www.youtube.com/results?search_query=${encodeURIComponent(title + ' ' + (mediaType === 'tv' ? 'tv series' : mediaType))}`,
+    'Google Play': (title, mediaType) =>
+      `https://play.google.com/store/search?q=${encodeURIComponent(title + ' ' + (mediaType === 'tv' ? 'tv show' : mediaType))}&c=${mediaType === 'tv' ? 'tv' : 'movies'}`,
+  },
+  IN: {
+    'Amazon Prime Video': (title) => 
+      `https://www.primevideo.com/region/in/search/ref=atv_sr_sug_4?phrase=${encodeURIComponent(title)}&ie=UTF8`,
+    'Disney Plus': (title) => 
+      `https://www.hotstar.com/in/search?q=${encodeURIComponent(title)}&utm_source=search`,
+    'SonyLIV': (title) => 
+      `https://www.sonyliv.com/search?searchTerm=${encodeURIComponent(title)}`,
+    'Zee5': (title) => 
+      `https://www.zee5.com/search?q=${encodeURIComponent(title)}`,
+    'Voot': (title) => 
+      `https://www.voot.com/search?q=${encodeURIComponent(title)}`,
+    'Jio Cinema': (title) => 
+      `https://www.jiocinema.com/search/${encodeURIComponent(title.toLowerCase())}`,
+    'Aha': (title) => 
+      `https://www.aha.video/list/search?q=${encodeURIComponent(title)}`,
+    'Sun NXT': (title) => 
+      `https://www.sunnxt.com/search?q=${encodeURIComponent(title)}`,
+    'Tata Play': (title) => 
+      `https://watch.tataplay.com/search?q=${encodeURIComponent(title)}`,
+    'BookMyShow Stream': (title) => 
+      `https://in.bookmyshow.com/stream/search/${encodeURIComponent(title.toLowerCase())}`,
+    'Eros Now': (title) => 
+      `https://erosnow.com/search?q=${encodeURIComponent(title)}`,
+    'MX Player': (title) => 
+      `https://www.mxplayer.in/search?q=${encodeURIComponent(title)}`,
+  },
+  US: {
+    'Hulu': (title) =>
+      `https://www.hulu.com/search?q=${encodeURIComponent(title)}`,
+    'Max': (title) =>
+      `https://play.max.com/search?q=${encodeURIComponent(title)}`,
+    'Peacock': (title) =>
+      `https://www.peacocktv.com/watch/search?q=${encodeURIComponent(title)}`,
+    'Paramount Plus': (title) =>
+      `https://www.paramountplus.com/search/?q=${encodeURIComponent(title)}`,
+  },
+  GB: {
+    'BBC iPlayer': (title) =>
+      `https://www.bbc.co.uk/iplayer/search?q=${encodeURIComponent(title)}`,
+    'ITVX': (title) =>
+      `https://www.itv.com/watch/search?q=${encodeURIComponent(title)}`,
+    'Channel 4': (title) =>
+      `https://www.channel4.com/search?q=${encodeURIComponent(title)}`,
+  },
 };
 
+// The region's own link for a provider when it has one, otherwise the global link
+const getStreamingUrl = (providerName: string, region: string): StreamingUrlBuilder | undefined =>
+  STREAMING_URLS[region]?.[providerName] || STREAMING_URLS.ALL[providerName];
+
 interface MediaDetailsModalProps {
   mediaId: number | null;
   mediaType: 'movie' | 'tv' | null;
   onClose: () => void;
   layoutId?: string;
+  // Why the title was recommended, when the modal is opened from a recommendation
+  explanation?: RecommendationExplanation;
 }
 
 const getMediaDate = (media: MediaDetails | null): string | null => {
@@ -137,14 +193,32 @@ const getMediaDuration = (media: MediaDetails | null): string => {
   }
 };
 
-export default function MediaDetailsModal({ mediaId, mediaType, onClose, layoutId }: MediaDetailsModalProps) {
+export default function MediaDetailsModal({ mediaId: initialMediaId, mediaType: initialMediaType, onClose, layoutId, explanation }: MediaDetailsModalProps) {
   const modalRef = useRef<HTMLDivElement>(null);
+  const contentRef = useRef<HTMLDivElement>(null);
+  // A title picked from "More like this" is shown in place of the one the modal was opened with
+  const [relatedMedia, setRelatedMedia] = useState<Media | null>(null);
+  const mediaId = relatedMedia?.id ?? initialMediaId;
+  const mediaType = relatedMedia?.media_type ?? initialMediaType;
   const [media, setMedia] = useState<MediaDetails | null>(null);
   const [videos, setVideos] = useState<MediaVideo[]>([]);
   const [streamingData, setStreamingData] = useState<StreamingData | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const { getWatchlistEntry } = useWatchlist();
+  const { locale, region } = useLocale();
   const watchlistEntry = mediaId ? getWatchlistEntry(mediaId) : undefined;
+  // Directors for movies, creators for shows, once each however many jobs they are credited with
+  const creators = getDirectors(media?.credits?.crew, media?.media_type || 'movie')
+    .filter((person, index, people) => people.findIndex(other => other.id === person.id) === index);
+
+  useEffect(() => {
+    setRelatedMedia(null);
+  }, [initialMediaId, initialMediaType]);
+
+  const handleSelectRelated = (related: Media) => {
+    setRelatedMedia(related);
+    contentRef.current?.scrollTo({ top: 0 });
+  };
 
   useEffect(() => {
     let isMounted = true;
@@ -161,40 +235,30 @@ export default function MediaDetailsModal({ mediaId, mediaType, onClose, layoutI
       setStreamingData(null);
       
       try {
-        // Fetch media details using the shared utility function
+        // Details come from the media store, with title and media_type set for movies and shows alike
         const mediaData = await fetchMediaDetails(mediaType, mediaId, {
-          signal: controller.signal
+          signal: controller.signal,
+          language: locale
         });
 
         if (isMounted) {
-          // Create a properly typed object based on the mediaType
-          if (mediaType === 'movie') {
-            setMedia({
-              ...mediaData,
-              title: mediaData.title,
-              media_type: 'movie'
-            } as MovieDetails);
-          } else {
-            setMedia({
-              ...mediaData,
-              title: (mediaData as TVShowDetails).name,
-              media_type: 'tv'
-            } as TVShowDetails);
-          }
+          setMedia(mediaData);
         }
         
-        // Fetch videos (trailers, etc.) using the shared utility function
-        const videosData = await fetchMediaVideos(mediaType, mediaId, {
-          signal: controller.signal
+        // Fetch videos (trailers, etc.)
+        const videosData = await tmdbProxy.videos(mediaType, mediaId, {
+          signal: controller.signal,
+          language: locale
         });
         
         if (isMounted) {
           setVideos(videosData);
         }
         
-        // Fetch streaming providers using the shared utility function
-        const streamingData = await fetchStreamingProviders(mediaType, mediaId, {
-          signal: controller.signal
+        // Fetch streaming providers for the user's watch region
+        const streamingData = await tmdbProxy.providers(mediaType, mediaId, {
+          signal: controller.signal,
+          region
         });
 
         if (isMounted) {
@@ -223,10 +287,12 @@ export default function MediaDetailsModal({ mediaId, mediaType, onClose, layoutI
       setStreamingData(null);
       setIsLoading(false);
     };
-  }, [mediaId, mediaType]);
+  }, [mediaId, mediaType, locale, region]);
 
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
+      // Dropdowns render in a portal outside the modal, e.g. the watchlist status menu
+      if ((event.target as HTMLElement).closest?.('[data-dropdown]')) return;
       if (modalRef.current && !modalRef.current.contains(event.target as Node)) {
         onClose();
       }
@@ -252,7 +318,7 @@ export default function MediaDetailsModal({ mediaId, mediaType, onClose, layoutI
         <div className="flex flex-wrap gap-2">
           {providers.map((provider) => {
             const normalizedName = normalizeProviderName(provider.provider_name);
-            const streamingUrl = STREAMING_URLS[normalizedName as keyof typeof STREAMING_URLS];
+            const streamingUrl = getStreamingUrl(normalizedName, region);
             const isConfigured = !!streamingUrl;
             
             return (
@@ -264,7 +330,7 @@ export default function MediaDetailsModal({ mediaId, mediaType, onClose, layoutI
               >
                 {isConfigured ? (
                   <motion.a
-                    href={streamingUrl(media?.title || '', media?.media_type || 'movie')}
+                    href={streamingUrl(media?.title || '', media?.media_type || 'movie', region)}
                     target="_blank"
                     rel="noopener noreferrer"
                     className="block w-full h-full"
@@ -273,7 +339,7 @@ export default function MediaDetailsModal({ mediaId, mediaType, onClose, layoutI
                         e.preventDefault();
                         return;
                       }
-                      console.log(`Clicked ${normalizedName} link:`, streamingUrl(media.title, media.media_type));
+                      console.log(`Clicked ${normalizedName} link:`, streamingUrl(media.title, media.media_type, region));
                     }}
                   >
                     <Image
@@ -373,7 +439,7 @@ export default function MediaDetailsModal({ mediaId, mediaType, onClose, layoutI
           )}
 
           {/* Content Container */}
-          <div className="relative z-10 h-full overflow-y-auto">
+          <div ref={contentRef} className="relative z-10 h-full overflow-y-auto">
             {isLoading ? (
               <div className="flex items-center justify-center h-full">
                 <div className="animate-pulse space-y-8 w-full max-w-2xl mx-auto p-6">
@@ -431,7 +497,7 @@ export default function MediaDetailsModal({ mediaId, mediaType, onClose, layoutI
                     animate={{ opacity: 1, x: 0 }}
                     transition={{ delay: 0.3 }}
                     className="relative w-[120px] sm:w-[200px] flex-shrink-0 mx-auto sm:mx-0"
-                    layoutId={layoutId}
+                    layoutId={relatedMedia ? undefined : layoutId}
                   >
                     <div className="relative aspect-[2/3] rounded-xl overflow-hidden bg-black/30">
                       {media.poster_path ? (
@@ -586,6 +652,76 @@ export default function MediaDetailsModal({ mediaId, mediaType, onClose, layoutI
                     {/* Overview */}
                     <p className="text-sm sm:text-base text-gray-300 leading-relaxed">{media.overview}</p>
 
+                    {/* Cast & Crew, each linking to their person page */}
+                    {creators.length > 0 && (
+                      <div className="text-sm">
+                        <span className="text-gray-400">{media.media_type === 'movie' ? 'Directed by' : 'Created by'}</span>{' '}
+                        {creators.map((person, index) => (
+                          <span key={person.id}>
+                            {index > 0 && ', '}
+                            <Link href={getPersonUrl(person.id)} onClick={onClose} className="text-white hover:underline">
+                              {person.name}
+                            </Link>
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                    {!!media.credits?.cast.length && (
+                      <div className="flex gap-3 overflow-x-auto pb-2 -mx-1 px-1">
+                        {media.credits.cast.slice(0, MAX_CAST_SHOWN).map(person => (
+                          <Link
+                            key={person.id}
+                            href={getPersonUrl(person.id)}
+                            onClick={onClose}
+                            className="flex-shrink-0 w-20 flex flex-col items-center gap-1.5 text-center group"
+                          >
+                            <div className="relative w-14 h-14 rounded-full overflow-hidden bg-white/10 ring-1 ring-white/10 group-hover:ring-white/40 transition-all">
+                              {person.profile_path ? (
+                                <Image
+                                  src={`https://image.tmdb.org/t/p/w185${person.profile_path}`}
+                                  alt={person.name}
+                                  fill
+                                  sizes="56px"
+                                  className="object-cover"
+                                />
+                              ) : (
+                                <div className="w-full h-full flex items-center justify-center text-lg font-bold text-white/60">
+                                  {person.name.charAt(0)}
+                                </div>
+                              )}
+                            </div>
+                            <span className="text-xs text-white leading-tight line-clamp-2 group-hover:underline">{person.name}</span>
+                            {person.character && (
+                              <span className="text-[11px] text-gray-400 leading-tight line-clamp-1">{person.character}</span>
+                            )}
+                          </Link>
+                        ))}
+                      </div>
+                    )}
+
+                    {/* Recommendation Explanation */}
+                    {explanation?.reason && !relatedMedia && (
+                      <div className="bg-purple-500/10 border border-purple-500/20 rounded-xl p-4 space-y-2">
+                        <h3 className="flex items-center gap-2 text-sm font-semibold text-purple-300">
+                          <LuSparkles className="w-4 h-4" />
+                          Why we picked this
+                        </h3>
+                        <p className="text-sm text-gray-300">{explanation.reason}</p>
+                        {explanation.seeds.length > 0 && (
+                          <div className="flex flex-wrap gap-2">
+                            {explanation.seeds.map(seed => (
+                              <span
+                                key={seed}
+                                className="text-xs bg-white/5 text-white/80 px-2.5 py-1 rounded-lg border border-white/10"
+                              >
+                                {seed}
+                              </span>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    )}
+
                     {/* TV Show Progress */}
                     {mediaType === 'tv' && (
                       <TVShowProgress 
@@ -605,6 +741,13 @@ export default function MediaDetailsModal({ mediaId, mediaType, onClose, layoutI
                     )}
                   </motion.div>
                 </div>
+
+                {/* More Like This */}
+                <SimilarMediaRail
+                  mediaId={media.id}
+                  mediaType={media.media_type}
+                  onSelect={handleSelectRelated}
+                />
               </motion.div>
             ) : (
               <div className="flex items-center justify-center h-full">
@@ -17,7 +17,7 @@ export default function MediaDetailsModalContainer({
     const handleClickOutside = (e: MouseEvent) => {
       if (!e.target) return;
       const target = e.target as HTMLElement;
-      if (target.closest('[role="dialog"]')) return;
+      if (target.closest('[role="dialog"], [data-dropdown]')) return;
       onClose();
     };
 
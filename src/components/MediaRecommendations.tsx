@@ -2,7 +2,19 @@
 import { useState, useEffect } from 'react';
 import MediaDetailsModal from '@/components/MediaDetailsModal';
 import WatchlistButton from './WatchlistButton';
+import ProviderBadge from './ProviderBadge';
 import RetryImage from './ui/RetryImage';
+import { LuRefreshCw, LuThumbsUp, LuThumbsDown, LuEyeOff } from 'react-icons/lu';
+import { fetchRecommendations } from '@/lib/recommendations';
+import { LOW_MATCH_CONFIDENCE } from '@/lib/titleResolution';
+import { RecommendationFeedbackEntry, RecommendedMedia } from '@/types/recommendation';
+import { Provider } from '@/types/media';
+import { useAuth } from '@/contexts/AuthContext';
+import { fetchRegionalAvailability, fetchStreamingAvailability } from '@/lib/streamingServices';
+import { availabilityKey, DEFAULT_WATCH_REGION } from '@/lib/utils';
+import type { RecommendationFilters } from '@/lib/validationSchemas';
+import { fetchFeedback, removeFeedback, sendFeedback } from '@/lib/feedback';
+import { FeedbackType } from '@/lib/prismaTypes';
 
 interface Media {
   id: number;
@@ -12,29 +24,145 @@ interface Media {
 }
 
 interface MediaRecommendationsProps {
-  recommendations: Media[];
+  recommendations: RecommendedMedia[];
   isLoading: boolean;
+  // More results are still arriving from the server
+  isStreaming?: boolean;
   selectedMedia: Media[];
   onClearSelection: () => void;
+  description: string;
+  tasteMode?: boolean;
+  onlyMyServices?: boolean;
+  filters?: RecommendationFilters;
+  // Leave out to hide the replace button, e.g. when results are numbered by the server
+  onReplace?: (replaced: RecommendedMedia, replacement: RecommendedMedia) => void;
+  // Called when the user marks a title as not interested
+  onHide: (media: RecommendedMedia) => void;
+  // The number a title is referred to by, e.g. in "more like #3"
+  getNumber?: (media: RecommendedMedia) => number | undefined;
 }
 
 export default function MediaRecommendations({
   recommendations,
   isLoading,
+  isStreaming = false,
   selectedMedia,
   onClearSelection,
+  description,
+  tasteMode = false,
+  onlyMyServices = false,
+  filters,
+  onReplace,
+  onHide,
+  getNumber,
 }: MediaRecommendationsProps) {
   const [selectedMediaId, setSelectedMediaId] = useState<number | null>(null);
   const [selectedMediaType, setSelectedMediaType] = useState<'movie' | 'tv'>('movie');
+  const [replacingIds, setReplacingIds] = useState<number[]>([]);
+  const [availability, setAvailability] = useState<Record<string, Provider[]>>({});
+  // Existing feedback keyed by `${mediaType}:${mediaId}`
+  const [feedback, setFeedback] = useState<Record<string, RecommendationFeedbackEntry>>({});
+  const { user } = useAuth();
 
   useEffect(() => {
-    setSelectedMediaId(null);
+    if (!user) return;
+
+    fetchFeedback()
+      .then(entries => setFeedback(
+        Object.fromEntries(entries.map(entry => [availabilityKey(entry.mediaType, entry.mediaId), entry]))
+      ))
+      .catch(error => console.error('Error loading feedback:', error));
+  }, [user]);
+
+  useEffect(() => {
+    // Keep the details open while more results stream in, unless the title was removed
+    setSelectedMediaId(prev =>
+      prev !== null && recommendations.some(media => media.id === prev) ? prev : null
+    );
   }, [recommendations]);
 
+  useEffect(() => {
+    // Wait for the full list rather than re-checking on every streamed card
+    if (isStreaming || recommendations.length === 0) return;
+
+    let cancelled = false;
+    const items = recommendations.map(media => ({ mediaType: media.media_type, mediaId: media.id }));
+    // Signed in shows the user's own services in their region, signed out every subscription service in the default region
+    const request = user
+      ? fetchStreamingAvailability(items).then(result => result.availability)
+      : fetchRegionalAvailability(items, DEFAULT_WATCH_REGION);
+    request
+      .then(result => {
+        if (!cancelled) setAvailability(result);
+      })
+      .catch(error => console.error('Error loading streaming availability:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, isStreaming, recommendations]);
+
   const handleClearSelection = () => {
     onClearSelection();
   };
 
+  const handleReplace = async (media: RecommendedMedia, event: React.MouseEvent) => {
+    event.stopPropagation();
+    const mediaId = media.id;
+    if (!onReplace || replacingIds.includes(mediaId)) return;
+
+    setReplacingIds(prev => [...prev, mediaId]);
+    try {
+      // Ask for a few candidates so at least one survives the exclusion list.
+      // Replacing with the same type keeps a mixed list balanced.
+      const [replacement] = await fetchRecommendations({
+        description,
+        selectedMedia,
+        mediaType: media.media_type,
+        count: 5,
+        excludeKeys: recommendations.map(media => availabilityKey(media.media_type, media.id)),
+        useTaste: tasteMode,
+        onlyMyServices,
+        filters,
+      });
+
+      if (replacement) {
+        onReplace(media, replacement);
+      }
+    } catch (error) {
+      console.error('Error replacing recommendation:', error);
+    } finally {
+      setReplacingIds(prev => prev.filter(id => id !== mediaId));
+    }
+  };
+
+  const handleFeedback = async (media: RecommendedMedia, type: FeedbackType, event: React.MouseEvent) => {
+    event.stopPropagation();
+    const key = availabilityKey(media.media_type, media.id);
+    const existing = feedback[key];
+
+    try {
+      // Clicking the active thumb again takes the feedback back
+      if (existing?.type === type) {
+        await removeFeedback(existing.id);
+        setFeedback(prev => {
+          const next = { ...prev };
+          delete next[key];
+          return next;
+        });
+        return;
+      }
+
+      const entry = await sendFeedback(media, type);
+      setFeedback(prev => ({ ...prev, [key]: entry }));
+      if (type === FeedbackType.NOT_INTERESTED) {
+        onHide(media);
+      }
+    } catch (error) {
+      console.error('Error saving feedback:', error);
+    }
+  };
+
   const handleMediaClick = (mediaId: number, mediaType: 'movie' | 'tv', event: React.MouseEvent) => {
     event.preventDefault();
     event.stopPropagation();
@@ -81,7 +209,7 @@ export default function MediaRecommendations({
       <div className="grid grid-cols-2 xs:grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-3 sm:gap-6 mt-8">
         {recommendations.map((media) => (
           <div
-            key={media.id}
+            key={`${media.media_type}-${media.id}`}
             onClick={(e) => handleMediaClick(media.id, media.media_type, e)}
             className="media-card bg-white/5 backdrop-blur-xl rounded-xl overflow-hidden border border-white/10 touch-manipulation cursor-pointer"
           >
@@ -109,11 +237,99 @@ export default function MediaRecommendations({
                   <span className="text-gray-400 text-sm text-center px-4">No poster available</span>
                 </div>
               )}
+              {media.confidence < LOW_MATCH_CONFIDENCE && (
+                <div
+                  className="absolute top-2 left-2 bg-yellow-500/20 text-yellow-400 border border-yellow-500/30 backdrop-blur-sm text-xs font-medium px-2 py-1 rounded-lg"
+                  title="We're not sure this is the exact title that was recommended"
+                >
+                  Uncertain match
+                </div>
+              )}
+              <div className="absolute top-2 right-2 bg-black/60 text-gray-200 border border-white/10 backdrop-blur-sm text-xs font-medium px-2 py-1 rounded-lg">
+                {media.media_type === 'movie' ? 'Movie' : 'TV'}
+              </div>
+              <ProviderBadge
+                providers={availability[availabilityKey(media.media_type, media.id)] || []}
+                className="absolute bottom-2 left-2"
+              />
+              {getNumber?.(media) !== undefined && (
+                <div className="absolute bottom-2 right-2 bg-black/70 text-white border border-white/10 backdrop-blur-sm text-xs font-semibold px-2 py-1 rounded-lg">
+                  #{getNumber(media)}
+                </div>
+              )}
             </div>
             <div className="p-3 sm:p-4">
               <div className="flex items-start justify-between gap-2 sm:gap-4">
                 <h3 className="text-base sm:text-lg font-semibold flex-1 line-clamp-2">{media.title}</h3>
+                {onReplace && (
+                  <button
+                    onClick={(e) => handleReplace(media, e)}
+                    disabled={replacingIds.includes(media.id)}
+                    className="p-1.5 rounded-lg text-gray-400 hover:text-white hover:bg-white/10 transition-colors disabled:cursor-wait"
+                    aria-label="Replace recommendation"
+                  >
+                    <LuRefreshCw className={`w-4 h-4 ${replacingIds.includes(media.id) ? 'animate-spin' : ''}`} />
+                  </button>
+                )}
               </div>
+              {media.availabilityUnknown && (
+                <p className="mt-1 text-xs text-yellow-400" title="We couldn't check where this is streaming">
+                  Availability on your services unknown
+                </p>
+              )}
+              {media.reason && (
+                <p className="mt-1.5 text-xs sm:text-sm text-gray-400 line-clamp-3" title={media.reason}>
+                  {media.reason}
+                </p>
+              )}
+              {media.seeds?.length > 0 && (
+                <div className="mt-2 flex flex-wrap gap-1">
+                  {media.seeds.map(seed => (
+                    <span
+                      key={seed}
+                      className="text-[10px] sm:text-xs bg-white/5 text-gray-300 border border-white/10 px-1.5 py-0.5 rounded-md truncate max-w-full"
+                    >
+                      {seed}
+                    </span>
+                  ))}
+                </div>
+              )}
+              {user && (
+                <div className="mt-2 flex items-center gap-1">
+                  <button
+                    onClick={(e) => handleFeedback(media, FeedbackType.LIKE, e)}
+                    className={`p-1.5 rounded-lg transition-colors hover:bg-white/10 ${
+                      feedback[availabilityKey(media.media_type, media.id)]?.type === FeedbackType.LIKE
+                        ? 'text-green-400'
+                        : 'text-gray-400 hover:text-white'
+                    }`}
+                    aria-label="Good recommendation"
+                    title="Good recommendation"
+                  >
+                    <LuThumbsUp className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={(e) => handleFeedback(media, FeedbackType.DISLIKE, e)}
+                    className={`p-1.5 rounded-lg transition-colors hover:bg-white/10 ${
+                      feedback[availabilityKey(media.media_type, media.id)]?.type === FeedbackType.DISLIKE
+                        ? 'text-red-400'
+                        : 'text-gray-400 hover:text-white'
+                    }`}
+                    aria-label="Bad recommendation"
+                    title="Bad recommendation"
+                  >
+                    <LuThumbsDown className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={(e) => handleFeedback(media, FeedbackType.NOT_INTERESTED, e)}
+                    className="ml-auto p-1.5 rounded-lg text-gray-400 hover:text-white hover:bg-white/10 transition-colors"
+                    aria-label="Not interested"
+                    title="Not interested, never recommend this again"
+                  >
+                    <LuEyeOff className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
               <div className="mt-3 sm:mt-4" onClick={(e) => e.stopPropagation()}>
                 <WatchlistButton
                   media={media}
@@ -123,12 +339,27 @@ export default function MediaRecommendations({
             </div>
           </div>
         ))}
+        {isStreaming && [...Array(2)].map((_, i) => (
+          <div
+            key={`pending-${i}`}
+            className="bg-white/5 backdrop-blur-xl rounded-xl overflow-hidden border border-white/10 animate-pulse"
+          >
+            <div className="aspect-[2/3] bg-white/10" />
+            <div className="p-3 sm:p-4">
+              <div className="h-6 bg-white/10 rounded mb-2" />
+              <div className="h-4 bg-white/10 rounded w-2/3" />
+            </div>
+          </div>
+        ))}
       </div>
 
       <MediaDetailsModal
         mediaId={selectedMediaId}
         mediaType={selectedMediaType}
         onClose={() => setSelectedMediaId(null)}
+        explanation={recommendations.find(
+          media => media.id === selectedMediaId && media.media_type === selectedMediaType
+        )}
       />
     </div>
   );
@@ -4,6 +4,8 @@ import RetryImage from './ui/RetryImage';
 import { motion, AnimatePresence } from 'framer-motion';
 import WatchlistButton from './WatchlistButton';
 import MediaDetailsModal from './MediaDetailsModal';
+import { tmdbProxy } from '@/lib/api';
+import { useLocale } from '@/contexts/LocaleContext';
 
 interface Media {
   id: number;
@@ -27,6 +29,7 @@ export default function MediaSearchModal({ isOpen, onClose, onSelectMedia, initi
   const [error, setError] = useState<string | null>(null);
   const [selectedMediaId, setSelectedMediaId] = useState<number | null>(null);
   const [mediaType, setMediaType] = useState<'movie' | 'tv'>(initialMediaType);
+  const { locale } = useLocale();
 
   const searchMedia = useCallback(async (query: string) => {
     if (!query.trim()) {
@@ -40,22 +43,12 @@ export default function MediaSearchModal({ isOpen, onClose, onSelectMedia, initi
 
     try {
       const controller = new AbortController();
-      const response = await fetch(
-        `/api/tmdb?path=/search/${mediaType}?query=${encodeURIComponent(query)}&include_adult=false&language=en-US&page=1`,
-        { signal: controller.signal }
-      );
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || errorData.details || `Failed to search ${mediaType === 'movie' ? 'movies' : 'TV shows'}`);
-      }
-
-      const data = await response.json();
-      const results = data.results?.map((item: { id: number; title?: string; name?: string; poster_path: string }) => ({
+      const data = await tmdbProxy.search(mediaType, query, { signal: controller.signal, language: locale });
+      const results = data.results.map(item => ({
         ...item,
-        title: item.title || item.name,
+        title: item.title || item.name || '',
         media_type: mediaType
-      })) || [];
+      }));
       setSuggestions(results);
     } catch (error) {
       console.error('Error searching media:', error);
@@ -68,7 +61,7 @@ export default function MediaSearchModal({ isOpen, onClose, onSelectMedia, initi
     } finally {
       setIsLoading(false);
     }
-  }, [mediaType]);
+  }, [mediaType, locale]);
 
   useEffect(() => {
     const debounceTimeout = setTimeout(() => searchMedia(searchQuery), 300);
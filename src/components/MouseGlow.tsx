@@ -1,6 +1,8 @@
 'use client'
 
 import { useEffect, useState, useRef } from 'react';
+import { tmdbProxy } from '@/lib/api';
+import { useLocale } from '@/contexts/LocaleContext';
 
 
 interface Props {
@@ -12,6 +14,7 @@ export default function MouseGlow({ onMediaChange }: Props) {
   const [backdrop, setBackdrop] = useState<string | null>(null);
   const [isTouching, setIsTouching] = useState(false);
   const onMediaChangeRef = useRef(onMediaChange);
+  const { locale } = useLocale();
 
   // Keep ref updated with latest callback
   useEffect(() => {
@@ -22,12 +25,9 @@ export default function MouseGlow({ onMediaChange }: Props) {
     // Fetch a single random movie backdrop when component mounts
     const fetchRandomBackdrop = async () => {
       try {
-        // We still need to use the direct API call here since we need a list of movies
-        // rather than details for a specific movie
-        const response = await fetch('/api/tmdb?path=/movie/popular?language=en-US&page=1');
-        const data = await response.json();
+        const data = await tmdbProxy.popular('movie', { language: locale });
         
-        if (data.results && data.results.length > 0) {
+        if (data.results.length > 0) {
           const randomIndex = Math.floor(Math.random() * data.results.length);
           const movie = data.results[randomIndex];
           
@@ -42,7 +42,7 @@ export default function MouseGlow({ onMediaChange }: Props) {
     };
 
     fetchRandomBackdrop();
-  }, []); // Only run once when component mounts
+  }, [locale]); // Run on mount, and again once the user's language loads
 
   useEffect(() => {
     const handleMouseMove = (e: MouseEvent) => {
@@ -5,7 +5,7 @@ import { Dialog, Menu, Transition } from '@headlessui/react';
 import Link from 'next/link';
 import { usePathname, useRouter } from 'next/navigation';
 import { motion } from 'framer-motion';
-import { LuHouse, LuUsers, LuRss, LuMenu, LuX, LuLogIn, LuLogOut, LuUser, LuClock } from 'react-icons/lu';
+import { LuHouse, LuUsers, LuRss, LuMenu, LuX, LuLogIn, LuLogOut, LuUser, LuClock, LuThumbsUp, LuHistory, LuPopcorn, LuBot } from 'react-icons/lu';
 import { getAuth, signInWithPopup, GoogleAuthProvider, signOut } from 'firebase/auth';
 import { useAuthState } from 'react-firebase-hooks/auth';
 import Image from 'next/image';
@@ -28,9 +28,11 @@ export default function Navbar() {
 
   const navigation = [
     { name: 'Home', href: '/', icon: LuHouse, protected: false },
+    { name: 'Assistant', href: '/assistant', icon: LuBot, protected: false },
     { name: 'Feed', href: '/feed', icon: LuRss, protected: true },
     { name: 'History', href: '/history', icon: LuClock, protected: true },
     { name: 'Friends', href: '/friends', icon: LuUsers, protected: true },
+    { name: 'Movie Night', href: '/movie-night', icon: LuPopcorn, protected: true },
   ];
 
   const handleSignIn = async () => {
@@ -164,6 +166,36 @@ export default function Navbar() {
                                 </Link>
                               )}
                             </Menu.Item>
+                            <Menu.Item>
+                              {({ active }: { active: boolean }) => (
+                                <Link
+                                  href="/profile/feedback"
+                                  className={`${
+                                    active ? 'bg-gray-900' : ''
+                                  } block px-4 py-3 text-sm text-gray-300 hover:text-white touch-manipulation`}
+                                >
+                                  <div className="flex items-center gap-2">
+                                    <LuThumbsUp className="w-4 h-4" />
+                                    Feedback
+                                  </div>
+                                </Link>
+                              )}
+                            </Menu.Item>
+                            <Menu.Item>
+                              {({ active }: { active: boolean }) => (
+                                <Link
+                                  href="/sessions"
+                                  className={`${
+                                    active ? 'bg-gray-900' : ''
+                                  } block px-4 py-3 text-sm text-gray-300 hover:text-white touch-manipulation`}
+                                >
+                                  <div className="flex items-center gap-2">
+                                    <LuHistory className="w-4 h-4" />
+                                    Past Recommendations
+                                  </div>
+                                </Link>
+                              )}
+                            </Menu.Item>
                             <Menu.Item>
                               {({ active }: { active: boolean }) => (
                                 <button
@@ -281,6 +313,22 @@ export default function Navbar() {
                             <LuUser className="w-5 h-5" />
                             Your Profile
                           </Link>
+                          <Link
+                            href="/profile/feedback"
+                            onClick={() => setMobileMenuOpen(false)}
+                            className="flex items-center gap-3 px-4 py-3.5 text-base font-medium text-gray-300 hover:text-white hover:bg-white/5 active:bg-white/10 rounded-xl touch-manipulation"
+                          >
+                            <LuThumbsUp className="w-5 h-5" />
+                            Feedback
+                          </Link>
+                          <Link
+                            href="/sessions"
+                            onClick={() => setMobileMenuOpen(false)}
+                            className="flex items-center gap-3 px-4 py-3.5 text-base font-medium text-gray-300 hover:text-white hover:bg-white/5 active:bg-white/10 rounded-xl touch-manipulation"
+                          >
+                            <LuHistory className="w-5 h-5" />
+                            Past Recommendations
+                          </Link>
                           <button
                             onClick={() => {
                               handleSignOut();
@@ -0,0 +1,39 @@
+'use client'
+import Image from 'next/image';
+import { Provider } from '@/types/media';
+
+interface ProviderBadgeProps {
+  providers: Provider[];
+  className?: string;
+}
+
+// More logos than this get summarized as "+n"
+const MAX_LOGOS = 2;
+
+export default function ProviderBadge({ providers, className = '' }: ProviderBadgeProps) {
+  if (providers.length === 0) return null;
+
+  const names = providers.map(provider => provider.provider_name).join(', ');
+
+  return (
+    <div
+      className={`flex items-center gap-1 bg-black/70 backdrop-blur-sm border border-white/10 rounded-lg p-1 ${className}`}
+      title={`Streaming on ${names}`}
+      aria-label={`Streaming on ${names}`}
+    >
+      {providers.slice(0, MAX_LOGOS).map(provider => (
+        <Image
+          key={provider.provider_id}
+          src={`https://image.tmdb.org/t/p/w45${provider.logo_path}`}
+          alt={provider.provider_name}
+          width={20}
+          height={20}
+          className="rounded"
+        />
+      ))}
+      {providers.length > MAX_LOGOS && (
+        <span className="text-[10px] text-gray-300 px-0.5">+{providers.length - MAX_LOGOS}</span>
+      )}
+    </div>
+  );
+}
@@ -1,14 +1,17 @@
 'use client'
 
 import { AuthProvider } from '@/contexts/AuthContext'
+import { LocaleProvider } from '@/contexts/LocaleContext'
 import { WatchlistProvider } from '@/contexts/WatchlistContext'
 
 export default function Providers({ children }: { children: React.ReactNode }) {
   return (
     <AuthProvider>
-      <WatchlistProvider>
-        {children}
-      </WatchlistProvider>
+      <LocaleProvider>
+        <WatchlistProvider>
+          {children}
+        </WatchlistProvider>
+      </LocaleProvider>
     </AuthProvider>
   )
 } 
\ No newline at end of file
@@ -0,0 +1,178 @@
+'use client'
+import { useState } from 'react';
+import { LuSlidersHorizontal, LuChevronDown } from 'react-icons/lu';
+import { CERTIFICATIONS, Certification, hasActiveFilters } from '@/lib/recommendationFilters';
+import type { RecommendationFilters as Filters } from '@/lib/validationSchemas';
+
+interface RecommendationFiltersProps {
+  filters: Filters;
+  onChange: (filters: Filters) => void;
+}
+
+const DECADES = Array.from({ length: 11 }, (_, i) => 1920 + i * 10);
+
+const LANGUAGE_OPTIONS: { label: string; originalLanguage?: string; excludedLanguage?: string }[] = [
+  { label: 'Any language' },
+  { label: 'Non-English', excludedLanguage: 'en' },
+  { label: 'English', originalLanguage: 'en' },
+  { label: 'Korean', originalLanguage: 'ko' },
+  { label: 'Japanese', originalLanguage: 'ja' },
+  { label: 'Hindi', originalLanguage: 'hi' },
+  { label: 'French', originalLanguage: 'fr' },
+  { label: 'Spanish', originalLanguage: 'es' },
+  { label: 'German', originalLanguage: 'de' },
+  { label: 'Italian', originalLanguage: 'it' },
+  { label: 'Chinese', originalLanguage: 'zh' },
+];
+
+const MIN_RATINGS = [6, 7, 7.5, 8];
+
+const fieldClassName = 'w-full bg-black/60 text-white text-sm px-3 py-2 rounded-lg border border-white/10 focus:outline-none focus:ring-2 focus:ring-white/20';
+
+const parseNumber = (value: string) => (value === '' ? undefined : Number(value));
+
+export default function RecommendationFilters({ filters, onChange }: RecommendationFiltersProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const activeCount = Object.values(filters).filter(value => value !== undefined).length;
+
+  const update = (changes: Partial<Filters>) => {
+    // Drop cleared fields so an untouched panel sends no filters at all
+    const next = Object.fromEntries(
+      Object.entries({ ...filters, ...changes }).filter(([, value]) => value !== undefined)
+    ) as Filters;
+    onChange(next);
+  };
+
+  const languageIndex = Math.max(
+    0,
+    LANGUAGE_OPTIONS.findIndex(option =>
+      option.originalLanguage === filters.originalLanguage && option.excludedLanguage === filters.excludedLanguage
+    )
+  );
+
+  return (
+    <div className="w-full">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`mx-auto flex items-center gap-2 px-3 py-1.5 rounded-full text-xs sm:text-sm border transition-colors touch-manipulation ${
+          hasActiveFilters(filters)
+            ? 'bg-blue-500/20 text-blue-300 border-blue-500/40'
+            : 'bg-black/50 backdrop-blur-sm text-gray-400 border-gray-800/50 hover:text-white'
+        }`}
+        aria-expanded={isOpen}
+      >
+        <LuSlidersHorizontal className="w-4 h-4" />
+        Filters{activeCount > 0 && ` (${activeCount})`}
+        <LuChevronDown className={`w-4 h-4 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div className="mt-3 grid grid-cols-2 gap-3 bg-black/50 backdrop-blur-sm border border-gray-800/50 rounded-xl p-4 text-sm">
+          <label className="flex flex-col gap-1 text-gray-400">
+            Min runtime (min)
+            <input
+              type="number"
+              min={0}
+              max={600}
+              value={filters.minRuntime ?? ''}
+              onChange={(e) => update({ minRuntime: parseNumber(e.target.value) })}
+              placeholder="Any"
+              className={fieldClassName}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-gray-400">
+            Max runtime (min)
+            <input
+              type="number"
+              min={0}
+              max={600}
+              value={filters.maxRuntime ?? ''}
+              onChange={(e) => update({ maxRuntime: parseNumber(e.target.value) })}
+              placeholder="Any"
+              className={fieldClassName}
+            />
+          </label>
+
+          <label className="flex flex-col gap-1 text-gray-400">
+            From decade
+            <select
+              value={filters.fromDecade ?? ''}
+              onChange={(e) => update({ fromDecade: parseNumber(e.target.value) })}
+              className={fieldClassName}
+            >
+              <option value="">Any</option>
+              {DECADES.map(decade => (
+                <option key={decade} value={decade}>{decade}s</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 text-gray-400">
+            To decade
+            <select
+              value={filters.toDecade ?? ''}
+              onChange={(e) => update({ toDecade: parseNumber(e.target.value) })}
+              className={fieldClassName}
+            >
+              <option value="">Any</option>
+              {DECADES.map(decade => (
+                <option key={decade} value={decade}>{decade}s</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="flex flex-col gap-1 text-gray-400">
+            Original language
+            <select
+              value={languageIndex}
+              onChange={(e) => {
+                const option = LANGUAGE_OPTIONS[Number(e.target.value)];
+                update({ originalLanguage: option.originalLanguage, excludedLanguage: option.excludedLanguage });
+              }}
+              className={fieldClassName}
+            >
+              {LANGUAGE_OPTIONS.map((option, index) => (
+                <option key={option.label} value={index}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 text-gray-400">
+            Max certification
+            <select
+              value={filters.maxCertification ?? ''}
+              onChange={(e) => update({ maxCertification: (e.target.value || undefined) as Certification | undefined })}
+              className={fieldClassName}
+            >
+              <option value="">Any</option>
+              {CERTIFICATIONS.map(certification => (
+                <option key={certification} value={certification}>{certification}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="flex flex-col gap-1 text-gray-400">
+            Min TMDB rating
+            <select
+              value={filters.minVoteAverage ?? ''}
+              onChange={(e) => update({ minVoteAverage: parseNumber(e.target.value) })}
+              className={fieldClassName}
+            >
+              <option value="">Any</option>
+              {MIN_RATINGS.map(rating => (
+                <option key={rating} value={rating}>{rating}+</option>
+              ))}
+            </select>
+          </label>
+          <div className="flex items-end">
+            <button
+              onClick={() => onChange({})}
+              disabled={activeCount === 0}
+              className="w-full px-3 py-2 rounded-lg text-red-400 hover:text-red-300 hover:bg-white/5 transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+            >
+              Clear filters
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+'use client'
+import { useEffect, useState } from 'react';
+import { LuLayers } from 'react-icons/lu';
+import RetryImage from './ui/RetryImage';
+import WatchlistButton from './WatchlistButton';
+import { useAuth } from '@/contexts/AuthContext';
+import { fetchSimilarMedia } from '@/lib/recommendations';
+import { Media, MediaType } from '@/types/media';
+
+interface SimilarMediaRailProps {
+  mediaId: number;
+  mediaType: MediaType;
+  onSelect: (media: Media) => void;
+}
+
+export default function SimilarMediaRail({ mediaId, mediaType, onSelect }: SimilarMediaRailProps) {
+  const { user } = useAuth();
+  const [similar, setSimilar] = useState<Media[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Refetched when the viewer signs in or out, since signed-in results follow their taste
+  useEffect(() => {
+    const controller = new AbortController();
+    setIsLoading(true);
+    setSimilar([]);
+
+    fetchSimilarMedia(mediaType, mediaId, { signal: controller.signal })
+      .then(setSimilar)
+      .catch(error => {
+        if (error instanceof Error && error.name === 'AbortError') return;
+        console.error('Error fetching similar titles:', error);
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [mediaId, mediaType, user?.uid]);
+
+  if (!isLoading && similar.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      <h3 className="flex items-center gap-2 text-lg font-semibold text-white">
+        <LuLayers className="w-5 h-5 text-purple-400" />
+        More like this
+      </h3>
+      <div className="flex gap-3 overflow-x-auto pb-2 scrollbar-thin scrollbar-track-transparent scrollbar-thumb-white/20">
+        {isLoading
+          ? [...Array(6)].map((_, i) => (
+              <div key={i} className="w-32 sm:w-36 flex-shrink-0 animate-pulse">
+                <div className="aspect-[2/3] rounded-xl bg-white/10" />
+                <div className="h-4 mt-2 bg-white/10 rounded w-3/4" />
+              </div>
+            ))
+          : similar.map(media => (
+              <div key={media.id} className="w-32 sm:w-36 flex-shrink-0">
+                <button
+                  onClick={() => onSelect(media)}
+                  className="block w-full text-left group"
+                  aria-label={`Show details for ${media.title}`}
+                >
+                  <div className="relative aspect-[2/3] rounded-xl overflow-hidden bg-black/30 border border-white/10">
+                    {media.poster_path ? (
+                      <RetryImage
+                        src={`https://image.tmdb.org/t/p/w342${media.poster_path}`}
+                        alt={media.title}
+                        className="object-cover transition-transform duration-200 group-hover:scale-105"
+                        sizes="144px"
+                        fill
+                      />
+                    ) : (
+                      <div className="absolute inset-0 bg-gray-800 flex items-center justify-center p-2">
+                        <span className="text-gray-400 text-xs text-center">{media.title}</span>
+                      </div>
+                    )}
+                  </div>
+                  <p className="mt-2 text-sm text-white/90 line-clamp-2 group-hover:text-white">{media.title}</p>
+                </button>
+                <div className="mt-2">
+                  <WatchlistButton media={media} position="top" />
+                </div>
+              </div>
+            ))}
+      </div>
+    </div>
+  );
+}
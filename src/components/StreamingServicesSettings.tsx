@@ -0,0 +1,170 @@
+'use client'
+import { useState, useEffect } from 'react';
+import Image from 'next/image';
+import { motion } from 'framer-motion';
+import { LuCheck } from 'react-icons/lu';
+import clsx from 'clsx';
+import { Provider } from '@/types/media';
+import { useLocale } from '@/contexts/LocaleContext';
+import {
+  fetchRegionProviders,
+  fetchStreamingPreferences,
+  saveStreamingPreferences,
+  StreamingPreferences,
+} from '@/lib/streamingServices';
+
+// Providers shown before "Show all", the rest are rarely used
+const INITIAL_PROVIDER_COUNT = 24;
+
+export default function StreamingServicesSettings() {
+  // The region is chosen in LocaleSettings, providers are listed for it
+  const { locale, region } = useLocale();
+  const [preferences, setPreferences] = useState<StreamingPreferences | null>(null);
+  const [providers, setProviders] = useState<Provider[]>([]);
+  const [showAll, setShowAll] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isDirty, setIsDirty] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchStreamingPreferences()
+      .then(setPreferences)
+      .catch(error => {
+        console.error('Error loading streaming services:', error);
+        setError('Could not load your streaming services');
+      });
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchRegionProviders(region, locale)
+      .then(regionProviders => {
+        if (!cancelled) setProviders(regionProviders);
+      })
+      .catch(error => console.error('Error loading providers:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [region, locale]);
+
+  const updatePreferences = (changes: Partial<StreamingPreferences>) => {
+    setPreferences(prev => (prev ? { ...prev, ...changes } : prev));
+    setIsDirty(true);
+  };
+
+  const toggleService = (providerId: number) => {
+    if (!preferences) return;
+    const services = preferences.services.includes(providerId)
+      ? preferences.services.filter(id => id !== providerId)
+      : [...preferences.services, providerId];
+    updatePreferences({ services });
+  };
+
+  const handleSave = async () => {
+    if (!preferences) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      setPreferences(await saveStreamingPreferences({ ...preferences, region }));
+      setIsDirty(false);
+    } catch (error) {
+      console.error('Error saving streaming services:', error);
+      setError('Could not save your streaming services');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Subscribed services first so they stay visible when the list is collapsed
+  const sortedProviders = preferences
+    ? [
+        ...providers.filter(provider => preferences.services.includes(provider.provider_id)),
+        ...providers.filter(provider => !preferences.services.includes(provider.provider_id)),
+      ]
+    : providers;
+  const visibleProviders = showAll ? sortedProviders : sortedProviders.slice(0, INITIAL_PROVIDER_COUNT);
+
+  return (
+    <motion.div
+      layout="position"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.3 }}
+      className="relative rounded-2xl bg-white/5 backdrop-blur-lg border border-white/10 p-8"
+    >
+      <div className="flex flex-col gap-6">
+        <div>
+          <h2 className="text-2xl font-bold bg-gradient-to-r from-white to-gray-300 bg-clip-text text-transparent">
+            My Streaming Services
+          </h2>
+          <p className="text-sm text-gray-400 mt-1">
+            Used to show where titles stream and to filter to what you can watch
+          </p>
+        </div>
+
+        {error && (
+          <div className="bg-red-500/10 text-red-400 px-4 py-3 rounded-xl text-sm">{error}</div>
+        )}
+
+        {!preferences ? (
+          <div className="grid grid-cols-4 sm:grid-cols-6 md:grid-cols-8 gap-3">
+            {[...Array(8)].map((_, i) => (
+              <div key={i} className="aspect-square rounded-xl bg-white/10 animate-pulse" />
+            ))}
+          </div>
+        ) : (
+          <div className="grid grid-cols-4 sm:grid-cols-6 md:grid-cols-8 gap-3">
+            {visibleProviders.map(provider => {
+              const isSelected = preferences.services.includes(provider.provider_id);
+              return (
+                <button
+                  key={provider.provider_id}
+                  onClick={() => toggleService(provider.provider_id)}
+                  className={clsx(
+                    'relative aspect-square rounded-xl overflow-hidden border-2 transition-all touch-manipulation',
+                    isSelected ? 'border-purple-400' : 'border-transparent opacity-60 hover:opacity-100'
+                  )}
+                  title={provider.provider_name}
+                  aria-pressed={isSelected}
+                >
+                  <Image
+                    src={`https://image.tmdb.org/t/p/w92${provider.logo_path}`}
+                    alt={provider.provider_name}
+                    fill
+                    className="object-cover"
+                    sizes="92px"
+                  />
+                  {isSelected && (
+                    <div className="absolute top-1 right-1 bg-purple-500 rounded-full p-0.5">
+                      <LuCheck className="w-3 h-3 text-white" />
+                    </div>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="flex items-center justify-between gap-4">
+          {sortedProviders.length > INITIAL_PROVIDER_COUNT ? (
+            <button
+              onClick={() => setShowAll(!showAll)}
+              className="text-sm text-gray-400 hover:text-white transition-colors"
+            >
+              {showAll ? 'Show fewer' : `Show all ${sortedProviders.length} services`}
+            </button>
+          ) : <span />}
+          <button
+            onClick={handleSave}
+            disabled={!isDirty || isSaving}
+            className="h-10 bg-white/10 hover:bg-white/20 text-white px-4 rounded-lg disabled:opacity-50 transition-all active:scale-95 touch-manipulation text-sm"
+          >
+            {isSaving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </div>
+    </motion.div>
+  );
+}
@@ -3,11 +3,15 @@
 import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import Image from 'next/image';
+import Link from 'next/link';
 import { useAuth } from '@/contexts/AuthContext';
 import { fetchWithAuth } from '@/lib/api';
+import { fetchMediaDetailsBatch } from '@/lib/mediaDetails';
+import { getPersonUrl } from '@/lib/person';
 import { useWatchlist } from '@/contexts/WatchlistContext';
 import { LuChevronDown, LuUsers, LuFilm, LuTv, LuStar, LuClock } from 'react-icons/lu';
-import { fetchMediaDetails } from '@/lib/mediaUtils';
+import { getDecade, getDirectors, importanceMatch } from '@/lib/tasteScoring';
+import { MediaDetails } from '@/types/media';
 
 import StatCard from './ui/StatCard';
 
@@ -28,32 +32,6 @@ interface WatchlistEntry {
   updatedAt: string;
 }
 
-interface MediaDetails {
-  id: number;
-  title?: string;
-  name?: string;
-  genres?: Array<{ id: number; name: string }>;
-  credits?: {
-    cast?: Array<{
-      id: number;
-      name: string;
-      character?: string;
-      profile_path?: string | null;
-    }>;
-    crew?: Array<{
-      id: number;
-      name: string;
-      job?: string;
-      profile_path?: string | null;
-    }>;
-  };
-  release_date?: string;
-  first_air_date?: string;
-  runtime?: number;
-  episode_run_time?: number[];
-  number_of_episodes?: number;
-}
-
 interface Director {
   id: number;
   name: string;
@@ -83,6 +61,9 @@ interface TasteMatchData {
   tastePersonality: string;
 }
 
+// Director, creator and actor cards open the person's page
+const MotionLink = motion(Link);
+
 export default function TasteMatch({ userId }: TasteMatchProps) {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -141,35 +122,20 @@ export default function TasteMatch({ userId }: TasteMatchProps) {
           return;
         }
 
-        // Fetch details for user's watched media
-        const userMediaDetails = await Promise.all(
-          userWatchedEntries.map(async (entry) => {
-            try {
-              const mediaDetails = await fetchMediaDetails(entry.mediaType, entry.mediaId, {
-                appendToResponse: ['credits']
-              }); 
-              return { ...mediaDetails, userRating: entry.rating };
-            } catch (error) {
-              console.error(`Error fetching details for ${entry.mediaType} ${entry.mediaId}:`, error);
-              return null;
-            }
-          })
-        );
+        // Fetch details for both users' watched media in one batch, titles they share only once
+        const detailsByKey = await fetchMediaDetailsBatch([...userWatchedEntries, ...friendWatchedEntries], {
+          append: ['credits']
+        });
+        const getDetails = (entry: WatchlistEntry) => detailsByKey[`${entry.mediaType}:${entry.mediaId}`];
 
-        // Fetch details for friend's watched media
-        const friendMediaDetails = await Promise.all(
-          friendWatchedEntries.map(async (entry) => {
-            try {
-              const mediaDetails = await fetchMediaDetails(entry.mediaType, entry.mediaId, {
-                appendToResponse: ['credits']
-              });
-              return { ...mediaDetails, friendRating: entry.rating };
-            } catch (error) {
-              console.error(`Error fetching details for ${entry.mediaType} ${entry.mediaId}:`, error);
-              return null;
-            }
-          })
-        );
+        const userMediaDetails = userWatchedEntries.map(entry => {
+          const mediaDetails = getDetails(entry);
+          return mediaDetails ? { ...mediaDetails, userRating: entry.rating } : null;
+        });
+        const friendMediaDetails = friendWatchedEntries.map(entry => {
+          const mediaDetails = getDetails(entry);
+          return mediaDetails ? { ...mediaDetails, friendRating: entry.rating } : null;
+        });
 
         // Filter out failed requests
         const validUserMediaDetails = userMediaDetails.filter(Boolean) as (MediaDetails & { userRating: number | null })[];
@@ -236,37 +202,17 @@ export default function TasteMatch({ userId }: TasteMatchProps) {
       });
       
       // Process directors/creators
-      if (mediaType === 'movie') {
-        const directors = media.credits?.crew?.filter(person => person.job === 'Director') || [];
-        directors.forEach(director => {
-          if (!userDirectorCounts[director.id]) {
-            userDirectorCounts[director.id] = {
-              id: director.id,
-              name: director.name,
-              count: 0,
-              profilePath: director.profile_path || null
-            };
-          }
-          userDirectorCounts[director.id].count++;
-        });
-      } else {
-        const creators = media.credits?.crew?.filter(person => 
-          person.job === 'Creator' || 
-          person.job === 'Executive Producer' || 
-          person.job === 'Showrunner'
-        ) || [];
-        creators.forEach(creator => {
-          if (!userDirectorCounts[creator.id]) {
-            userDirectorCounts[creator.id] = {
-              id: creator.id,
-              name: creator.name,
-              count: 0,
-              profilePath: creator.profile_path || null
-            };
-          }
-          userDirectorCounts[creator.id].count++;
-        });
-      }
+      getDirectors(media.credits?.crew, mediaType).forEach(director => {
+        if (!userDirectorCounts[director.id]) {
+          userDirectorCounts[director.id] = {
+            id: director.id,
+            name: director.name,
+            count: 0,
+            profilePath: director.profile_path || null
+          };
+        }
+        userDirectorCounts[director.id].count++;
+      });
       
       // Process actors
       const actors = media.credits?.cast?.slice(0, 5) || []; // Consider top 5 actors
@@ -283,10 +229,8 @@ export default function TasteMatch({ userId }: TasteMatchProps) {
       });
       
       // Process decade
-      const releaseDate = mediaType === 'movie' ? media.release_date : media.first_air_date;
-      if (releaseDate) {
-        const year = new Date(releaseDate).getFullYear();
-        const decade = Math.floor(year / 10) * 10 + 's';
+      const decade = getDecade(media.media_type === 'movie' ? media.release_date : media.first_air_date);
+      if (decade) {
         if (!userDecadeCounts[decade]) {
           userDecadeCounts[decade] = 0;
         }
@@ -313,37 +257,17 @@ export default function TasteMatch({ userId }: TasteMatchProps) {
       });
       
       // Process directors/creators
-      if (mediaType === 'movie') {
-        const directors = media.credits?.crew?.filter(person => person.job === 'Director') || [];
-        directors.forEach(director => {
-          if (!friendDirectorCounts[director.id]) {
-            friendDirectorCounts[director.id] = {
-              id: director.id,
-              name: director.name,
-              count: 0,
-              profilePath: director.profile_path || null
-            };
-          }
-          friendDirectorCounts[director.id].count++;
-        });
-      } else {
-        const creators = media.credits?.crew?.filter(person => 
-          person.job === 'Creator' || 
-          person.job === 'Executive Producer' || 
-          person.job === 'Showrunner'
-        ) || [];
-        creators.forEach(creator => {
-          if (!friendDirectorCounts[creator.id]) {
-            friendDirectorCounts[creator.id] = {
-              id: creator.id,
-              name: creator.name,
-              count: 0,
-              profilePath: creator.profile_path || null
-            };
-          }
-          friendDirectorCounts[creator.id].count++;
-        });
-      }
+      getDirectors(media.credits?.crew, mediaType).forEach(director => {
+        if (!friendDirectorCounts[director.id]) {
+          friendDirectorCounts[director.id] = {
+            id: director.id,
+            name: director.name,
+            count: 0,
+            profilePath: director.profile_path || null
+          };
+        }
+        friendDirectorCounts[director.id].count++;
+      });
       
       // Process actors
       const actors = media.credits?.cast?.slice(0, 5) || []; // Consider top 5 actors
@@ -360,10 +284,8 @@ export default function TasteMatch({ userId }: TasteMatchProps) {
       });
       
       // Process decade
-      const releaseDate = mediaType === 'movie' ? media.release_date : media.first_air_date;
-      if (releaseDate) {
-        const year = new Date(releaseDate).getFullYear();
-        const decade = Math.floor(year / 10) * 10 + 's';
+      const decade = getDecade(media.media_type === 'movie' ? media.release_date : media.first_air_date);
+      if (decade) {
         if (!friendDecadeCounts[decade]) {
           friendDecadeCounts[decade] = 0;
         }
@@ -386,7 +308,7 @@ export default function TasteMatch({ userId }: TasteMatchProps) {
         const friendImportance = friendCount / totalFriendGenres;
         
         // Calculate match score based on how similar their preferences are
-        const matchScore = 100 - (Math.abs(userImportance - friendImportance) * 100);
+        const matchScore = importanceMatch(userImportance, friendImportance);
         
         return {
           id: numId,
@@ -418,7 +340,7 @@ export default function TasteMatch({ userId }: TasteMatchProps) {
         const friendImportance = friendCount / totalFriendDirectors;
         
         // Calculate match score
-        const matchScore = 100 - (Math.abs(userImportance - friendImportance) * 100);
+        const matchScore = importanceMatch(userImportance, friendImportance);
         
         return {
           ...userDirectorCounts[numId],
@@ -447,7 +369,7 @@ export default function TasteMatch({ userId }: TasteMatchProps) {
         const friendImportance = friendCount / totalFriendActors;
         
         // Calculate match score
-        const matchScore = 100 - (Math.abs(userImportance - friendImportance) * 100);
+        const matchScore = importanceMatch(userImportance, friendImportance);
         
         return {
           ...userActorCounts[numId],
@@ -477,7 +399,7 @@ export default function TasteMatch({ userId }: TasteMatchProps) {
       const friendImportance = totalFriendDecades > 0 ? friendCount / totalFriendDecades : 0;
       
       // Calculate match score
-      const matchScore = 100 - (Math.abs(userImportance - friendImportance) * 100);
+      const matchScore = importanceMatch(userImportance, friendImportance);
       
       decadePreferences[decade] = {
         user: userCount,
@@ -516,8 +438,8 @@ export default function TasteMatch({ userId }: TasteMatchProps) {
         return {
           mediaId: userMedia.id,
           mediaType,
-          title: mediaType === 'movie' ? userMedia.title || '' : userMedia.name || '',
-          posterPath: (userMedia as { poster_path?: string }).poster_path || null,
+          title: userMedia.title,
+          posterPath: userMedia.poster_path || null,
           userRating,
           friendRating
         };
@@ -819,8 +741,9 @@ export default function TasteMatch({ userId }: TasteMatchProps) {
                 </h3>
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
                   {tasteMatchData.commonDirectors.map((director, index) => (
-                    <motion.div
+                    <MotionLink
                       key={director.id}
+                      href={getPersonUrl(director.id)}
                       initial={{ scale: 0.8, opacity: 0 }}
                       animate={{ scale: 1, opacity: 1 }}
                       transition={{ delay: index * 0.1 }}
@@ -848,7 +771,7 @@ export default function TasteMatch({ userId }: TasteMatchProps) {
                           {Math.round(director.matchScore)}% match
                         </div>
                       </div>
-                    </motion.div>
+                    </MotionLink>
                   ))}
                 </div>
               </motion.div>
@@ -864,8 +787,9 @@ export default function TasteMatch({ userId }: TasteMatchProps) {
                 <h3 className="text-xl font-semibold mb-4">Shared Favorite Actors</h3>
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
                   {tasteMatchData.commonActors.map((actor, index) => (
-                    <motion.div
+                    <MotionLink
                       key={actor.id}
+                      href={getPersonUrl(actor.id)}
                       initial={{ scale: 0.8, opacity: 0 }}
                       animate={{ scale: 1, opacity: 1 }}
                       transition={{ delay: index * 0.1 }}
@@ -893,7 +817,7 @@ export default function TasteMatch({ userId }: TasteMatchProps) {
                           {Math.round(actor.matchScore)}% match
                         </div>
                       </div>
-                    </motion.div>
+                    </MotionLink>
                   ))}
                 </div>
               </motion.div>
@@ -11,6 +11,8 @@ import MediaDetailsModal from '@/components/MediaDetailsModal';
 import { fetchWithRetry } from '@/lib/retryUtils';
 import WatchlistButton from './WatchlistButton';
 import UserStats from './UserStats';
+import StreamingServicesSettings from './StreamingServicesSettings';
+import LocaleSettings from './LocaleSettings';
 import Link from 'next/link';
 import clsx from 'clsx';
 
@@ -498,6 +500,12 @@ export default function UserProfile() {
           <UserStats />
         </motion.div>
 
+        {/* Language & Region Section */}
+        <LocaleSettings />
+
+        {/* Streaming Services Section */}
+        <StreamingServicesSettings />
+
         {/* Watchlist Section */}
         <motion.div
           layout="position"
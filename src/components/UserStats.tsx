@@ -5,9 +5,11 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { useWatchlist } from '@/contexts/WatchlistContext';
 import { LuChevronDown, LuClock, LuTrendingUp, LuActivity, LuStar, LuFilm, LuTv } from 'react-icons/lu';
 import Image from 'next/image';
+import Link from 'next/link';
 import { fetchWithAuth } from '@/lib/api';
-import { MovieDetails, TVShowDetails } from '@/types/media';
-import { fetchMediaDetails } from '@/lib/mediaUtils';
+import { fetchMediaDetailsBatch } from '@/lib/mediaDetails';
+import { getPersonUrl } from '@/lib/person';
+import { getDirectors } from '@/lib/tasteScoring';
 
 // Create motion components
 // const MotionImage = motion.create(Image);
@@ -34,33 +36,6 @@ interface Director {
   profilePath: string | null;
 }
 
-// Extended media details interface that includes properties from both movie and TV show types
-interface ExtendedMediaDetails {
-  id: number;
-  genres?: Array<{ id: number; name: string }>;
-  credits?: {
-    crew?: Array<{
-      id: number;
-      name: string;
-      job: string;
-      profile_path: string | null;
-    }>;
-    cast?: Array<{
-      id: number;
-      name: string;
-      character?: string;
-      profile_path?: string | null;
-    }>;
-  };
-  runtime?: number;
-  episode_run_time?: number[];
-  number_of_episodes?: number;
-  name?: string;
-  title?: string;
-  media_type?: 'movie' | 'tv';
-  error?: string;
-}
-
 interface UserStats {
   totalMovies: number;
   totalShows: number;
@@ -92,6 +67,9 @@ type MediaType = 'movie' | 'tv';
 // Import the shared StatCard component
 import StatCard from './ui/StatCard';
 
+// Director, creator and actor cards open the person's page
+const MotionLink = motion(Link);
+
 interface UserStatsProps {
   userId?: string;
 }
@@ -183,20 +161,9 @@ export default function UserStats({ userId }: UserStatsProps) {
           return;
         }
 
-        // Fetch details for the selected media type
-        const mediaDetails = await Promise.all(
-          watchedEntries.map(async (entry) => {
-            try {
-              const mediaDetails = await fetchMediaDetails<ExtendedMediaDetails>(entry.mediaType, entry.mediaId, {
-                appendToResponse: ['credits']
-              }); 
-              return mediaDetails;
-            } catch (error) {
-              console.error(`Error fetching details for ${entry.mediaType} ${entry.mediaId}:`, error);
-              return null;
-            }
-          })
-        );
+        // Fetch details for the selected media type in one batch
+        const detailsByKey = await fetchMediaDetailsBatch(watchedEntries, { append: ['credits'] });
+        const mediaDetails = watchedEntries.map(entry => detailsByKey[`${entry.mediaType}:${entry.mediaId}`] || null);
 
         // Filter out failed requests
         const validMediaDetails = mediaDetails.filter((detail): detail is NonNullable<typeof detail> => detail !== null);
@@ -263,57 +230,34 @@ export default function UserStats({ userId }: UserStatsProps) {
           watchTimeByMonth[month] = 0;
         });
 
-        validMediaDetails.forEach((media: ExtendedMediaDetails, index: number) => {
+        validMediaDetails.forEach((media, index) => {
           // Process genres
-          media.genres?.forEach((genre: { id: number; name: string }) => {
+          media.genres.forEach(genre => {
             if (!genreCounts[genre.id]) {
               genreCounts[genre.id] = { id: genre.id, name: genre.name, count: 0 };
             }
             genreCounts[genre.id].count++;
           });
 
-          // Process creators and TV show specific stats
-          if (selectedMediaType === 'movie') {
-            const directors = (media.credits?.crew?.filter((person: { job: string; id: number; name: string; profile_path: string | null }) => 
-              person.job === 'Director'
-            ) || []).map((director: { id: number; name: string; profile_path: string | null }) => ({
-              id: director.id,
-              name: director.name,
-              count: 1,
-              profilePath: director.profile_path
-            }));
-            directors.forEach(director => {
-              if (!creatorCounts[director.id]) {
-                creatorCounts[director.id] = {
-                  id: director.id,
-                  name: director.name,
-                  count: 0,
-                  profilePath: director.profilePath
-                };
-              }
-              creatorCounts[director.id].count++;
-            });
-          } else {
-            const creators = media.credits?.crew?.filter((person: { job: string; id: number; name: string; profile_path: string | null }) => 
-              person.job === 'Creator' || 
-              person.job === 'Executive Producer' || 
-              person.job === 'Showrunner'
-            ) || [];
-            creators.forEach((creator: { id: number; name: string; profile_path: string | null }) => {
-              if (!creatorCounts[creator.id]) {
-                creatorCounts[creator.id] = {
-                  id: creator.id,
-                  name: creator.name,
-                  count: 0,
-                  profilePath: creator.profile_path
-                };
-              }
-              creatorCounts[creator.id].count++;
-            });
+          // Process directors (or show creators)
+          getDirectors(media.credits?.crew, media.media_type).forEach(director => {
+            if (!creatorCounts[director.id]) {
+              creatorCounts[director.id] = {
+                id: director.id,
+                name: director.name,
+                count: 0,
+                profilePath: director.profile_path
+              };
+            }
+            creatorCounts[director.id].count++;
+          });
+
+          // TV show specific stats
+          if (media.media_type === 'tv') {
             const episodeCount = media.number_of_episodes ?? 0;
             if (episodeCount > longestShow.episodes) {
               longestShow = {
-                title: media.name ?? 'Unknown Show',
+                title: media.name,
                 episodes: episodeCount
               };
             }
@@ -332,7 +276,7 @@ export default function UserStats({ userId }: UserStatsProps) {
             ? new Date(entry.updatedAt).getTime()
             : new Date(entry.createdAt).getTime();
 
-          const runtime = selectedMediaType === 'movie' ? 
+          const runtime = media.media_type === 'movie' ? 
             (media.runtime || 0) : 
             ((media.episode_run_time?.[0] || 0) * (media.number_of_episodes || 0));
 
@@ -358,9 +302,9 @@ export default function UserStats({ userId }: UserStatsProps) {
           });
 
           // Process decade counts - use the media's release date or first air date
-          const releaseDate = selectedMediaType === 'movie' ? 
-            (media as MovieDetails).release_date : 
-            (media as TVShowDetails).first_air_date;
+          const releaseDate = media.media_type === 'movie' ? 
+            media.release_date : 
+            media.first_air_date;
             
           if (releaseDate) {
             const year = new Date(releaseDate).getFullYear();
@@ -726,8 +670,9 @@ export default function UserStats({ userId }: UserStatsProps) {
                 </h3>
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
                   {(selectedMediaType === 'movie' ? stats.topDirectors : stats.topShowCreators).map((creator, index) => (
-                    <motion.div
+                    <MotionLink
                       key={creator.id}
+                      href={getPersonUrl(creator.id)}
                       initial={{ scale: 0.8, opacity: 0 }}
                       animate={{ scale: 1, opacity: 1 }}
                       transition={{ delay: index * 0.1 }}
@@ -757,7 +702,7 @@ export default function UserStats({ userId }: UserStatsProps) {
                             (selectedMediaType === 'movie' ? 'movies' : 'shows')}
                         </div>
                       </div>
-                    </motion.div>
+                    </MotionLink>
                   ))}
                 </div>
               </motion.div>
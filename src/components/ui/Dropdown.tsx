@@ -74,7 +74,8 @@ export default function Dropdown({
         width: `${triggerRect.width}px`,
         maxHeight: `${maxHeight}px`,
         minWidth: '200px',
-        zIndex: 100
+        // Above MediaDetailsModal, which can contain dropdown triggers
+        zIndex: 1200
       });
     };
 
@@ -111,6 +112,7 @@ export default function Dropdown({
       {isOpen && mounted && (
           <motion.div
           ref={dropdownRef}
+          data-dropdown
           initial={{ opacity: 0, y: position === 'top' ? 10 : -10, scale: 0.95 }}
           animate={{ opacity: 1, y: 0, scale: 1 }}
           exit={{ opacity: 0, y: position === 'top' ? 10 : -10, scale: 0.95 }}
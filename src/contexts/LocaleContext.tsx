@@ -0,0 +1,60 @@
+'use client'
+import { createContext, useContext, useEffect, useState } from 'react';
+import { useAuth } from './AuthContext';
+import {
+  DEFAULT_LOCALE_PREFERENCES,
+  fetchLocalePreferences,
+  LocalePreferences,
+  saveLocalePreferences,
+} from '@/lib/localePreferences';
+
+interface LocaleContextType extends LocalePreferences {
+  // Save a new language or region, shown right away and rolled back if saving fails
+  updateLocalePreferences: (changes: Partial<LocalePreferences>) => Promise<void>;
+}
+
+const LocaleContext = createContext<LocaleContextType>({
+  ...DEFAULT_LOCALE_PREFERENCES,
+  updateLocalePreferences: async () => {},
+});
+
+export function LocaleProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const [preferences, setPreferences] = useState<LocalePreferences>(DEFAULT_LOCALE_PREFERENCES);
+
+  // Signed-out visitors get the defaults, signed-in users their saved preferences
+  useEffect(() => {
+    setPreferences(DEFAULT_LOCALE_PREFERENCES);
+    if (!user) return;
+
+    let cancelled = false;
+    fetchLocalePreferences()
+      .then(saved => {
+        if (!cancelled) setPreferences(saved);
+      })
+      .catch(error => console.error('Error loading language and region:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  const updateLocalePreferences = async (changes: Partial<LocalePreferences>) => {
+    const previous = preferences;
+    setPreferences({ ...preferences, ...changes });
+    try {
+      setPreferences(await saveLocalePreferences({ ...preferences, ...changes }));
+    } catch (error) {
+      setPreferences(previous);
+      throw error;
+    }
+  };
+
+  return (
+    <LocaleContext.Provider value={{ ...preferences, updateLocalePreferences }}>
+      {children}
+    </LocaleContext.Provider>
+  );
+}
+
+export const useLocale = () => useContext(LocaleContext);
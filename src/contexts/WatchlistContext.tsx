@@ -3,7 +3,7 @@
 import { createContext, useContext, useState, useEffect, useCallback } from 'react'
 import { useAuth } from './AuthContext'
 import { WatchStatus } from '@/lib/prismaTypes'
-import { fetchWithAuth } from '@/lib/api'
+import { fetchWithAuth, tmdbProxy } from '@/lib/api'
 
 export interface WatchlistEntry {
   id: string
@@ -257,14 +257,12 @@ export function WatchlistProvider({ children }: { children: React.ReactNode }) {
       adding: [...prev.adding, media.id]
     }))
 
-    // Fetch media details to get genres
+    // Fetch media details to get genres, left in the default language since they are stored and
+    // matched against other users' entries
     let genres: string[] = [];
     try {
-      interface MediaDetails {
-        genres: Array<{ name: string }>;
-      }
-      const mediaDetails = await fetchWithAuth<MediaDetails>(`/api/tmdb?path=/${media.media_type}/${media.id}`);
-      genres = mediaDetails.genres?.map(g => g.name) || [];
+      const mediaDetails = await tmdbProxy.details(media.media_type, media.id);
+      genres = mediaDetails.genres.map(g => g.name);
     } catch (error) {
       console.error('Error fetching media details:', error);
     }
@@ -1,5 +1,6 @@
 import { auth } from './firebase';
 import { fetchWithRetry } from './retryUtils';
+import { createTMDBClient } from './tmdbClient';
 
 export class AuthenticationError extends Error {
   constructor(message: string) {
@@ -73,4 +74,34 @@ export async function fetchWithAuth<T = unknown>(url: string, options: RequestIn
     }
     throw error;
   }
-} 
\ No newline at end of file
+} 
+
+/**
+ * Fetch a TMDB path through the /api/tmdb proxy.
+ * The path is encoded so its own query string survives, and the user's token is
+ * attached when signed in since signed-out callers are rate limited.
+ * @param path The TMDB path including its query string, e.g. `/search/movie?query=Heat`
+ */
+export async function fetchFromTMDBProxy<T = unknown>(
+  path: string,
+  options: { signal?: AbortSignal } = {}
+): Promise<T> {
+  const token = await auth.currentUser?.getIdToken();
+
+  const response = await fetch(`/api/tmdb?path=${encodeURIComponent(path)}`, {
+    headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+    signal: options.signal,
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `Failed to fetch ${path}: ${response.status}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Typed TMDB client for the browser, reading through the /api/tmdb proxy
+ */
+export const tmdbProxy = createTMDBClient(fetchFromTMDBProxy);
@@ -53,4 +53,10 @@ export function unauthorizedResponse(): NextResponse {
 
 export function badRequestResponse(message: string): NextResponse {
   return errorResponse(message, 400);
+}
+
+export function tooManyRequestsResponse(retryAfter: number): NextResponse {
+  const response = errorResponse('Too many requests, please try again later', 429);
+  response.headers.set('Retry-After', String(retryAfter));
+  return response;
 } 
\ No newline at end of file
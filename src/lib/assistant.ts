@@ -0,0 +1,65 @@
+import { Media } from '@/types/media';
+import { RecommendationConversation, RecommendationMediaType } from '@/types/recommendation';
+import { auth } from './firebase';
+import type { RecommendationFilters } from './validationSchemas';
+
+export type ConversationStartParams =
+  | { sessionId: string }
+  | {
+    message: string;
+    selectedMedia?: Media[];
+    mediaType: RecommendationMediaType;
+    useTaste?: boolean;
+    onlyMyServices?: boolean;
+    filters?: RecommendationFilters;
+  };
+
+/**
+ * Call a conversation endpoint, attaching the user's token when signed in
+ * so their conversations stay private to them
+ */
+async function requestConversation(url: string, init: RequestInit = {}): Promise<RecommendationConversation> {
+  const token = await auth.currentUser?.getIdToken();
+
+  const response = await fetch(url, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token && { Authorization: `Bearer ${token}` }),
+    },
+  });
+  const body = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    throw new Error(body?.error || `Conversation request failed: ${response.status}`);
+  }
+
+  return body.data;
+}
+
+/**
+ * Start a recommendation chat with an opening message, or from a saved session's results
+ */
+export function startConversation(params: ConversationStartParams): Promise<RecommendationConversation> {
+  return requestConversation('/api/recommendations/conversations', {
+    method: 'POST',
+    body: JSON.stringify(params),
+  });
+}
+
+/**
+ * Load a conversation's messages and latest results
+ */
+export function fetchConversation(conversationId: string): Promise<RecommendationConversation> {
+  return requestConversation(`/api/recommendations/conversations/${encodeURIComponent(conversationId)}`);
+}
+
+/**
+ * Refine a conversation's results with a follow-up such as "darker" or "more like #3"
+ */
+export function sendConversationMessage(conversationId: string, message: string): Promise<RecommendationConversation> {
+  return requestConversation(`/api/recommendations/conversations/${encodeURIComponent(conversationId)}`, {
+    method: 'POST',
+    body: JSON.stringify({ message }),
+  });
+}
@@ -45,4 +45,15 @@ export async function authenticateRequest(request: Request): Promise<
       ),
     };
   }
-} 
\ No newline at end of file
+} 
+
+/**
+ * Identify the caller when they sent a token, without requiring one
+ * @returns The user, or null for anonymous callers and invalid tokens
+ */
+export async function getOptionalUser(request: Request): Promise<AuthenticatedRequest['user'] | null> {
+  if (!request.headers.get('Authorization')) return null;
+
+  const auth = await authenticateRequest(request);
+  return auth.success ? auth.user : null;
+}
@@ -0,0 +1,234 @@
+import { after } from 'next/server';
+import { createMemoryCache } from './memoryCache';
+import { createRedisCache } from './redisCache';
+import { redis } from './redis';
+import { MediaType } from '@/types/media';
+
+export interface CacheSetOptions {
+  // Seconds until the entry expires
+  ttl: number;
+  // Groups the entry can be invalidated by, see cacheTags
+  tags?: string[];
+}
+
+/**
+ * Where cached values live: Redis in production, an in-process LRU in development and tests
+ */
+export interface CacheBackend {
+  get<T>(key: string): Promise<T | null>;
+  set<T>(key: string, value: T, options: CacheSetOptions): Promise<void>;
+  // Both invalidations resolve to the number of keys removed
+  invalidateTags(tags: string[]): Promise<number>;
+  invalidatePattern(pattern: string): Promise<number>;
+  // Count within a window that starts with the first increment, for rate limiting
+  increment(key: string, ttl: number): Promise<number>;
+}
+
+export type CacheStatus = 'HIT' | 'STALE' | 'MISS';
+
+export interface CachedResult<T> {
+  data: T;
+  status: CacheStatus;
+  // Seconds since the data was fetched
+  age: number;
+}
+
+interface StaleWhileRevalidateEntry<T> {
+  data: T;
+  storedAt: number;
+}
+
+// Default TTL values (in seconds)
+export const CACHE_TTL = {
+  TMDB: 60 * 60 * 24, // 24 hours for TMDB data
+  FEED: 60 * 5, // 5 minutes for feed data
+  PROFILE: 60 * 15, // 15 minutes for profile data
+  RECOMMENDATIONS: 60 * 60 * 3, // 3 hours for recommendations
+  WATCHLIST: 60 * 10, // 10 minutes for watchlist data
+};
+
+// Plenty for a development server, each entry is one API response
+const MEMORY_CACHE_MAX_ENTRIES = 1000;
+
+// Seconds a background refresh holds its lock, so a burst of stale reads refreshes once
+const REVALIDATE_LOCK_TTL = 60;
+
+/**
+ * Tags for invalidating related cache entries together instead of matching their keys
+ */
+export const cacheTags = {
+  // A user's own lists, e.g. their watchlist and history
+  user: (userId: string) => `user:${userId}`,
+  // A user's activity feed
+  feed: (userId: string) => `feed:${userId}`,
+  // Recommendations tailored to a user, kept apart since regenerating them costs a model call
+  recommendations: (userId: string) => `recommendations:${userId}`,
+  // TMDB responses about a title
+  media: (mediaType: MediaType, mediaId: number) => `media:${mediaType}:${mediaId}`,
+};
+
+const globalForCache = global as unknown as { cacheBackend?: CacheBackend };
+
+/**
+ * Pick the backend from CACHE_BACKEND ('redis' or 'memory') when set, otherwise use memory
+ * outside production and Redis in production, unless Redis is not configured
+ */
+const createCacheBackend = (): CacheBackend => {
+  const configured = process.env.CACHE_BACKEND;
+  const useRedis = configured
+    ? configured === 'redis'
+    : process.env.NODE_ENV === 'production';
+
+  if (useRedis && redis) {
+    return createRedisCache(redis);
+  }
+  if (useRedis) {
+    console.warn(
+      'UPSTASH_REDIS_REST_URL and UPSTASH_REDIS_REST_TOKEN are not set, caching in memory instead of Redis.'
+    );
+  }
+  return createMemoryCache(MEMORY_CACHE_MAX_ENTRIES);
+};
+
+// Kept on the global object so the in-memory cache survives hot reloads in development
+export const cache = globalForCache.cacheBackend || createCacheBackend();
+
+if (process.env.NODE_ENV !== 'production') globalForCache.cacheBackend = cache;
+
+// Helper function to generate cache keys
+export function generateCacheKey(prefix: string, params: Record<string, string | number | boolean | object>): string {
+  const sortedParams = Object.entries(params)
+    .filter(([, value]) => value !== undefined && value !== null)
+    .sort(([keyA], [keyB]) => keyA.localeCompare(keyB));
+
+  const paramsString = sortedParams
+    .map(([key, value]) => `${key}=${typeof value === 'object' ? JSON.stringify(value) : value}`)
+    .join('&');
+
+  return `${prefix}:${paramsString}`;
+}
+
+// Cache middleware for API routes
+export async function withCache<T>(
+  cacheKey: string,
+  ttl: number,
+  fetchData: () => Promise<T>,
+  options: { tags?: string[] } = {}
+): Promise<T> {
+  const cachedData = await getCachedValue<T>(cacheKey);
+
+  if (cachedData) {
+    console.log(`Cache hit for key: ${cacheKey}`);
+    return cachedData;
+  }
+
+  // If not in cache, fetch data
+  console.log(`Cache miss for key: ${cacheKey}`);
+  const data = await fetchData();
+
+  await setCachedValue(cacheKey, data, ttl, options);
+
+  return data;
+}
+
+// Run work after the response in route handlers, elsewhere (e.g. scripts) just start it
+const runInBackground = (task: () => Promise<void>) => {
+  try {
+    after(task);
+  } catch {
+    void task();
+  }
+};
+
+/**
+ * Cache with stale-while-revalidate: data younger than `ttl` is served as is, data up to `staleTtl`
+ * past that is served immediately while a background fetch refreshes it, anything older is fetched.
+ * @param options.signal Aborts a fetch the caller waits for, background refreshes outlive the caller
+ * @returns The data with whether it came from the cache, and how old it is
+ */
+export async function withStaleWhileRevalidate<T>(
+  cacheKey: string,
+  { ttl, staleTtl, tags, signal }: CacheSetOptions & { staleTtl: number; signal?: AbortSignal },
+  fetchData: (signal?: AbortSignal) => Promise<T>
+): Promise<CachedResult<T>> {
+  const fetchAndStore = async (signal?: AbortSignal) => {
+    const data = await fetchData(signal);
+    await setCachedValue<StaleWhileRevalidateEntry<T>>(cacheKey, { data, storedAt: Date.now() }, ttl + staleTtl, { tags });
+    return data;
+  };
+
+  const cached = await getCachedValue<StaleWhileRevalidateEntry<T>>(cacheKey);
+  // Entries written by withCache under the same key hold the bare data, so they count as misses
+  if (!cached || typeof cached.storedAt !== 'number') {
+    return { data: await fetchAndStore(signal), status: 'MISS', age: 0 };
+  }
+
+  const age = Math.max(0, Math.floor((Date.now() - cached.storedAt) / 1000));
+  if (age < ttl) {
+    return { data: cached.data, status: 'HIT', age };
+  }
+
+  runInBackground(async () => {
+    try {
+      if (await cache.increment(`revalidate:${cacheKey}`, REVALIDATE_LOCK_TTL) > 1) return;
+      await fetchAndStore();
+    } catch (error) {
+      console.error(`Cache revalidation error for key ${cacheKey}:`, error);
+    }
+  });
+
+  return { data: cached.data, status: 'STALE', age };
+}
+
+// Read a cached value for callers that cannot wrap their work in withCache (e.g. streams)
+export async function getCachedValue<T>(cacheKey: string): Promise<T | null> {
+  try {
+    return await cache.get<T>(cacheKey);
+  } catch (error) {
+    console.error(`Cache read error for key ${cacheKey}:`, error);
+    return null;
+  }
+}
+
+// Store a value computed outside of withCache
+export async function setCachedValue<T>(
+  cacheKey: string,
+  data: T,
+  ttl: number,
+  options: { tags?: string[] } = {}
+): Promise<void> {
+  try {
+    await cache.set(cacheKey, data, { ttl, tags: options.tags });
+  } catch (error) {
+    console.error(`Cache write error for key ${cacheKey}:`, error);
+  }
+}
+
+/**
+ * Drop every entry stored with any of the tags
+ */
+export async function invalidateTags(...tags: string[]): Promise<void> {
+  try {
+    const count = await cache.invalidateTags(tags);
+    if (count > 0) {
+      console.log(`Invalidated ${count} cache keys tagged: ${tags.join(', ')}`);
+    }
+  } catch (error) {
+    console.error(`Error invalidating cache for tags ${tags.join(', ')}:`, error);
+  }
+}
+
+/**
+ * Drop every entry whose key matches a glob pattern, for entries that have no fitting tag.
+ * Scans the keyspace in batches, so prefer invalidateTags where possible.
+ */
+export async function invalidateCache(keyPattern: string): Promise<void> {
+  try {
+    const count = await cache.invalidatePattern(keyPattern);
+    if (count > 0) {
+      console.log(`Invalidated ${count} cache keys matching pattern: ${keyPattern}`);
+    }
+  } catch (error) {
+    console.error(`Error invalidating cache for pattern ${keyPattern}:`, error);
+  }
+}
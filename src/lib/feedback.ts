@@ -0,0 +1,45 @@
+import { fetchWithAuth } from './api';
+import { FeedbackType } from './prismaTypes';
+import { Media } from '@/types/media';
+import { RecommendationFeedbackEntry } from '@/types/recommendation';
+
+/**
+ * Fetch the signed-in user's recommendation feedback, newest first
+ */
+export async function fetchFeedback(): Promise<RecommendationFeedbackEntry[]> {
+  const response = await fetchWithAuth<{ data: RecommendationFeedbackEntry[] }>('/api/feedback');
+  return response.data;
+}
+
+/**
+ * Like, dislike or hide a recommended title
+ * @param media The recommended title
+ * @param type The feedback, replacing any earlier feedback on the title
+ */
+export async function sendFeedback(media: Media, type: FeedbackType): Promise<RecommendationFeedbackEntry> {
+  const response = await fetchWithAuth<{ data: RecommendationFeedbackEntry }>('/api/feedback', {
+    method: 'POST',
+    body: JSON.stringify({
+      mediaId: media.id,
+      mediaType: media.media_type,
+      title: media.title,
+      posterPath: media.poster_path || null,
+      type,
+    }),
+  });
+  return response.data;
+}
+
+/**
+ * Remove feedback on a single title
+ */
+export async function removeFeedback(feedbackId: string): Promise<void> {
+  await fetchWithAuth(`/api/feedback/${feedbackId}`, { method: 'DELETE' });
+}
+
+/**
+ * Clear all feedback, or only feedback of one type
+ */
+export async function clearFeedback(type?: FeedbackType): Promise<void> {
+  await fetchWithAuth(`/api/feedback${type ? `?type=${type}` : ''}`, { method: 'DELETE' });
+}
@@ -0,0 +1,53 @@
+import { fetchWithAuth } from './api';
+import { TMDB_DEFAULT_LANGUAGE } from './tmdbClient';
+import { DEFAULT_WATCH_REGION } from './utils';
+
+export interface LocalePreferences {
+  // TMDB language for titles, overviews and posters, e.g. 'fr-FR'
+  locale: string;
+  // ISO 3166-1 country for streaming availability and provider links
+  region: string;
+}
+
+// Used for signed-out visitors and until a user picks their own
+export const DEFAULT_LOCALE_PREFERENCES: LocalePreferences = {
+  locale: TMDB_DEFAULT_LANGUAGE,
+  region: DEFAULT_WATCH_REGION,
+};
+
+// Languages TMDB has broad translations for, by their TMDB locale
+export const LOCALE_OPTIONS = [
+  { locale: 'en-US', name: 'English (US)' },
+  { locale: 'en-GB', name: 'English (UK)' },
+  { locale: 'hi-IN', name: 'हिन्दी' },
+  { locale: 'ta-IN', name: 'தமிழ்' },
+  { locale: 'te-IN', name: 'తెలుగు' },
+  { locale: 'fr-FR', name: 'Français' },
+  { locale: 'de-DE', name: 'Deutsch' },
+  { locale: 'es-ES', name: 'Español (España)' },
+  { locale: 'es-MX', name: 'Español (México)' },
+  { locale: 'it-IT', name: 'Italiano' },
+  { locale: 'pt-BR', name: 'Português (Brasil)' },
+  { locale: 'ja-JP', name: '日本語' },
+  { locale: 'ko-KR', name: '한국어' },
+  { locale: 'zh-CN', name: '中文 (简体)' },
+];
+
+/**
+ * Fetch the signed-in user's language and watch region
+ */
+export async function fetchLocalePreferences(): Promise<LocalePreferences> {
+  const response = await fetchWithAuth<{ data: LocalePreferences }>('/api/profile/locale');
+  return response.data;
+}
+
+/**
+ * Save the signed-in user's language and watch region
+ */
+export async function saveLocalePreferences(preferences: LocalePreferences): Promise<LocalePreferences> {
+  const response = await fetchWithAuth<{ data: LocalePreferences }>('/api/profile/locale', {
+    method: 'PUT',
+    body: JSON.stringify(preferences),
+  });
+  return response.data;
+}
@@ -0,0 +1,67 @@
+import { fetchWithAuth } from './api';
+import { auth } from './firebase';
+import { TMDBDetailsAppend } from './tmdbClient';
+import { MediaDetails, MediaType } from '@/types/media';
+
+/**
+ * Fetch one title's details with credits from the media store, which fills itself from TMDB on a miss.
+ * Works signed out too, the token only lifts the anonymous rate limit.
+ */
+export async function fetchMediaDetails(
+  mediaType: MediaType,
+  mediaId: number,
+  options: {
+    signal?: AbortSignal;
+    // TMDB language for the title, overview and artwork, e.g. 'fr-FR'
+    language?: string;
+  } = {}
+): Promise<MediaDetails> {
+  const token = await auth.currentUser?.getIdToken();
+  const query = options.language ? `?${new URLSearchParams({ language: options.language })}` : '';
+
+  const response = await fetch(`/api/media/${mediaType}/${mediaId}${query}`, {
+    headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+    signal: options.signal,
+  });
+  const body = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    throw new Error(body?.error || `Failed to load details: ${response.status}`);
+  }
+
+  return body.data;
+}
+
+// Largest batch the details endpoint accepts
+const MEDIA_BATCH_SIZE = 200;
+
+/**
+ * Fetch details for many titles through the batch endpoint instead of one TMDB request each
+ * @param items The titles to fetch
+ * @param options.append Sub-resources to include for every title, e.g. credits
+ * @returns Details keyed by `${mediaType}:${mediaId}`, null for titles TMDB could not return
+ */
+export async function fetchMediaDetailsBatch(
+  items: Array<{ mediaType: MediaType; mediaId: number }>,
+  options: { append?: TMDBDetailsAppend[] } = {}
+): Promise<Record<string, MediaDetails | null>> {
+  const { append = [] } = options;
+
+  const batches = [];
+  for (let i = 0; i < items.length; i += MEDIA_BATCH_SIZE) {
+    batches.push(items.slice(i, i + MEDIA_BATCH_SIZE));
+  }
+
+  const results = await Promise.all(
+    batches.map(batch =>
+      fetchWithAuth<{ data: { details: Record<string, MediaDetails | null> } }>('/api/media/batch', {
+        method: 'POST',
+        body: JSON.stringify({
+          items: batch.map(({ mediaType, mediaId }) => ({ mediaType, mediaId, append })),
+        }),
+      })
+    )
+  );
+
+  return Object.assign({}, ...results.map(result => result.data.details));
+}
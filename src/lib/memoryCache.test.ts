@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createMemoryCache } from './memoryCache';
+
+describe('createMemoryCache', () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = 1_700_000_000_000;
+    mock.method(Date, 'now', () => now);
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  test('returns a serialized copy of what was stored', async () => {
+    const cache = createMemoryCache(10);
+    const value = { title: 'The Matrix', added: new Date(now) };
+    await cache.set('watchlist:1', value, { ttl: 60 });
+
+    const cached = await cache.get<{ title: string; added: string }>('watchlist:1');
+
+    assert.deepEqual(cached, { title: 'The Matrix', added: new Date(now).toISOString() });
+    assert.equal(await cache.get('watchlist:2'), null);
+  });
+
+  test('evicts the least recently used entry once full', async () => {
+    const cache = createMemoryCache(3);
+    await cache.set('a', 1, { ttl: 60 });
+    await cache.set('b', 2, { ttl: 60 });
+    await cache.set('c', 3, { ttl: 60 });
+    // Reading a makes b the least recently used
+    await cache.get('a');
+
+    await cache.set('d', 4, { ttl: 60 });
+
+    assert.equal(await cache.get('b'), null);
+    assert.deepEqual(
+      await Promise.all(['a', 'c', 'd'].map(key => cache.get(key))),
+      [1, 3, 4]
+    );
+
+    // Overwriting counts as a use too, so c is next
+    await cache.set('a', 10, { ttl: 60 });
+    await cache.set('e', 5, { ttl: 60 });
+    assert.equal(await cache.get('c'), null);
+    assert.equal(await cache.get('a'), 10);
+  });
+
+  test('expires entries after their TTL', async () => {
+    const cache = createMemoryCache(10);
+    await cache.set('short', 'value', { ttl: 10 });
+    await cache.set('long', 'value', { ttl: 60 });
+
+    now += 9_999;
+    assert.equal(await cache.get('short'), 'value');
+
+    now += 1;
+    assert.equal(await cache.get('short'), null);
+    assert.equal(await cache.get('long'), 'value');
+  });
+
+  test('invalidates every key stored under a tag and leaves the rest', async () => {
+    const cache = createMemoryCache(10);
+    await cache.set('feed:1:page:1', 'a', { ttl: 60, tags: ['feed:1'] });
+    await cache.set('feed:1:page:2', 'b', { ttl: 60, tags: ['feed:1'] });
+    await cache.set('watchlist:2', 'c', { ttl: 60, tags: ['user:2', 'feed:1'] });
+    await cache.set('watchlist:3', 'd', { ttl: 60, tags: ['user:3'] });
+    await cache.set('untagged', 'e', { ttl: 60 });
+
+    assert.equal(await cache.invalidateTags(['feed:1']), 3);
+
+    for (const key of ['feed:1:page:1', 'feed:1:page:2', 'watchlist:2']) {
+      assert.equal(await cache.get(key), null, key);
+    }
+    assert.equal(await cache.get('watchlist:3'), 'd');
+    assert.equal(await cache.get('untagged'), 'e');
+    // The key was dropped from its other tags with it
+    assert.equal(await cache.invalidateTags(['user:2']), 0);
+  });
+
+  test('invalidates several tags at once, counting shared keys once', async () => {
+    const cache = createMemoryCache(10);
+    await cache.set('a', 1, { ttl: 60, tags: ['x'] });
+    await cache.set('b', 2, { ttl: 60, tags: ['x', 'y'] });
+    await cache.set('c', 3, { ttl: 60, tags: ['y'] });
+
+    assert.equal(await cache.invalidateTags(['x', 'y']), 3);
+    assert.equal(await cache.get('c'), null);
+  });
+
+  test('stops listing a key under a tag it was re-stored without', async () => {
+    const cache = createMemoryCache(10);
+    await cache.set('a', 1, { ttl: 60, tags: ['x'] });
+    await cache.set('a', 2, { ttl: 60 });
+
+    assert.equal(await cache.invalidateTags(['x']), 0);
+    assert.equal(await cache.get('a'), 2);
+  });
+
+  test('invalidates keys matching a glob pattern', async () => {
+    const cache = createMemoryCache(10);
+    await cache.set('tmdb:/movie/603', 1, { ttl: 60 });
+    await cache.set('tmdb:/movie/604', 2, { ttl: 60 });
+    await cache.set('tmdb:/tv/1396', 3, { ttl: 60 });
+
+    assert.equal(await cache.invalidatePattern('tmdb:/movie/*'), 2);
+    assert.equal(await cache.get('tmdb:/movie/603'), null);
+    assert.equal(await cache.get('tmdb:/tv/1396'), 3);
+  });
+
+  test('counts increments within a window that starts with the first one', async () => {
+    const cache = createMemoryCache(10);
+
+    assert.equal(await cache.increment('ratelimit:tmdb:ip', 60), 1);
+    now += 30_000;
+    assert.equal(await cache.increment('ratelimit:tmdb:ip', 60), 2);
+    // Later increments do not extend the window
+    now += 30_000;
+    assert.equal(await cache.increment('ratelimit:tmdb:ip', 60), 1);
+  });
+});
@@ -0,0 +1,104 @@
+import type { CacheBackend, CacheSetOptions } from './cache';
+
+interface MemoryCacheEntry {
+  // Stored serialized so reads return a copy shaped like a Redis round trip, e.g. dates as strings
+  value: string;
+  expiresAt: number;
+  tags: string[];
+}
+
+// Turn a Redis glob pattern (`*`, `?`) into a regular expression over the whole key
+const globToRegExp = (pattern: string) =>
+  new RegExp(`^${pattern.split('').map(char => {
+    if (char === '*') return '.*';
+    if (char === '?') return '.';
+    return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+  }).join('')}$`);
+
+/**
+ * In-process cache with least recently used eviction, for development and tests
+ * and as the fallback when Redis is not configured. Entries are not shared between
+ * server instances, so production deployments should use Redis.
+ * @param maxEntries Entries kept before the least recently used ones are evicted
+ */
+export function createMemoryCache(maxEntries: number): CacheBackend {
+  // Maps iterate in insertion order, so re-inserting on read keeps the least recently used entry first
+  const entries = new Map<string, MemoryCacheEntry>();
+  const keysByTag = new Map<string, Set<string>>();
+
+  const remove = (key: string) => {
+    const entry = entries.get(key);
+    if (!entry) return false;
+    entries.delete(key);
+    entry.tags.forEach(tag => {
+      const keys = keysByTag.get(tag);
+      keys?.delete(key);
+      if (keys?.size === 0) keysByTag.delete(tag);
+    });
+    return true;
+  };
+
+  const read = (key: string) => {
+    const entry = entries.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt <= Date.now()) {
+      remove(key);
+      return null;
+    }
+    entries.delete(key);
+    entries.set(key, entry);
+    return entry;
+  };
+
+  const write = (key: string, value: string, { ttl, tags = [] }: CacheSetOptions) => {
+    remove(key);
+    entries.set(key, { value, expiresAt: Date.now() + ttl * 1000, tags });
+    tags.forEach(tag => {
+      const keys = keysByTag.get(tag) || new Set<string>();
+      keys.add(key);
+      keysByTag.set(tag, keys);
+    });
+
+    while (entries.size > maxEntries) {
+      const oldest = entries.keys().next().value;
+      if (oldest === undefined) break;
+      remove(oldest);
+    }
+  };
+
+  return {
+    async get<T>(key: string) {
+      const entry = read(key);
+      return entry ? (JSON.parse(entry.value) as T) : null;
+    },
+
+    async set<T>(key: string, value: T, options: CacheSetOptions) {
+      write(key, JSON.stringify(value), options);
+    },
+
+    async invalidateTags(tags: string[]) {
+      const keys = new Set(tags.flatMap(tag => Array.from(keysByTag.get(tag) || [])));
+      keys.forEach(remove);
+      return keys.size;
+    },
+
+    async invalidatePattern(pattern: string) {
+      const matcher = globToRegExp(pattern);
+      const keys = Array.from(entries.keys()).filter(key => matcher.test(key));
+      keys.forEach(remove);
+      return keys.length;
+    },
+
+    async increment(key: string, ttl: number) {
+      const entry = read(key);
+      const count = entry ? Number(entry.value) + 1 : 1;
+      // The window starts with the first request, later increments keep its expiry like Redis INCR
+      if (entry) {
+        entry.value = String(count);
+      } else {
+        write(key, String(count), { ttl });
+      }
+      return count;
+    },
+  };
+}
@@ -0,0 +1,33 @@
+import { auth } from './firebase';
+import { PersonDetails } from '@/types/person';
+
+/**
+ * Fetch a person's profile and credits. Works signed out too, signed in each credit
+ * carries the viewer's watchlist status and the page their progress through the credits.
+ */
+export async function fetchPersonDetails(
+  personId: number,
+  options: {
+    signal?: AbortSignal;
+    // TMDB language for the biography and titles, e.g. 'fr-FR'
+    language?: string;
+  } = {}
+): Promise<PersonDetails> {
+  const token = await auth.currentUser?.getIdToken();
+  const query = options.language ? `?${new URLSearchParams({ language: options.language })}` : '';
+
+  const response = await fetch(`/api/person/${personId}${query}`, {
+    headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+    signal: options.signal,
+  });
+  const body = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    throw new Error(body?.error || `Failed to load person: ${response.status}`);
+  }
+
+  return body.data;
+}
+
+// Link to a person's page, for directors, creators and actors shown elsewhere
+export const getPersonUrl = (personId: number) => `/person/${personId}`;
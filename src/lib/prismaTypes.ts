@@ -4,4 +4,10 @@ export enum WatchStatus {
   WATCHED = 'WATCHED',
   ON_HOLD = 'ON_HOLD',
   DROPPED = 'DROPPED',
-} 
\ No newline at end of file
+} 
+
+export enum FeedbackType {
+  LIKE = 'LIKE',
+  DISLIKE = 'DISLIKE',
+  NOT_INTERESTED = 'NOT_INTERESTED',
+}
@@ -0,0 +1,31 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getRateLimitIdentifier } from './rateLimit';
+
+const requestFrom = (headers: Record<string, string>, ip?: string) =>
+  Object.assign(new Request('https://example.com/api/tmdb', { headers }), { ip });
+
+describe('getRateLimitIdentifier', () => {
+  test('identifies signed-in users by ID', () => {
+    assert.equal(getRateLimitIdentifier(requestFrom({ 'x-forwarded-for': '203.0.113.7' }), 'user-1'), 'user:user-1');
+  });
+
+  test('prefers the IP the platform reports', () => {
+    const request = requestFrom({ 'x-forwarded-for': '198.51.100.1, 203.0.113.7' }, '192.0.2.10');
+
+    assert.equal(getRateLimitIdentifier(request), 'ip:192.0.2.10');
+  });
+
+  test('ignores x-forwarded-for hops the client sent itself', () => {
+    const spoofed = requestFrom({ 'x-forwarded-for': '198.51.100.1, 203.0.113.7' });
+    const rotated = requestFrom({ 'x-forwarded-for': '198.51.100.2, 203.0.113.7' });
+
+    assert.equal(getRateLimitIdentifier(spoofed), 'ip:203.0.113.7');
+    assert.equal(getRateLimitIdentifier(rotated), getRateLimitIdentifier(spoofed));
+  });
+
+  test('falls back to x-real-ip, then to a shared bucket', () => {
+    assert.equal(getRateLimitIdentifier(requestFrom({ 'x-real-ip': '203.0.113.7' })), 'ip:203.0.113.7');
+    assert.equal(getRateLimitIdentifier(requestFrom({})), 'ip:unknown');
+  });
+});
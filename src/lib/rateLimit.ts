@@ -0,0 +1,63 @@
+import { cache } from './cache';
+
+export interface RateLimit {
+  // Requests allowed per window
+  limit: number;
+  windowSeconds: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  // Seconds until the current window resets
+  retryAfter: number;
+}
+
+/**
+ * Count a request against a fixed-window rate limit in the shared cache.
+ * Fails open when the cache is unavailable, so an outage does not take the feature down with it.
+ * @param scope What is being limited, e.g. 'assistant'
+ * @param identifier Who is being limited, see getRateLimitIdentifier
+ */
+export async function checkRateLimit(
+  scope: string,
+  identifier: string,
+  { limit, windowSeconds }: RateLimit
+): Promise<RateLimitResult> {
+  const now = Math.floor(Date.now() / 1000);
+  const window = Math.floor(now / windowSeconds);
+  const retryAfter = (window + 1) * windowSeconds - now;
+  const key = `ratelimit:${scope}:${identifier}:${window}`;
+
+  try {
+    const count = await cache.increment(key, windowSeconds);
+    return { allowed: count <= limit, remaining: Math.max(0, limit - count), retryAfter };
+  } catch (error) {
+    console.error(`Rate limit check failed for ${key}:`, error);
+    return { allowed: true, remaining: limit, retryAfter };
+  }
+}
+
+/**
+ * The caller's IP as the platform saw it. Clients can send their own x-forwarded-for,
+ * so only the last hop, the one our proxy appended, is trusted.
+ */
+function getClientIp(request: Request): string | null {
+  const platformIp = (request as Request & { ip?: string }).ip;
+  if (platformIp) return platformIp;
+
+  const hops = (request.headers.get('x-forwarded-for') || '')
+    .split(',')
+    .map(hop => hop.trim())
+    .filter(Boolean);
+  return hops[hops.length - 1] || request.headers.get('x-real-ip');
+}
+
+/**
+ * Identify the caller for rate limiting: signed-in users by ID, everyone else by IP
+ */
+export function getRateLimitIdentifier(request: Request, userId?: string | null): string {
+  if (userId) return `user:${userId}`;
+
+  return `ip:${getClientIp(request) || 'unknown'}`;
+}
@@ -0,0 +1,113 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  FilterableDetails,
+  findFilterViolation,
+  getCertificationLevel,
+  hasActiveFilters,
+  toFilterableDetails,
+} from './recommendationFilters';
+
+const details = (fields: Partial<FilterableDetails> = {}): FilterableDetails => ({
+  runtime: 120,
+  year: 1999,
+  originalLanguage: 'en',
+  certification: 'R',
+  voteAverage: 8.2,
+  ...fields,
+});
+
+describe('hasActiveFilters', () => {
+  test('is false without filters or with every filter unset', () => {
+    assert.equal(hasActiveFilters(undefined), false);
+    assert.equal(hasActiveFilters({}), false);
+    assert.equal(hasActiveFilters({ minRuntime: undefined }), false);
+  });
+
+  test('is true once any filter is set, including a zero', () => {
+    assert.equal(hasActiveFilters({ minVoteAverage: 0 }), true);
+    assert.equal(hasActiveFilters({ originalLanguage: 'ko' }), true);
+  });
+});
+
+describe('getCertificationLevel', () => {
+  test('places movie ratings and TV guidelines on one scale', () => {
+    assert.equal(getCertificationLevel('PG-13'), 2);
+    assert.equal(getCertificationLevel('TV-14'), 2);
+    assert.equal(getCertificationLevel('TV-Y7'), getCertificationLevel('G'));
+  });
+
+  test('does not know ratings from other systems', () => {
+    assert.equal(getCertificationLevel('15'), null);
+    assert.equal(getCertificationLevel(null), null);
+  });
+});
+
+describe('findFilterViolation', () => {
+  test('passes a title that meets every filter', () => {
+    const filters = {
+      minRuntime: 90,
+      maxRuntime: 150,
+      fromDecade: 1990,
+      toDecade: 1990,
+      originalLanguage: 'en',
+      maxCertification: 'R' as const,
+      minVoteAverage: 7,
+    };
+
+    assert.equal(findFilterViolation(details(), filters), null);
+  });
+
+  test('reports the violated constraint', () => {
+    assert.equal(findFilterViolation(details({ runtime: 80 }), { minRuntime: 90 }), 'runtime too short');
+    assert.equal(findFilterViolation(details({ runtime: 200 }), { maxRuntime: 150 }), 'runtime too long');
+    assert.equal(findFilterViolation(details({ year: 1989 }), { fromDecade: 1990 }), 'released too early');
+    // The decade runs to its ninth year
+    assert.equal(findFilterViolation(details({ year: 1999 }), { toDecade: 1990 }), null);
+    assert.equal(findFilterViolation(details({ year: 2000 }), { toDecade: 1990 }), 'released too late');
+    assert.equal(findFilterViolation(details(), { originalLanguage: 'ja' }), 'wrong original language');
+    assert.equal(findFilterViolation(details(), { excludedLanguage: 'en' }), 'excluded original language');
+    assert.equal(findFilterViolation(details({ voteAverage: 6.9 }), { minVoteAverage: 7 }), 'rated too low');
+    assert.equal(findFilterViolation(details(), { maxCertification: 'PG-13' }), 'certification too high');
+  });
+
+  test('gives missing data the benefit of the doubt, except for the certification', () => {
+    const unknown = details({ runtime: null, year: null, originalLanguage: null, voteAverage: null, certification: null });
+
+    assert.equal(findFilterViolation(unknown, { minRuntime: 90, fromDecade: 2000, originalLanguage: 'ja', minVoteAverage: 9 }), null);
+    assert.equal(findFilterViolation(unknown, { maxCertification: 'R' }), 'unknown certification');
+  });
+});
+
+describe('toFilterableDetails', () => {
+  test('reads a movie with its US release certification', () => {
+    const movie = toFilterableDetails({
+      runtime: 136,
+      release_date: '1999-03-30',
+      original_language: 'en',
+      vote_average: 8.2,
+      vote_count: 25000,
+      release_dates: {
+        results: [
+          { iso_3166_1: 'GB', release_dates: [{ certification: '15' }] },
+          { iso_3166_1: 'US', release_dates: [{ certification: '' }, { certification: 'R' }] },
+        ],
+      },
+    });
+
+    assert.deepEqual(movie, { runtime: 136, year: 1999, originalLanguage: 'en', certification: 'R', voteAverage: 8.2 });
+  });
+
+  test('reads a show by its episode runtime and US content rating, ignoring an average without votes', () => {
+    const show = toFilterableDetails({
+      episode_run_time: [47, 58],
+      first_air_date: '2008-01-20',
+      original_language: 'en',
+      vote_average: 0,
+      vote_count: 0,
+      content_ratings: { results: [{ iso_3166_1: 'US', rating: 'TV-MA' }] },
+    });
+
+    assert.deepEqual(show, { runtime: 47, year: 2008, originalLanguage: 'en', certification: 'TV-MA', voteAverage: null });
+  });
+});
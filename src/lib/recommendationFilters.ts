@@ -0,0 +1,124 @@
+import type { RecommendationFilters } from './validationSchemas';
+
+// US movie ratings from least to most restrictive, used as the common scale
+export const CERTIFICATIONS = ['G', 'PG', 'PG-13', 'R', 'NC-17'] as const;
+
+export type Certification = typeof CERTIFICATIONS[number];
+
+// US TV parental guidelines mapped onto the movie scale
+const TV_CERTIFICATIONS: Record<string, Certification> = {
+  'TV-Y': 'G',
+  'TV-Y7': 'G',
+  'TV-G': 'G',
+  'TV-PG': 'PG',
+  'TV-14': 'PG-13',
+  'TV-MA': 'R',
+};
+
+// TMDB has the most complete certification data for the US
+export const CERTIFICATION_COUNTRY = 'US';
+
+export interface FilterableDetails {
+  runtime: number | null;
+  year: number | null;
+  originalLanguage: string | null;
+  certification: string | null;
+  voteAverage: number | null;
+}
+
+export interface TMDBFilterDetails {
+  runtime?: number | null;
+  episode_run_time?: number[];
+  release_date?: string;
+  first_air_date?: string;
+  original_language?: string;
+  vote_average?: number;
+  vote_count?: number;
+  release_dates?: {
+    results: Array<{
+      iso_3166_1: string;
+      release_dates: Array<{ certification: string }>;
+    }>;
+  };
+  content_ratings?: {
+    results: Array<{ iso_3166_1: string; rating: string }>;
+  };
+}
+
+const getCertification = (details: TMDBFilterDetails): string | null => {
+  const movieRelease = details.release_dates?.results.find(r => r.iso_3166_1 === CERTIFICATION_COUNTRY);
+  const movieCertification = movieRelease?.release_dates.find(r => r.certification)?.certification;
+  const tvRating = details.content_ratings?.results.find(r => r.iso_3166_1 === CERTIFICATION_COUNTRY)?.rating;
+  return movieCertification || tvRating || null;
+};
+
+/**
+ * Position of a movie or TV certification on the common scale, or null if unknown
+ */
+export function getCertificationLevel(certification: string | null): number | null {
+  if (!certification) return null;
+  const normalized = TV_CERTIFICATIONS[certification] || certification;
+  const level = CERTIFICATIONS.indexOf(normalized as Certification);
+  return level === -1 ? null : level;
+}
+
+/**
+ * Whether any filter is set
+ */
+export function hasActiveFilters(filters?: RecommendationFilters): filters is RecommendationFilters {
+  return !!filters && Object.values(filters).some(value => value !== undefined);
+}
+
+/**
+ * Check a title's details against the filters
+ * @returns The first violated constraint, or null if the title passes.
+ * Missing runtime, year, language or rating data is given the benefit of the doubt,
+ * but a maximum certification is only met by titles with a known certification.
+ */
+export function findFilterViolation(details: FilterableDetails, filters: RecommendationFilters): string | null {
+  const { runtime, year, originalLanguage, certification, voteAverage } = details;
+
+  if (runtime) {
+    if (filters.minRuntime !== undefined && runtime < filters.minRuntime) return 'runtime too short';
+    if (filters.maxRuntime !== undefined && runtime > filters.maxRuntime) return 'runtime too long';
+  }
+
+  if (year) {
+    if (filters.fromDecade !== undefined && year < filters.fromDecade) return 'released too early';
+    if (filters.toDecade !== undefined && year > filters.toDecade + 9) return 'released too late';
+  }
+
+  if (originalLanguage) {
+    if (filters.originalLanguage && originalLanguage !== filters.originalLanguage) return 'wrong original language';
+    if (filters.excludedLanguage && originalLanguage === filters.excludedLanguage) return 'excluded original language';
+  }
+
+  if (filters.minVoteAverage !== undefined && voteAverage !== null && voteAverage < filters.minVoteAverage) {
+    return 'rated too low';
+  }
+
+  if (filters.maxCertification) {
+    const level = getCertificationLevel(certification);
+    if (level === null) return 'unknown certification';
+    if (level > CERTIFICATIONS.indexOf(filters.maxCertification)) return 'certification too high';
+  }
+
+  return null;
+}
+
+/**
+ * Pick the fields the hard constraints are checked against from a TMDB details
+ * response fetched with its release dates (movies) or content ratings (TV) appended
+ */
+export function toFilterableDetails(details: TMDBFilterDetails): FilterableDetails {
+  const date = details.release_date || details.first_air_date;
+
+  return {
+    runtime: details.runtime || details.episode_run_time?.[0] || null,
+    year: date ? Number(date.slice(0, 4)) || null : null,
+    originalLanguage: details.original_language || null,
+    certification: getCertification(details),
+    // An average without any votes says nothing
+    voteAverage: details.vote_count ? details.vote_average ?? null : null,
+  };
+}
@@ -0,0 +1,54 @@
+import { fetchWithAuth } from './api';
+import { auth } from './firebase';
+import { RecommendationSession } from '@/types/recommendation';
+
+/**
+ * Fetch a session by its short ID. Anyone with the link may view it,
+ * the token is only attached to tell whether the viewer owns it.
+ */
+export async function fetchSession(sessionId: string): Promise<RecommendationSession> {
+  const token = await auth.currentUser?.getIdToken();
+
+  const response = await fetch(`/api/recommendations/sessions/${encodeURIComponent(sessionId)}`, {
+    headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+  });
+  const body = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    throw new Error(body?.error || `Failed to load session: ${response.status}`);
+  }
+
+  return body.data;
+}
+
+/**
+ * Fetch the signed-in user's past sessions, newest first
+ */
+export async function fetchSessions(): Promise<RecommendationSession[]> {
+  const response = await fetchWithAuth<{ data: RecommendationSession[] }>('/api/recommendations/sessions');
+  return response.data;
+}
+
+/**
+ * Rename one of the signed-in user's sessions
+ */
+export async function renameSession(sessionId: string, name: string): Promise<void> {
+  await fetchWithAuth(`/api/recommendations/sessions/${encodeURIComponent(sessionId)}`, {
+    method: 'PATCH',
+    body: JSON.stringify({ name }),
+  });
+}
+
+/**
+ * Delete one of the signed-in user's sessions
+ */
+export async function deleteSession(sessionId: string): Promise<void> {
+  await fetchWithAuth(`/api/recommendations/sessions/${encodeURIComponent(sessionId)}`, { method: 'DELETE' });
+}
+
+/**
+ * The permalink of a session
+ */
+export function getSessionUrl(sessionId: string): string {
+  return `${window.location.origin}/sessions/${sessionId}`;
+}
@@ -0,0 +1,171 @@
+import { Media, MediaType } from '@/types/media';
+import { GroupRecommendation, RankedRecommendation, RecommendationMediaType, RecommendedMedia } from '@/types/recommendation';
+import { fetchWithAuth } from './api';
+import { auth } from './firebase';
+import type { RecommendationFilters } from './validationSchemas';
+
+export interface RecommendationParams {
+  description: string;
+  selectedMedia: Media[];
+  mediaType: RecommendationMediaType;
+  count?: number;
+  // `${mediaType}:${id}` keys, see availabilityKey
+  excludeKeys?: string[];
+  useTaste?: boolean;
+  onlyMyServices?: boolean;
+  filters?: RecommendationFilters;
+}
+
+/**
+ * Send a recommendation request, attaching the user's token when signed in
+ */
+async function postRecommendationRequest(
+  url: string,
+  params: RecommendationParams,
+  signal?: AbortSignal
+): Promise<Response> {
+  // Signed-in users get their feedback applied, and taste mode and the services filter need them
+  const token = await auth.currentUser?.getIdToken();
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token && { Authorization: `Bearer ${token}` }),
+    },
+    body: JSON.stringify(params),
+    signal,
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `Failed to generate recommendations: ${response.status}`);
+  }
+
+  return response;
+}
+
+/**
+ * Request recommendations from the server-side recommendation endpoint
+ * @param params The description, seed titles and media type to recommend for
+ * @param options Additional options for the fetch request
+ * @returns The recommended media, already resolved against TMDB
+ */
+export async function fetchRecommendations(
+  params: RecommendationParams,
+  options: {
+    signal?: AbortSignal;
+  } = {}
+): Promise<RecommendedMedia[]> {
+  const response = await postRecommendationRequest('/api/recommendations', params, options.signal);
+  const body = await response.json().catch(() => null);
+  return body?.data || [];
+}
+
+/**
+ * Stream recommendations from the server, calling back as each one is resolved
+ * @param params The description, seed titles and media type to recommend for
+ * @param options The abort signal and the callbacks for each recommendation and the saved session
+ * @returns Resolves once the server reports the batch is complete
+ */
+export async function streamRecommendations(
+  params: RecommendationParams,
+  options: {
+    signal?: AbortSignal;
+    onRecommendation: (result: RankedRecommendation) => void;
+    // Called with the saved session's ID once the run is complete, only sent to signed-in users
+    onSession?: (sessionId: string) => void;
+  }
+): Promise<void> {
+  const response = await postRecommendationRequest('/api/recommendations/stream', params, options.signal);
+  if (!response.body) {
+    throw new Error('Streaming is not supported by this browser');
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      buffer += value;
+      // Server-Sent Events are separated by a blank line
+      const events = buffer.split('\n\n');
+      buffer = events.pop() || '';
+
+      for (const rawEvent of events) {
+        const lines = rawEvent.split('\n');
+        const event = lines.find(line => line.startsWith('event: '))?.slice('event: '.length);
+        const data = lines
+          .filter(line => line.startsWith('data: '))
+          .map(line => line.slice('data: '.length))
+          .join('\n');
+        if (!event || !data) continue;
+
+        const payload = JSON.parse(data);
+        if (event === 'recommendation') {
+          options.onRecommendation(payload);
+        } else if (event === 'session') {
+          options.onSession?.(payload.id);
+        } else if (event === 'error') {
+          throw new Error(payload.error || 'Failed to generate recommendations');
+        } else if (event === 'done') {
+          return;
+        }
+      }
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+
+  throw new Error('Recommendation stream ended unexpectedly');
+}
+
+export interface GroupRecommendationParams {
+  friendIds: string[];
+  description: string;
+  mediaType: RecommendationMediaType;
+  count?: number;
+  filters?: RecommendationFilters;
+}
+
+/**
+ * Request picks for the signed-in user and some friends to watch together
+ * @param params The friends joining, what the group is in the mood for and the media type
+ * @returns The picks with each person's predicted fit, best group fit first
+ */
+export async function fetchGroupRecommendations(params: GroupRecommendationParams): Promise<GroupRecommendation[]> {
+  const response = await fetchWithAuth<{ data: GroupRecommendation[] }>('/api/recommendations/group', {
+    method: 'POST',
+    body: JSON.stringify(params),
+  });
+  return response.data;
+}
+
+/**
+ * Fetch titles like the given one, tailored to the viewer's watchlist when signed in
+ * @param options Additional options for the fetch request
+ */
+export async function fetchSimilarMedia(
+  mediaType: MediaType,
+  mediaId: number,
+  options: {
+    signal?: AbortSignal;
+  } = {}
+): Promise<Media[]> {
+  const token = await auth.currentUser?.getIdToken();
+
+  const response = await fetch(`/api/recommendations/similar/${mediaType}/${mediaId}`, {
+    headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+    signal: options.signal,
+  });
+  const body = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    throw new Error(body?.error || `Failed to load similar titles: ${response.status}`);
+  }
+
+  return body.data;
+}
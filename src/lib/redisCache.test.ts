@@ -0,0 +1,149 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Redis } from '@upstash/redis';
+import { createRedisCache } from './redisCache';
+
+/**
+ * Just enough of the Upstash client for the Redis cache, kept in memory.
+ * SCAN returns `scanPageSize` keys per call, so invalidating by pattern takes several round trips.
+ */
+function createFakeRedis({ scanPageSize = 2 } = {}) {
+  const store = new Map<string, unknown>();
+  // Every key ever written in insertion order, so a SCAN cursor stays valid while keys are deleted
+  const scanOrder: string[] = [];
+  const calls: Array<{ command: string; args: unknown[] }> = [];
+
+  const write = (key: string, value: unknown) => {
+    if (!scanOrder.includes(key)) scanOrder.push(key);
+    store.set(key, value);
+  };
+
+  const commands = {
+    set: (key: string, value: unknown) => {
+      write(key, value);
+      return 'OK';
+    },
+    sadd: (key: string, ...members: string[]) => {
+      const set = (store.get(key) as Set<string> | undefined) || new Set<string>();
+      members.forEach(member => set.add(member));
+      write(key, set);
+      return members.length;
+    },
+    expire: () => 1,
+    smembers: (key: string) => Array.from((store.get(key) as Set<string> | undefined) || []),
+    incr: (key: string) => {
+      const count = Number(store.get(key) || 0) + 1;
+      write(key, count);
+      return count;
+    },
+  };
+
+  const record = <A extends unknown[], R>(command: string, fn: (...args: A) => R) =>
+    (...args: A) => {
+      calls.push({ command, args });
+      return fn(...args);
+    };
+
+  const redis = {
+    get: record('get', async (key: string) => store.get(key) ?? null),
+    del: record('del', async (...keys: string[]) => keys.filter(key => store.delete(key)).length),
+    scan: record('scan', async (cursor: string | number, { match }: { match: string; count: number }) => {
+      const matcher = new RegExp(`^${match.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`);
+      const start = Number(cursor);
+      const page = scanOrder.slice(start, start + scanPageSize);
+      const next = start + scanPageSize >= scanOrder.length ? 0 : start + scanPageSize;
+      return [String(next), page.filter(key => store.has(key) && matcher.test(key))];
+    }),
+    pipeline: () => {
+      const queued: Array<() => unknown> = [];
+      const pipeline = Object.fromEntries(
+        Object.entries(commands).map(([command, fn]) => [
+          command,
+          (...args: unknown[]) => {
+            queued.push(() => record(command, fn as (...args: unknown[]) => unknown)(...args));
+            return pipeline;
+          },
+        ])
+      ) as Record<string, (...args: unknown[]) => unknown> & { exec?: () => Promise<unknown[]> };
+      pipeline.exec = async () => queued.map(run => run());
+      return pipeline;
+    },
+  };
+
+  return { redis: redis as unknown as Redis, store, calls };
+}
+
+describe('createRedisCache', () => {
+  test('stores values with their TTL and lists the key under each tag', async () => {
+    const { redis, store, calls } = createFakeRedis();
+    const cache = createRedisCache(redis);
+
+    await cache.set('feed:1:page:1', { entries: [] }, { ttl: 300, tags: ['feed:1', 'user:2'] });
+
+    assert.deepEqual(await cache.get('feed:1:page:1'), { entries: [] });
+    assert.deepEqual(calls.find(call => call.command === 'set')?.args, ['feed:1:page:1', { entries: [] }, { ex: 300 }]);
+    assert.deepEqual(Array.from(store.get('tag:feed:1') as Set<string>), ['feed:1:page:1']);
+    assert.deepEqual(Array.from(store.get('tag:user:2') as Set<string>), ['feed:1:page:1']);
+    // Tag sets start expiring with their first key and are only ever extended
+    assert.deepEqual(
+      calls.filter(call => call.command === 'expire' && call.args[0] === 'tag:feed:1').map(call => call.args),
+      [['tag:feed:1', 300, 'NX'], ['tag:feed:1', 300, 'GT']]
+    );
+  });
+
+  test('invalidates every key stored under the tags, and the tag sets', async () => {
+    const { redis, store } = createFakeRedis();
+    const cache = createRedisCache(redis);
+    await cache.set('feed:1:page:1', 'a', { ttl: 300, tags: ['feed:1'] });
+    await cache.set('feed:1:page:2', 'b', { ttl: 300, tags: ['feed:1'] });
+    await cache.set('watchlist:2', 'c', { ttl: 300, tags: ['user:2', 'feed:1'] });
+    await cache.set('recommendations:2', 'd', { ttl: 300, tags: ['recommendations:2'] });
+    await cache.set('watchlist:3', 'e', { ttl: 300, tags: ['user:3'] });
+
+    assert.equal(await cache.invalidateTags(['feed:1', 'recommendations:2']), 4);
+
+    for (const key of ['feed:1:page:1', 'feed:1:page:2', 'watchlist:2', 'recommendations:2']) {
+      assert.equal(await cache.get(key), null, key);
+    }
+    assert.equal(await cache.get('watchlist:3'), 'e');
+    assert.equal(store.has('tag:feed:1'), false);
+    assert.equal(store.has('tag:recommendations:2'), false);
+    assert.equal(store.has('tag:user:3'), true);
+  });
+
+  test('does nothing when invalidating no tags', async () => {
+    const { redis, calls } = createFakeRedis();
+
+    assert.equal(await createRedisCache(redis).invalidateTags([]), 0);
+    assert.deepEqual(calls, []);
+  });
+
+  test('invalidates a pattern by walking the keyspace with SCAN', async () => {
+    const { redis, calls } = createFakeRedis({ scanPageSize: 2 });
+    const cache = createRedisCache(redis);
+    const keys = ['tmdb:/movie/603', 'tmdb:/tv/1396', 'tmdb:/movie/604', 'watchlist:1', 'tmdb:/movie/605'];
+    for (const key of keys) {
+      await cache.set(key, key, { ttl: 300 });
+    }
+
+    assert.equal(await cache.invalidatePattern('tmdb:/movie/*'), 3);
+
+    assert.equal(await cache.get('tmdb:/movie/603'), null);
+    assert.equal(await cache.get('tmdb:/movie/605'), null);
+    assert.equal(await cache.get('tmdb:/tv/1396'), 'tmdb:/tv/1396');
+    assert.equal(await cache.get('watchlist:1'), 'watchlist:1');
+    // Five keys two at a time, following the cursor until it comes back as 0
+    const scans = calls.filter(call => call.command === 'scan');
+    assert.deepEqual(scans.map(call => call.args[0]), ['0', '2', '4']);
+    assert.deepEqual(scans[0].args[1], { match: 'tmdb:/movie/*', count: 500 });
+  });
+
+  test('counts increments and starts the window with the first one', async () => {
+    const { redis, calls } = createFakeRedis();
+    const cache = createRedisCache(redis);
+
+    assert.equal(await cache.increment('ratelimit:tmdb:ip', 60), 1);
+    assert.equal(await cache.increment('ratelimit:tmdb:ip', 60), 2);
+    assert.ok(calls.filter(call => call.command === 'expire').every(call => call.args[2] === 'NX'));
+  });
+});
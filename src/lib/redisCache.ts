@@ -0,0 +1,63 @@
+import { Redis } from '@upstash/redis';
+import type { CacheBackend, CacheSetOptions } from './cache';
+
+// Keys fetched per SCAN round trip when invalidating by pattern
+const SCAN_BATCH_SIZE = 500;
+
+// Each tag is a Redis set of the keys stored with it
+const tagKey = (tag: string) => `tag:${tag}`;
+
+/**
+ * Cache backed by Redis, shared by every server instance.
+ * Tags are kept as sets of keys that expire with the longest lived key in them, so invalidating a tag
+ * only touches its own keys. A key that was re-stored without a tag may still be listed under it
+ * and be dropped with it, which costs a cache miss but never serves stale data.
+ */
+export function createRedisCache(redis: Redis): CacheBackend {
+  return {
+    get: <T>(key: string) => redis.get<T>(key),
+
+    async set<T>(key: string, value: T, { ttl, tags = [] }: CacheSetOptions) {
+      const pipeline = redis.pipeline();
+      pipeline.set(key, value, { ex: ttl });
+      tags.forEach(tag => {
+        pipeline.sadd(tagKey(tag), key);
+        // Start the set's expiry with its first key, then only ever extend it
+        pipeline.expire(tagKey(tag), ttl, 'NX');
+        pipeline.expire(tagKey(tag), ttl, 'GT');
+      });
+      await pipeline.exec();
+    },
+
+    async invalidateTags(tags: string[]) {
+      if (tags.length === 0) return 0;
+
+      const pipeline = redis.pipeline();
+      tags.forEach(tag => pipeline.smembers(tagKey(tag)));
+      const members = await pipeline.exec<string[][]>();
+      const keys = Array.from(new Set(members.flat()));
+
+      await redis.del(...keys, ...tags.map(tagKey));
+      return keys.length;
+    },
+
+    // Walks the keyspace with SCAN instead of KEYS, so a large keyspace does not block Redis
+    async invalidatePattern(pattern: string) {
+      let cursor = '0';
+      let deleted = 0;
+      do {
+        const [nextCursor, keys] = await redis.scan(cursor, { match: pattern, count: SCAN_BATCH_SIZE });
+        if (keys.length > 0) {
+          deleted += await redis.del(...keys);
+        }
+        cursor = String(nextCursor);
+      } while (cursor !== '0');
+      return deleted;
+    },
+
+    async increment(key: string, ttl: number) {
+      const [count] = await redis.pipeline().incr(key).expire(key, ttl, 'NX').exec<[number, number]>();
+      return count;
+    },
+  };
+}
@@ -89,7 +89,8 @@ export async function fetchWithRetry(
       return response;
     } catch (error) {
       const shouldRetry = await finalRetryOptions.shouldRetry(error instanceof Error ? error : new Error(String(error)));
-      if (retryCount === finalRetryOptions.maxRetries || !shouldRetry) {
+      // An aborted request fails the same way every time
+      if (retryCount === finalRetryOptions.maxRetries || options.signal?.aborted || !shouldRetry) {
         throw error;
       }
       
@@ -0,0 +1,127 @@
+import { fetchWithAuth, tmdbProxy } from './api';
+import { TMDBProviderOption, TMDBWatchRegion } from './tmdbSchemas';
+import { availabilityKey, mapWithConcurrency } from './utils';
+import { MediaType, Provider } from '@/types/media';
+
+export interface StreamingPreferences {
+  region: string;
+  // TMDB watch provider IDs
+  services: number[];
+}
+
+export interface StreamingAvailability {
+  hasServices: boolean;
+  // Subscribed providers keyed by `${mediaType}:${mediaId}`
+  availability: Record<string, Provider[]>;
+}
+
+export type WatchRegion = TMDBWatchRegion;
+
+// Largest batch the availability endpoint accepts
+const AVAILABILITY_BATCH_SIZE = 200;
+// Signed-out lookups go through the rate-limited TMDB proxy one title at a time
+const REGIONAL_AVAILABILITY_CONCURRENCY = 4;
+
+/**
+ * Fetch the signed-in user's streaming services and watch region
+ */
+export async function fetchStreamingPreferences(): Promise<StreamingPreferences> {
+  const response = await fetchWithAuth<{ data: StreamingPreferences }>('/api/profile/streaming-services');
+  return response.data;
+}
+
+/**
+ * Save the signed-in user's streaming services and watch region
+ */
+export async function saveStreamingPreferences(preferences: StreamingPreferences): Promise<StreamingPreferences> {
+  const response = await fetchWithAuth<{ data: StreamingPreferences }>('/api/profile/streaming-services', {
+    method: 'PUT',
+    body: JSON.stringify(preferences),
+  });
+  return response.data;
+}
+
+/**
+ * Find which of the user's services stream each title in their region
+ * @param items The titles to check
+ */
+export async function fetchStreamingAvailability(
+  items: Array<{ mediaType: MediaType; mediaId: number }>
+): Promise<StreamingAvailability> {
+  const batches = [];
+  for (let i = 0; i < items.length; i += AVAILABILITY_BATCH_SIZE) {
+    batches.push(items.slice(i, i + AVAILABILITY_BATCH_SIZE));
+  }
+
+  const results = await Promise.all(
+    batches.map(batch =>
+      fetchWithAuth<{ data: StreamingAvailability }>('/api/streaming-availability', {
+        method: 'POST',
+        body: JSON.stringify({ items: batch }),
+      })
+    )
+  );
+
+  return {
+    hasServices: results.some(result => result.data.hasServices),
+    availability: Object.assign({}, ...results.map(result => result.data.availability)),
+  };
+}
+
+/**
+ * Find which services stream each title as part of a subscription in a region, for signed-out
+ * visitors who have no services saved
+ * @param items The titles to check
+ * @param region ISO 3166-1 country code, e.g. 'IN'
+ * @returns Providers keyed by `${mediaType}:${mediaId}`
+ */
+export async function fetchRegionalAvailability(
+  items: Array<{ mediaType: MediaType; mediaId: number }>,
+  region: string
+): Promise<Record<string, Provider[]>> {
+  const availability: Record<string, Provider[]> = {};
+
+  await mapWithConcurrency(items, REGIONAL_AVAILABILITY_CONCURRENCY, async ({ mediaType, mediaId }) => {
+    const key = availabilityKey(mediaType, mediaId);
+    try {
+      availability[key] = (await tmdbProxy.providers(mediaType, mediaId, { region }))?.flatrate || [];
+    } catch (error) {
+      console.warn(`Failed to fetch watch providers for ${key}:`, error);
+      availability[key] = [];
+    }
+  });
+  return availability;
+}
+
+/**
+ * Fetch the countries TMDB has watch provider data for, named in the user's language
+ * @param language TMDB language, e.g. 'fr-FR'
+ */
+export async function fetchWatchRegions(language?: string): Promise<WatchRegion[]> {
+  const regions = await tmdbProxy.watchRegions({ language });
+  const name = (region: WatchRegion) => region.native_name || region.english_name;
+  return regions.sort((a, b) => name(a).localeCompare(name(b), language));
+}
+
+/**
+ * Fetch the movie and TV streaming providers available in a region, most popular first
+ * @param region ISO 3166-1 country code
+ * @param language TMDB language for the provider names
+ */
+export async function fetchRegionProviders(region: string, language?: string): Promise<Provider[]> {
+  const [movies, shows] = await Promise.all(
+    (['movie', 'tv'] as const).map(type => tmdbProxy.watchProviders(type, region, { language }))
+  );
+
+  const providers = new Map<number, TMDBProviderOption>();
+  [...movies, ...shows].forEach(provider => {
+    if (!providers.has(provider.provider_id)) providers.set(provider.provider_id, provider);
+  });
+
+  const priority = (provider: TMDBProviderOption) =>
+    provider.display_priorities?.[region] ?? provider.display_priority ?? Number.MAX_SAFE_INTEGER;
+
+  return Array.from(providers.values())
+    .sort((a, b) => priority(a) - priority(b))
+    .map(({ provider_id, provider_name, logo_path }) => ({ provider_id, provider_name, logo_path }));
+}
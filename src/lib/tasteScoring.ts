@@ -0,0 +1,37 @@
+import { MediaType } from '@/types/media';
+
+interface CrewMember {
+  id: number;
+  name: string;
+  job?: string;
+  profile_path?: string | null;
+}
+
+// Shows rarely credit a single director, so their creators stand in for one
+const CREATOR_JOBS = ['Creator', 'Executive Producer', 'Showrunner'];
+
+/**
+ * The directors of a film, or the creators of a show
+ */
+export function getDirectors<T extends CrewMember>(crew: T[] | undefined, mediaType: MediaType): T[] {
+  return (crew || []).filter(person =>
+    mediaType === 'movie' ? person.job === 'Director' : CREATOR_JOBS.includes(person.job || '')
+  );
+}
+
+/**
+ * The decade a title came out in, e.g. '1990s'
+ */
+export function getDecade(releaseDate?: string | null): string | null {
+  if (!releaseDate) return null;
+  const year = new Date(releaseDate).getFullYear();
+  return Number.isNaN(year) ? null : Math.floor(year / 10) * 10 + 's';
+}
+
+/**
+ * How closely two shares of attention match, from 0 to 100.
+ * A share is how much of someone's viewing a genre, director or decade takes up.
+ */
+export function importanceMatch(share: number, otherShare: number): number {
+  return 100 - (Math.abs(share - otherShare) * 100);
+}
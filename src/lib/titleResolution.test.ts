@@ -0,0 +1,144 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import searchFixtures from './__fixtures__/tmdbSearch.json';
+import { createTMDBClient } from './tmdbClient';
+import {
+  LOW_MATCH_CONFIDENCE,
+  MIN_MATCH_CONFIDENCE,
+  normalizeTitle,
+  resolveTitle,
+  TitleQuery,
+  titleSimilarity,
+} from './titleResolution';
+
+const emptySearch = { page: 1, results: [], total_pages: 0, total_results: 0 };
+
+/**
+ * A TMDB client whose searches answer from the recorded responses,
+ * keyed by `${mediaType}:${query}` plus `:${year}` for year-filtered searches
+ */
+const tmdb = createTMDBClient(async path => {
+  const url = new URL(path, 'https://api.themoviedb.org');
+  const mediaType = url.pathname.split('/').pop();
+  const year = url.searchParams.get('year') || url.searchParams.get('first_air_date_year');
+  const key = [mediaType, url.searchParams.get('query'), year].filter(Boolean).join(':');
+  return (searchFixtures as Record<string, unknown>)[key] || emptySearch;
+});
+
+const resolve = (query: TitleQuery, excludeIds?: number[]) => resolveTitle(query, tmdb, { excludeIds });
+
+describe('normalizeTitle', () => {
+  test('ignores case, accents, punctuation and leading articles', () => {
+    assert.equal(normalizeTitle('The Matrix'), 'matrix');
+    assert.equal(normalizeTitle('Amélie'), 'amelie');
+    assert.equal(normalizeTitle('Spider-Man: Into the Spider-Verse'), 'spider man into the spider verse');
+    assert.equal(normalizeTitle('Law & Order'), 'law and order');
+  });
+
+  test('treats spellings of the same title as identical', () => {
+    assert.equal(titleSimilarity('Leon: The Professional', 'Léon The Professional'), 1);
+  });
+});
+
+describe('resolveTitle', () => {
+  test('resolves an exact title and year with high confidence', async () => {
+    const match = await resolve({ title: 'The Matrix', year: 1999, mediaType: 'movie' });
+
+    assert.equal(match?.media.id, 603);
+    assert.equal(match?.media.media_type, 'movie');
+    assert.ok(match.confidence >= LOW_MATCH_CONFIDENCE);
+  });
+
+  test('picks the release from the requested year when a remake shares the title', async () => {
+    const original = await resolve({ title: 'Dune', year: 1984, mediaType: 'movie' });
+    const remake = await resolve({ title: 'Dune', year: 2021, mediaType: 'movie' });
+
+    // The 1984 film is only on the year-filtered page
+    assert.equal(original?.media.id, 841);
+    assert.equal(remake?.media.id, 438631);
+  });
+
+  test('picks the movie or the show by the requested type', async () => {
+    const show = await resolve({ title: 'Fargo', year: 2014, mediaType: 'tv' });
+    const movie = await resolve({ title: 'Fargo', year: 1996, mediaType: 'movie' });
+
+    assert.deepEqual([show?.media.media_type, show?.media.id], ['tv', 60622]);
+    assert.deepEqual([movie?.media.media_type, movie?.media.id], ['movie', 275]);
+  });
+
+  test('prefers the exact title across types when no type is given', async () => {
+    const match = await resolve({ title: 'Chernobyl', year: 2019, mediaType: null });
+
+    assert.deepEqual([match?.media.media_type, match?.media.id], ['tv', 87108]);
+    // Shows take their title from `name`
+    assert.equal(match?.media.title, 'Chernobyl');
+  });
+
+  test('matches titles written without diacritics or punctuation', async () => {
+    const amelie = await resolve({ title: 'Amelie', year: 2001, mediaType: 'movie' });
+    const spiderVerse = await resolve({ title: 'Spider Man Into the Spider Verse', year: 2018, mediaType: 'movie' });
+
+    assert.equal(amelie?.media.id, 194);
+    assert.ok(amelie.confidence >= LOW_MATCH_CONFIDENCE);
+    assert.equal(spiderVerse?.media.id, 324857);
+    assert.ok(spiderVerse.confidence >= LOW_MATCH_CONFIDENCE);
+  });
+
+  test('rejects a best match below MIN_MATCH_CONFIDENCE', async () => {
+    const match = await resolve({ title: 'Midnight Static', year: 2023, mediaType: 'movie' });
+
+    assert.equal(match, null);
+  });
+
+  test('keeps a partial match between MIN_MATCH_CONFIDENCE and LOW_MATCH_CONFIDENCE for flagging', async () => {
+    const match = await resolve({ title: 'The Quiet Earth Chronicles', year: 2023, mediaType: 'movie' });
+
+    assert.equal(match?.media.id, 30497);
+    assert.ok(match.confidence >= MIN_MATCH_CONFIDENCE);
+    assert.ok(match.confidence < LOW_MATCH_CONFIDENCE);
+  });
+
+  test('returns null when nothing is found', async () => {
+    assert.equal(await resolve({ title: 'A Title TMDB Has Never Heard Of', year: null, mediaType: null }), null);
+  });
+
+  test('skips excluded IDs and falls back to the next candidate', async () => {
+    const match = await resolve({ title: 'The Matrix', year: 1999, mediaType: 'movie' }, [603]);
+
+    assert.notEqual(match?.media.id, 603);
+  });
+
+  test('still resolves when only one type\'s search fails', async () => {
+    const moviesOnly = {
+      search: (mediaType: 'movie' | 'tv', query: string, options?: { year?: number | null }) =>
+        mediaType === 'tv' ? Promise.reject(new Error('TMDB is down')) : tmdb.search(mediaType, query, options),
+    };
+
+    const match = await resolveTitle({ title: 'Fargo', year: 1996, mediaType: 'movie' }, moviesOnly);
+
+    assert.equal(match?.media.id, 275);
+  });
+
+  test('throws when both searches fail', async () => {
+    const failing = { search: () => Promise.reject(new Error('TMDB is down')) };
+
+    await assert.rejects(resolveTitle({ title: 'Fargo', year: null, mediaType: null }, failing), /TMDB searches failed/);
+  });
+
+  test('passes the signal to every search', async () => {
+    const controller = new AbortController();
+    const signals: Array<AbortSignal | undefined> = [];
+    const recording = {
+      search: (mediaType: 'movie' | 'tv', query: string, options?: { year?: number | null; signal?: AbortSignal }) => {
+        signals.push(options?.signal);
+        return tmdb.search(mediaType, query, options);
+      },
+    };
+
+    await resolveTitle({ title: 'Dune', year: 1984, mediaType: 'movie' }, recording, { signal: controller.signal });
+
+    // Movie and TV, each with and without the year
+    assert.equal(signals.length, 4);
+    assert.ok(signals.every(signal => signal === controller.signal));
+  });
+});
@@ -0,0 +1,175 @@
+import type { TMDBClient } from './tmdbClient';
+import type { TMDBListItem } from './tmdbSchemas';
+import { Media, MediaType } from '@/types/media';
+
+export interface TitleQuery {
+  title: string;
+  year: number | null;
+  mediaType: MediaType | null;
+}
+
+export interface ResolvedTitle {
+  media: Media;
+  confidence: number;
+}
+
+// Matches below this are dropped entirely
+export const MIN_MATCH_CONFIDENCE = 0.5;
+// Matches below this are kept but flagged as uncertain in the UI
+export const LOW_MATCH_CONFIDENCE = 0.75;
+
+const WEIGHTS = {
+  title: 0.6,
+  year: 0.2,
+  mediaType: 0.12,
+  popularity: 0.08,
+};
+
+/**
+ * Normalize a title for comparison: case, accents, punctuation, "&" and leading articles
+ */
+export function normalizeTitle(title: string): string {
+  return title
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/^\s*(the|a|an)\s+/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+const bigrams = (value: string): string[] => {
+  const compact = value.replace(/\s/g, '');
+  const result: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) {
+    result.push(compact.slice(i, i + 2));
+  }
+  return result;
+};
+
+/**
+ * Similarity of two titles between 0 and 1 (Dice coefficient over character bigrams)
+ */
+export function titleSimilarity(a: string, b: string): number {
+  const left = normalizeTitle(a);
+  const right = normalizeTitle(b);
+
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  const leftBigrams = bigrams(left);
+  const rightBigrams = bigrams(right);
+  if (!leftBigrams.length || !rightBigrams.length) return 0;
+
+  const counts = new Map<string, number>();
+  leftBigrams.forEach(bigram => counts.set(bigram, (counts.get(bigram) || 0) + 1));
+
+  let overlap = 0;
+  rightBigrams.forEach(bigram => {
+    const count = counts.get(bigram) || 0;
+    if (count > 0) {
+      overlap++;
+      counts.set(bigram, count - 1);
+    }
+  });
+
+  return (2 * overlap) / (leftBigrams.length + rightBigrams.length);
+}
+
+const getCandidateYear = (candidate: TMDBListItem): number | null => {
+  const date = candidate.release_date || candidate.first_air_date;
+  return date ? Number(date.slice(0, 4)) || null : null;
+};
+
+const yearScore = (queryYear: number | null, candidateYear: number | null): number => {
+  // Unknown on either side is neutral
+  if (!queryYear || !candidateYear) return 0.5;
+  const diff = Math.abs(queryYear - candidateYear);
+  if (diff === 0) return 1;
+  // Festival vs. wide release dates often differ by a year
+  if (diff === 1) return 0.8;
+  if (diff === 2) return 0.4;
+  return 0;
+};
+
+/**
+ * Score a TMDB search result against the title we are looking for
+ * @returns A confidence value between 0 and 1
+ */
+export function scoreCandidate(query: TitleQuery, candidate: TMDBListItem, candidateType: MediaType): number {
+  const titles = [candidate.title, candidate.name, candidate.original_title, candidate.original_name]
+    .filter((title): title is string => !!title);
+  const similarity = Math.max(0, ...titles.map(title => titleSimilarity(query.title, title)));
+
+  const typeScore = !query.mediaType ? 0.5 : query.mediaType === candidateType ? 1 : 0;
+  const popularityScore = Math.min(1, Math.log10((candidate.popularity || 0) + 1) / 3);
+
+  return (
+    WEIGHTS.title * similarity +
+    WEIGHTS.year * yearScore(query.year, getCandidateYear(candidate)) +
+    WEIGHTS.mediaType * typeScore +
+    WEIGHTS.popularity * popularityScore
+  );
+}
+
+/**
+ * Rank movie and TV search results for a title, best match first
+ */
+export function rankCandidates(
+  query: TitleQuery,
+  results: { movie?: TMDBListItem[]; tv?: TMDBListItem[] }
+): ResolvedTitle[] {
+  const ranked = (['movie', 'tv'] as const).flatMap(mediaType =>
+    (results[mediaType] || []).map(candidate => ({
+      media: {
+        id: candidate.id,
+        title: (mediaType === 'movie' ? candidate.title : candidate.name) || candidate.title || candidate.name || '',
+        poster_path: candidate.poster_path,
+        media_type: mediaType,
+      },
+      confidence: scoreCandidate(query, candidate, mediaType),
+    }))
+  );
+
+  return ranked.sort((a, b) => b.confidence - a.confidence);
+}
+
+/**
+ * Resolve a title to a TMDB entry by searching and scoring the candidates
+ * @param query The title, release year and media type we are looking for
+ * @param tmdb The TMDB client to search with
+ * @param options IDs to skip when picking the best match, and a signal to stop searching
+ * @returns The best match above MIN_MATCH_CONFIDENCE, or null
+ */
+export async function resolveTitle(
+  query: TitleQuery,
+  tmdb: Pick<TMDBClient, 'search'>,
+  options: { excludeIds?: Iterable<number>; signal?: AbortSignal } = {}
+): Promise<ResolvedTitle | null> {
+  const excludeIds = new Set(options.excludeIds || []);
+
+  const searchType = async (mediaType: MediaType) => {
+    // A year-filtered search surfaces the right release when remakes crowd the first page
+    const years = query.year ? [null, query.year] : [null];
+    const responses = await Promise.all(years.map(year => tmdb.search(mediaType, query.title, { year, signal: options.signal })));
+    const candidates = new Map<number, TMDBListItem>();
+    responses.forEach(data => data.results.forEach(result => candidates.set(result.id, result)));
+    return Array.from(candidates.values());
+  };
+
+  const [movie, tv] = await Promise.all([
+    searchType('movie').catch(() => null),
+    searchType('tv').catch(() => null),
+  ]);
+
+  if (!movie && !tv) {
+    throw new Error(`TMDB searches failed for "${query.title}"`);
+  }
+
+  const best = rankCandidates(query, { movie: movie || [], tv: tv || [] })
+    .find(match => !excludeIds.has(match.media.id));
+
+  return best && best.confidence >= MIN_MATCH_CONFIDENCE ? best : null;
+}
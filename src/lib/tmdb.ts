@@ -0,0 +1,113 @@
+import { fetchWithRetry } from './retryUtils';
+import { withStaleWhileRevalidate, generateCacheKey, CACHE_TTL, CachedResult, cacheTags } from './cache';
+import { createTMDBClient } from './tmdbClient';
+import { MediaType } from '@/types/media';
+
+const TMDB_BASE_URL = 'https://api.themoviedb.org/3';
+
+interface TMDBCachePolicy {
+  pattern: RegExp;
+  // Seconds a response is served as is
+  ttl: number;
+  // Seconds past that it is still served while being refreshed in the background
+  staleTtl: number;
+}
+
+const HOUR = 60 * 60;
+const DAY = 24 * HOUR;
+
+// How long TMDB responses stay fresh, by how quickly each endpoint changes. The first matching path wins.
+const TMDB_CACHE_POLICIES: TMDBCachePolicy[] = [
+  // Credits, keywords and the like barely change once a title is out
+  {
+    pattern: /^\/(movie|tv)\/\d+\/(credits|aggregate_credits|keywords|external_ids|release_dates|content_ratings)$/,
+    ttl: 7 * DAY,
+    staleTtl: 30 * DAY,
+  },
+  { pattern: /^\/(genre\/(movie|tv)\/list|watch\/providers\/(regions|movie|tv))$/, ttl: 7 * DAY, staleTtl: 30 * DAY },
+  // Availability moves with licensing deals
+  { pattern: /^\/(movie|tv)\/\d+\/watch\/providers$/, ttl: 6 * HOUR, staleTtl: DAY },
+  // Show details carry next_episode_to_air, seasons the latest episodes
+  { pattern: /^\/tv\/\d+$/, ttl: 6 * HOUR, staleTtl: DAY },
+  { pattern: /^\/tv\/\d+\/season\/\d+(\/episode\/\d+)?$/, ttl: 6 * HOUR, staleTtl: DAY },
+  { pattern: /^\/search\//, ttl: HOUR, staleTtl: DAY },
+  { pattern: /^\/trending\//, ttl: HOUR, staleTtl: 6 * HOUR },
+  { pattern: /^\/(discover\/(movie|tv)|(movie|tv)\/(popular|top_rated|now_playing|upcoming|on_the_air|airing_today))$/, ttl: 6 * HOUR, staleTtl: DAY },
+];
+
+// Movie details, related titles, people and everything else
+const DEFAULT_TMDB_CACHE_POLICY = { ttl: CACHE_TTL.TMDB, staleTtl: 7 * DAY };
+
+const getTMDBCachePolicy = (pathname: string) =>
+  TMDB_CACHE_POLICIES.find(({ pattern }) => pattern.test(pathname)) || DEFAULT_TMDB_CACHE_POLICY;
+
+/**
+ * Fetch a TMDB path on the server, going through the shared cache with the path's TTL policy.
+ * Stale responses are served right away and refreshed in the background.
+ * The API key is appended here so it never has to leave the server.
+ * @param path The TMDB path including its query string, e.g. `/search/movie?query=Heat`
+ * @param options.signal Stops waiting for TMDB, e.g. when the client disconnects
+ * @returns The parsed TMDB response, with whether it was served from the cache
+ */
+export async function fetchFromTMDBWithStatus<T = unknown>(
+  path: string,
+  { signal }: { signal?: AbortSignal } = {}
+): Promise<CachedResult<T>> {
+  // Share cache entries with the /api/tmdb proxy by using the same key
+  const cacheKey = generateCacheKey('tmdb', { path });
+  const { ttl, staleTtl } = getTMDBCachePolicy(path.split('?')[0]);
+  // Responses about one title, e.g. `/tv/1399/season/1`, can be dropped together by its tag
+  const title = path.match(/^\/(movie|tv)\/(\d+)/);
+
+  return withStaleWhileRevalidate<T>(
+    cacheKey,
+    { ttl, staleTtl, tags: title ? [cacheTags.media(title[1] as MediaType, Number(title[2]))] : [], signal },
+    async signal => {
+      const timeout = AbortSignal.timeout(10000); // 10 second timeout
+      const tmdbResponse = await fetchWithRetry(
+        `${TMDB_BASE_URL}${path}${path.includes('?') ? '&' : '?'}api_key=${process.env.TMDB_API_KEY}`,
+        {
+          headers: {
+            'Accept': 'application/json'
+          },
+          signal: signal ? AbortSignal.any([signal, timeout]) : timeout
+        },
+        {
+          maxRetries: 3,
+          baseDelay: 1000,
+          maxDelay: 5000
+        }
+      );
+
+      if (!tmdbResponse.ok) {
+        const errorData = await tmdbResponse.json().catch(() => ({
+          status_message: tmdbResponse.statusText || 'Unknown error',
+          status_code: tmdbResponse.status
+        }));
+
+        console.error('TMDB API error:', {
+          status: tmdbResponse.status,
+          statusText: tmdbResponse.statusText,
+          error: errorData
+        });
+
+        throw new Error(errorData.status_message || 'TMDB API error');
+      }
+
+      return tmdbResponse.json();
+    }
+  );
+}
+
+/**
+ * Fetch a TMDB path on the server, see fetchFromTMDBWithStatus
+ * @returns The parsed TMDB response
+ */
+export async function fetchFromTMDB<T = unknown>(path: string, options: { signal?: AbortSignal } = {}): Promise<T> {
+  return (await fetchFromTMDBWithStatus<T>(path, options)).data;
+}
+
+/**
+ * Typed TMDB client for server code, reading through fetchFromTMDB
+ */
+export const tmdb = createTMDBClient((path, { signal }) => fetchFromTMDB(path, { signal }));
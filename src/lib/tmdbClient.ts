@@ -0,0 +1,204 @@
+import { z, ZodError, ZodTypeAny } from 'zod';
+import { DEFAULT_WATCH_REGION } from './utils';
+import {
+  tmdbCreditsSchema,
+  tmdbDetailsAppendSchema,
+  tmdbGenreListSchema,
+  tmdbListResponseSchema,
+  tmdbMovieDetailsSchema,
+  tmdbPersonSchema,
+  tmdbProviderOptionListSchema,
+  tmdbSeasonSchema,
+  tmdbTVShowDetailsSchema,
+  tmdbVideoListSchema,
+  tmdbWatchProvidersSchema,
+  tmdbWatchRegionListSchema,
+} from './tmdbSchemas';
+import { MediaDetails, MediaType, MovieDetails, TVShowDetails } from '@/types/media';
+
+/**
+ * Fetches a TMDB path including its query string, e.g. `/movie/603?language=en-US`, and returns the raw JSON.
+ * The server reads TMDB directly (lib/tmdb), the browser goes through the /api/tmdb proxy (lib/api).
+ */
+export type TMDBFetcher = (path: string, options: { signal?: AbortSignal }) => Promise<unknown>;
+
+export interface TMDBRequestOptions {
+  signal?: AbortSignal;
+  language?: string;
+}
+
+export type TMDBDetailsAppend = z.infer<typeof tmdbDetailsAppendSchema>;
+
+type TMDBQuery = Record<string, string | number | boolean | undefined>;
+
+export const TMDB_DEFAULT_LANGUAGE = 'en-US';
+
+export class TMDBResponseError extends Error {
+  constructor(path: string, public readonly issues: ZodError['issues']) {
+    const issue = issues[0];
+    super(`Unexpected TMDB response for ${path}${issue ? ` at "${issue.path.join('.')}": ${issue.message}` : ''}`);
+    this.name = 'TMDBResponseError';
+  }
+}
+
+/**
+ * Create a typed TMDB client on top of a fetcher.
+ * Every response is parsed with its zod schema, so a change in TMDB's fields fails here
+ * with a TMDBResponseError instead of as undefined values further down.
+ */
+export function createTMDBClient(fetcher: TMDBFetcher) {
+  const get = async <S extends ZodTypeAny>(
+    schema: S,
+    path: string,
+    query: TMDBQuery,
+    signal?: AbortSignal
+  ): Promise<z.output<S>> => {
+    const params = new URLSearchParams();
+    Object.entries(query).forEach(([key, value]) => {
+      if (value !== undefined) params.set(key, String(value));
+    });
+    const search = params.toString();
+
+    const result = schema.safeParse(await fetcher(`${path}${search ? `?${search}` : ''}`, { signal }));
+    if (!result.success) {
+      throw new TMDBResponseError(path, result.error.issues);
+    }
+    return result.data;
+  };
+
+  /**
+   * Details of a movie or show, with `title` and `media_type` set for both
+   * @param options.append Sub-resources to include in the same request
+   */
+  function details(
+    mediaType: 'movie',
+    mediaId: number,
+    options?: TMDBRequestOptions & { append?: TMDBDetailsAppend[] }
+  ): Promise<MovieDetails>;
+  function details(
+    mediaType: 'tv',
+    mediaId: number,
+    options?: TMDBRequestOptions & { append?: TMDBDetailsAppend[] }
+  ): Promise<TVShowDetails>;
+  function details(
+    mediaType: MediaType,
+    mediaId: number,
+    options?: TMDBRequestOptions & { append?: TMDBDetailsAppend[] }
+  ): Promise<MediaDetails>;
+  function details(
+    mediaType: MediaType,
+    mediaId: number,
+    { signal, language = TMDB_DEFAULT_LANGUAGE, append = [] }: TMDBRequestOptions & { append?: TMDBDetailsAppend[] } = {}
+  ): Promise<MediaDetails> {
+    const schema = mediaType === 'movie' ? tmdbMovieDetailsSchema : tmdbTVShowDetailsSchema;
+    return get(schema, `/${mediaType}/${mediaId}`, {
+      language,
+      append_to_response: append.length > 0 ? append.join(',') : undefined,
+    }, signal);
+  }
+
+  return {
+    details,
+
+    /**
+     * Search movies or shows by title
+     * @param options.year Narrows the results to a release (or first air) year
+     */
+    search: (
+      mediaType: MediaType,
+      query: string,
+      { signal, language = TMDB_DEFAULT_LANGUAGE, year, page = 1 }: TMDBRequestOptions & { year?: number | null; page?: number } = {}
+    ) =>
+      get(tmdbListResponseSchema, `/search/${mediaType}`, {
+        query,
+        include_adult: false,
+        language,
+        page,
+        [mediaType === 'movie' ? 'year' : 'first_air_date_year']: year ?? undefined,
+      }, signal),
+
+    /**
+     * Browse titles with TMDB's discover filters, e.g. `{ sort_by: 'popularity.desc' }`
+     */
+    discover: (
+      mediaType: MediaType,
+      filters: TMDBQuery,
+      { signal, language = TMDB_DEFAULT_LANGUAGE }: TMDBRequestOptions = {}
+    ) =>
+      get(tmdbListResponseSchema, `/discover/${mediaType}`, { include_adult: false, language, page: 1, ...filters }, signal),
+
+    /**
+     * Titles related to a movie or show, from TMDB's `/recommendations` or (keyword based) `/similar` list
+     */
+    related: (
+      mediaType: MediaType,
+      mediaId: number,
+      source: 'recommendations' | 'similar',
+      { signal, language = TMDB_DEFAULT_LANGUAGE }: TMDBRequestOptions = {}
+    ) => get(tmdbListResponseSchema, `/${mediaType}/${mediaId}/${source}`, { language, page: 1 }, signal),
+
+    popular: (mediaType: MediaType, { signal, language = TMDB_DEFAULT_LANGUAGE }: TMDBRequestOptions = {}) =>
+      get(tmdbListResponseSchema, `/${mediaType}/popular`, { language, page: 1 }, signal),
+
+    credits: (mediaType: MediaType, mediaId: number, { signal, language = TMDB_DEFAULT_LANGUAGE }: TMDBRequestOptions = {}) =>
+      get(tmdbCreditsSchema, `/${mediaType}/${mediaId}/credits`, { language }, signal),
+
+    /**
+     * A season of a show with its episodes
+     */
+    season: (
+      showId: number,
+      seasonNumber: number,
+      { signal, language = TMDB_DEFAULT_LANGUAGE }: TMDBRequestOptions = {}
+    ) => get(tmdbSeasonSchema, `/tv/${showId}/season/${seasonNumber}`, { language }, signal),
+
+    /**
+     * Trailers and clips in the requested language, falling back to English and language-less ones
+     */
+    videos: async (mediaType: MediaType, mediaId: number, { signal, language = TMDB_DEFAULT_LANGUAGE }: TMDBRequestOptions = {}) => {
+      const fallbacks = Array.from(new Set([language.split('-')[0], 'en', 'null'])).join(',');
+      const data = await get(tmdbVideoListSchema, `/${mediaType}/${mediaId}/videos`, { language, include_video_language: fallbacks }, signal);
+      return data.results;
+    },
+
+    /**
+     * Where a title streams, rents and sells in one region
+     * @returns The region's providers, or null when TMDB has none there
+     */
+    providers: async (
+      mediaType: MediaType,
+      mediaId: number,
+      { signal, region = DEFAULT_WATCH_REGION }: { signal?: AbortSignal; region?: string } = {}
+    ) => {
+      const data = await get(tmdbWatchProvidersSchema, `/${mediaType}/${mediaId}/watch/providers`, {}, signal);
+      return data.results[region] || null;
+    },
+
+    genres: async (mediaType: MediaType, { signal, language = TMDB_DEFAULT_LANGUAGE }: TMDBRequestOptions = {}) =>
+      (await get(tmdbGenreListSchema, `/genre/${mediaType}/list`, { language }, signal)).genres,
+
+    /**
+     * An actor's or filmmaker's profile with every movie and show they are credited on
+     */
+    person: (personId: number, { signal, language = TMDB_DEFAULT_LANGUAGE }: TMDBRequestOptions = {}) =>
+      get(tmdbPersonSchema, `/person/${personId}`, { language, append_to_response: 'combined_credits' }, signal),
+
+    /**
+     * The countries TMDB has watch provider data for
+     */
+    watchRegions: async ({ signal, language = TMDB_DEFAULT_LANGUAGE }: TMDBRequestOptions = {}) =>
+      (await get(tmdbWatchRegionListSchema, '/watch/providers/regions', { language }, signal)).results,
+
+    /**
+     * The movie or TV providers available in a region
+     */
+    watchProviders: async (
+      mediaType: MediaType,
+      region: string,
+      { signal, language = TMDB_DEFAULT_LANGUAGE }: TMDBRequestOptions = {}
+    ) =>
+      (await get(tmdbProviderOptionListSchema, `/watch/providers/${mediaType}`, { language, watch_region: region }, signal)).results,
+  };
+}
+
+export type TMDBClient = ReturnType<typeof createTMDBClient>;
@@ -0,0 +1,58 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { validateTMDBProxyPath } from './tmdbProxy';
+
+const pathOf = (path: string, extraParams?: URLSearchParams) => {
+  const result = validateTMDBProxyPath(path, extraParams);
+  return result.success ? result.path : null;
+};
+
+const errorOf = (path: string, extraParams?: URLSearchParams) => {
+  const result = validateTMDBProxyPath(path, extraParams);
+  return result.success ? null : result.error;
+};
+
+describe('validateTMDBProxyPath', () => {
+  test('allows the endpoints the client uses', () => {
+    for (const path of [
+      '/search/multi?query=Heat',
+      '/discover/movie?with_genres=28&sort_by=popularity.desc',
+      '/trending/all/week',
+      '/movie/603',
+      '/tv/1396/aggregate_credits',
+      '/movie/603/watch/providers?watch_region=GB',
+      '/tv/1396/season/1/episode/2',
+      '/person/287/combined_credits',
+      '/genre/tv/list?language=fr-FR',
+    ]) {
+      assert.ok(pathOf(path), path);
+    }
+  });
+
+  test('rejects endpoints outside the allowlist', () => {
+    assert.match(errorOf('/account/123/favorite/movies') || '', /Unsupported TMDB path/);
+    assert.match(errorOf('/movie/603/lists') || '', /Unsupported TMDB path/);
+    assert.match(errorOf('/movie/abc') || '', /Unsupported TMDB path/);
+  });
+
+  test('only accepts paths on TMDB', () => {
+    assert.equal(errorOf('//example.com/search/movie?query=Heat'), 'Invalid path');
+    assert.equal(errorOf('https://example.com/movie/603'), 'Invalid path');
+    assert.equal(errorOf('movie/603'), 'Invalid path');
+  });
+
+  test('rejects unknown, malformed and repeated query parameters', () => {
+    assert.match(errorOf('/movie/603?api_key=stolen') || '', /Invalid query parameter/);
+    assert.match(errorOf('/movie/popular?page=501') || '', /"page"/);
+    assert.match(errorOf('/movie/603?append_to_response=credits,account_states') || '', /append_to_response/);
+    assert.match(errorOf('/search/movie') || '', /"query"/);
+    assert.equal(errorOf('/search/movie?query=Heat&query=Ronin'), 'Repeated query parameter');
+  });
+
+  test('folds parameters sent next to an unencoded path back into it', () => {
+    const extra = new URLSearchParams({ page: '2', language: 'de-DE' });
+
+    assert.equal(pathOf('/search/movie?query=Heat', extra), '/search/movie?query=Heat&page=2&language=de-DE');
+    assert.equal(errorOf('/search/movie?query=Heat&page=1', new URLSearchParams({ page: '2' })), 'Repeated query parameter');
+  });
+});
@@ -0,0 +1,79 @@
+import { ZodTypeAny } from 'zod';
+import { RateLimit } from './rateLimit';
+import { tmdbProxyParamsSchemas } from './validationSchemas';
+
+interface TMDBProxyEndpoint {
+  pattern: RegExp;
+  params: ZodTypeAny;
+}
+
+export type TMDBProxyPathResult =
+  | { success: true; path: string }
+  | { success: false; error: string };
+
+// Signed-in users are not limited, a page of posters and details takes a few dozen requests
+export const TMDB_PROXY_ANONYMOUS_RATE_LIMIT: RateLimit = { limit: 120, windowSeconds: 60 };
+
+// The TMDB endpoints the client may reach through /api/tmdb, everything else is rejected
+const TMDB_PROXY_ENDPOINTS: TMDBProxyEndpoint[] = [
+  { pattern: /^\/search\/(movie|tv|person|multi)$/, params: tmdbProxyParamsSchemas.search },
+  { pattern: /^\/discover\/(movie|tv)$/, params: tmdbProxyParamsSchemas.discover },
+  { pattern: /^\/trending\/(all|movie|tv|person)\/(day|week)$/, params: tmdbProxyParamsSchemas.list },
+  { pattern: /^\/movie\/(popular|top_rated|now_playing|upcoming)$/, params: tmdbProxyParamsSchemas.list },
+  { pattern: /^\/tv\/(popular|top_rated|on_the_air|airing_today)$/, params: tmdbProxyParamsSchemas.list },
+  { pattern: /^\/(movie|tv)\/\d+$/, params: tmdbProxyParamsSchemas.details },
+  {
+    pattern: /^\/(movie|tv)\/\d+\/(credits|aggregate_credits|videos|images|keywords|release_dates|content_ratings|external_ids)$/,
+    params: tmdbProxyParamsSchemas.details,
+  },
+  { pattern: /^\/(movie|tv)\/\d+\/(similar|recommendations)$/, params: tmdbProxyParamsSchemas.list },
+  { pattern: /^\/(movie|tv)\/\d+\/watch\/providers$/, params: tmdbProxyParamsSchemas.providers },
+  { pattern: /^\/tv\/\d+\/season\/\d+(\/episode\/\d+)?$/, params: tmdbProxyParamsSchemas.details },
+  { pattern: /^\/person\/\d+$/, params: tmdbProxyParamsSchemas.details },
+  { pattern: /^\/person\/\d+\/(movie_credits|tv_credits|combined_credits|images|external_ids)$/, params: tmdbProxyParamsSchemas.details },
+  { pattern: /^\/genre\/(movie|tv)\/list$/, params: tmdbProxyParamsSchemas.list },
+  { pattern: /^\/watch\/providers\/(regions|movie|tv)$/, params: tmdbProxyParamsSchemas.providers },
+];
+
+/**
+ * Check a path requested through the /api/tmdb proxy against the allowlist
+ * @param path The TMDB path including its query string, e.g. `/search/movie?query=Heat`
+ * @param extraParams Query parameters sent next to `path`. Callers that do not encode the path
+ * have everything after its first `&` arrive this way, so they are folded back into the path.
+ * @returns The path to fetch with its validated query string, or why it was rejected
+ */
+export function validateTMDBProxyPath(path: string, extraParams?: URLSearchParams): TMDBProxyPathResult {
+  let url: URL;
+  try {
+    url = new URL(path, 'https://api.themoviedb.org');
+  } catch {
+    return { success: false, error: 'Invalid path' };
+  }
+
+  // Only paths, never another host such as "//example.com"
+  if (!path.startsWith('/') || url.host !== 'api.themoviedb.org') {
+    return { success: false, error: 'Invalid path' };
+  }
+
+  const endpoint = TMDB_PROXY_ENDPOINTS.find(({ pattern }) => pattern.test(url.pathname));
+  if (!endpoint) {
+    return { success: false, error: `Unsupported TMDB path: ${url.pathname}` };
+  }
+
+  const params = new URLSearchParams(url.search);
+  extraParams?.forEach((value, key) => params.append(key, value));
+
+  const entries = Array.from(params.entries());
+  if (new Set(entries.map(([key]) => key)).size !== entries.length) {
+    return { success: false, error: 'Repeated query parameter' };
+  }
+
+  const result = endpoint.params.safeParse(Object.fromEntries(entries));
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    return { success: false, error: `Invalid query parameter${issue.path.length ? ` "${issue.path.join('.')}"` : ''}: ${issue.message}` };
+  }
+
+  const query = params.toString();
+  return { success: true, path: `${url.pathname}${query ? `?${query}` : ''}` };
+}
@@ -0,0 +1,260 @@
+import { z, ZodTypeAny } from 'zod';
+
+// TMDB responses, parsed by the TMDB client (lib/tmdbClient).
+// TMDB sends null for missing values, which the app treats as absent.
+const tmdbOptional = <T extends ZodTypeAny>(schema: T) => schema.nullish().transform(value => value ?? undefined);
+// Missing images and text become '', so they can be checked and rendered like any other string
+const tmdbText = z.string().nullish().transform(value => value ?? '');
+
+// Sub-resources the TMDB details schemas know how to parse
+export const tmdbDetailsAppendSchema = z.enum(['credits', 'release_dates', 'content_ratings', 'keywords']);
+
+const tmdbGenreSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+});
+
+const tmdbKeywordSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+});
+
+const tmdbCompanySchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  logo_path: tmdbOptional(z.string()),
+});
+
+export const tmdbCastMemberSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  character: tmdbOptional(z.string()),
+  profile_path: z.string().nullish().transform(path => path ?? null),
+  order: tmdbOptional(z.number()),
+});
+
+export const tmdbCrewMemberSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  job: tmdbOptional(z.string()),
+  department: tmdbOptional(z.string()),
+  profile_path: z.string().nullish().transform(path => path ?? null),
+});
+
+export const tmdbCreditsSchema = z.object({
+  cast: z.array(tmdbCastMemberSchema).default([]),
+  crew: z.array(tmdbCrewMemberSchema).default([]),
+});
+
+const tmdbReleaseDatesSchema = z.object({
+  results: z.array(z.object({
+    iso_3166_1: z.string(),
+    release_dates: z.array(z.object({ certification: z.string() })),
+  })),
+});
+
+const tmdbContentRatingsSchema = z.object({
+  results: z.array(z.object({ iso_3166_1: z.string(), rating: z.string() })),
+});
+
+const tmdbDetailsFields = {
+  id: z.number(),
+  poster_path: tmdbText,
+  backdrop_path: tmdbText,
+  vote_average: z.number().default(0),
+  vote_count: tmdbOptional(z.number()),
+  overview: tmdbText,
+  tagline: tmdbText,
+  original_language: tmdbText,
+  genres: z.array(tmdbGenreSchema).default([]),
+  status: tmdbOptional(z.string()),
+  // Only present when requested through append_to_response
+  credits: tmdbCreditsSchema.optional(),
+};
+
+export const tmdbMovieDetailsSchema = z.object({
+  ...tmdbDetailsFields,
+  title: z.string(),
+  original_title: tmdbOptional(z.string()),
+  runtime: tmdbOptional(z.number()),
+  release_date: tmdbOptional(z.string()),
+  production_companies: z.array(tmdbCompanySchema).optional(),
+  budget: tmdbOptional(z.number()),
+  revenue: tmdbOptional(z.number()),
+  release_dates: tmdbReleaseDatesSchema.optional(),
+  keywords: z.object({ keywords: z.array(tmdbKeywordSchema).default([]) }).optional(),
+}).transform(movie => ({ ...movie, media_type: 'movie' as const }));
+
+export const tmdbTVShowDetailsSchema = z.object({
+  ...tmdbDetailsFields,
+  name: z.string(),
+  original_name: tmdbOptional(z.string()),
+  number_of_seasons: tmdbOptional(z.number()),
+  number_of_episodes: tmdbOptional(z.number()),
+  episode_run_time: z.array(z.number()).optional(),
+  first_air_date: tmdbOptional(z.string()),
+  last_air_date: tmdbOptional(z.string()),
+  next_episode_to_air: tmdbOptional(z.object({
+    air_date: z.string(),
+    episode_number: z.number(),
+    season_number: z.number(),
+    name: z.string(),
+  })),
+  in_production: tmdbOptional(z.boolean()),
+  networks: z.array(tmdbCompanySchema).optional(),
+  seasons: z.array(z.object({
+    id: z.number(),
+    name: z.string(),
+    episode_count: z.number().default(0),
+    season_number: z.number(),
+    air_date: tmdbOptional(z.string()),
+    poster_path: tmdbOptional(z.string()),
+    overview: tmdbOptional(z.string()),
+  })).optional(),
+  created_by: z.array(z.object({ id: z.number(), name: z.string() })).optional(),
+  content_ratings: tmdbContentRatingsSchema.optional(),
+  // Shows list their keywords under results, unlike movies
+  keywords: z.object({ results: z.array(tmdbKeywordSchema).default([]) }).optional(),
+}).transform(show => ({ ...show, title: show.name, media_type: 'tv' as const }));
+
+export const tmdbSeasonSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  season_number: z.number(),
+  air_date: tmdbOptional(z.string()),
+  overview: tmdbText,
+  poster_path: tmdbText,
+  episodes: z.array(z.object({
+    id: z.number(),
+    name: z.string(),
+    episode_number: z.number(),
+    season_number: z.number(),
+    air_date: tmdbOptional(z.string()),
+    runtime: tmdbOptional(z.number()),
+    overview: tmdbText,
+    still_path: tmdbText,
+    vote_average: z.number().default(0),
+  })).default([]),
+});
+
+// A title in search results, discover and the other paged lists
+export const tmdbListItemSchema = z.object({
+  id: z.number(),
+  title: tmdbOptional(z.string()),
+  name: tmdbOptional(z.string()),
+  original_title: tmdbOptional(z.string()),
+  original_name: tmdbOptional(z.string()),
+  poster_path: tmdbText,
+  backdrop_path: tmdbText,
+  release_date: tmdbOptional(z.string()),
+  first_air_date: tmdbOptional(z.string()),
+  popularity: z.number().default(0),
+  vote_average: z.number().default(0),
+  genre_ids: z.array(z.number()).default([]),
+  overview: tmdbText,
+});
+
+export const tmdbListResponseSchema = z.object({
+  page: z.number().default(1),
+  results: z.array(tmdbListItemSchema).default([]),
+  total_pages: z.number().default(1),
+  total_results: z.number().default(0),
+});
+
+export const tmdbGenreListSchema = z.object({
+  genres: z.array(tmdbGenreSchema).default([]),
+});
+
+export const tmdbVideoListSchema = z.object({
+  results: z.array(z.object({
+    key: z.string(),
+    site: z.string(),
+    type: z.string(),
+    name: z.string(),
+  })).default([]),
+});
+
+export const tmdbProviderSchema = z.object({
+  provider_id: z.number(),
+  provider_name: z.string(),
+  logo_path: tmdbText,
+});
+
+export const tmdbStreamingDataSchema = z.object({
+  link: tmdbOptional(z.string()),
+  flatrate: z.array(tmdbProviderSchema).optional(),
+  rent: z.array(tmdbProviderSchema).optional(),
+  buy: z.array(tmdbProviderSchema).optional(),
+});
+
+// Availability of one title, by watch region
+export const tmdbWatchProvidersSchema = z.object({
+  results: z.record(z.string(), tmdbStreamingDataSchema).default({}),
+});
+
+// The providers TMDB knows of in a region, for picking streaming services
+export const tmdbProviderOptionListSchema = z.object({
+  results: z.array(tmdbProviderSchema.extend({
+    display_priority: tmdbOptional(z.number()),
+    display_priorities: z.record(z.string(), z.number()).optional(),
+  })).default([]),
+});
+
+export const tmdbWatchRegionListSchema = z.object({
+  results: z.array(z.object({
+    iso_3166_1: z.string(),
+    english_name: z.string(),
+    // In the requested language
+    native_name: tmdbOptional(z.string()),
+  })).default([]),
+});
+
+// A title someone worked on, in their combined movie and TV credits
+const tmdbPersonCreditSchema = z.object({
+  id: z.number(),
+  media_type: z.enum(['movie', 'tv']),
+  title: tmdbOptional(z.string()),
+  name: tmdbOptional(z.string()),
+  poster_path: tmdbText,
+  release_date: tmdbOptional(z.string()),
+  first_air_date: tmdbOptional(z.string()),
+  popularity: z.number().default(0),
+  vote_average: z.number().default(0),
+  vote_count: z.number().default(0),
+  // Cast credits have a character, crew credits a job
+  character: tmdbOptional(z.string()),
+  job: tmdbOptional(z.string()),
+  department: tmdbOptional(z.string()),
+  episode_count: tmdbOptional(z.number()),
+});
+
+export const tmdbPersonSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  biography: tmdbText,
+  profile_path: tmdbText,
+  known_for_department: tmdbOptional(z.string()),
+  birthday: tmdbOptional(z.string()),
+  deathday: tmdbOptional(z.string()),
+  place_of_birth: tmdbOptional(z.string()),
+  // Only present when requested through append_to_response
+  combined_credits: z.object({
+    cast: z.array(tmdbPersonCreditSchema).default([]),
+    crew: z.array(tmdbPersonCreditSchema).default([]),
+  }).optional(),
+});
+
+export type TMDBMovieDetails = z.infer<typeof tmdbMovieDetailsSchema>;
+export type TMDBTVShowDetails = z.infer<typeof tmdbTVShowDetailsSchema>;
+export type TMDBCredits = z.infer<typeof tmdbCreditsSchema>;
+export type TMDBSeason = z.infer<typeof tmdbSeasonSchema>;
+export type TMDBListItem = z.infer<typeof tmdbListItemSchema>;
+export type TMDBListResponse = z.infer<typeof tmdbListResponseSchema>;
+export type TMDBGenre = z.infer<typeof tmdbGenreSchema>;
+export type TMDBVideo = z.infer<typeof tmdbVideoListSchema>['results'][number];
+export type TMDBProvider = z.infer<typeof tmdbProviderSchema>;
+export type TMDBStreamingData = z.infer<typeof tmdbStreamingDataSchema>;
+export type TMDBProviderOption = z.infer<typeof tmdbProviderOptionListSchema>['results'][number];
+export type TMDBWatchRegion = z.infer<typeof tmdbWatchRegionListSchema>['results'][number];
+export type TMDBPerson = z.infer<typeof tmdbPersonSchema>;
+export type TMDBPersonCredit = z.infer<typeof tmdbPersonCreditSchema>;
@@ -0,0 +1,44 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { interleaveMediaTypes, mapWithConcurrency } from './utils';
+import { MediaType } from '@/types/media';
+
+const items = (...keys: string[]) => keys.map(key => ({ key, type: (key[0] === 'm' ? 'movie' : 'tv') as MediaType }));
+const keysOf = (list: Array<{ key: string }>) => list.map(item => item.key);
+
+describe('interleaveMediaTypes', () => {
+  test('alternates movies and shows, starting with a movie, keeping each type\'s order', () => {
+    const blended = interleaveMediaTypes(items('t1', 't2', 'm1', 't3', 'm2', 'm3'), item => item.type);
+
+    assert.deepEqual(keysOf(blended), ['m1', 't1', 'm2', 't2', 'm3', 't3']);
+  });
+
+  test('puts what is left of the larger type at the end', () => {
+    const blended = interleaveMediaTypes(items('m1', 'm2', 'm3', 'm4', 't1'), item => item.type);
+
+    assert.deepEqual(keysOf(blended), ['m1', 't1', 'm2', 'm3', 'm4']);
+  });
+
+  test('leaves a single-type list as it is', () => {
+    assert.deepEqual(keysOf(interleaveMediaTypes(items('t2', 't1'), item => item.type)), ['t2', 't1']);
+    assert.deepEqual(interleaveMediaTypes([], () => 'movie'), []);
+  });
+});
+
+describe('mapWithConcurrency', () => {
+  test('keeps the input order with at most `limit` calls in flight', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    const results = await mapWithConcurrency([30, 10, 20, 0, 5], 2, async delay => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise(resolve => setTimeout(resolve, delay));
+      inFlight--;
+      return delay * 2;
+    });
+
+    assert.deepEqual(results, [60, 20, 40, 0, 10]);
+    assert.equal(maxInFlight, 2);
+  });
+});
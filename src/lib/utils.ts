@@ -1,5 +1,12 @@
 import clsx, { ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
+import { MediaType } from "@/types/media"
+
+// Watch region used until a user picks their own
+export const DEFAULT_WATCH_REGION = 'IN'
+
+// Key for per-title streaming availability, as `${mediaType}:${mediaId}`
+export const availabilityKey = (mediaType: MediaType, mediaId: number) => `${mediaType}:${mediaId}`
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
@@ -12,3 +19,47 @@ export function cn(...inputs: ClassValue[]) {
 export function sleep(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
+
+/**
+ * Alternate movies and TV shows while keeping each type's own order.
+ * Whatever is left of the larger type goes at the end.
+ * @param items The items to blend, in ranked order
+ * @param getMediaType Reads the media type of an item
+ */
+export function interleaveMediaTypes<T>(items: T[], getMediaType: (item: T) => MediaType): T[] {
+  const movies = items.filter(item => getMediaType(item) === 'movie');
+  const shows = items.filter(item => getMediaType(item) === 'tv');
+  const blended: T[] = [];
+
+  for (let i = 0; i < Math.max(movies.length, shows.length); i++) {
+    if (i < movies.length) blended.push(movies[i]);
+    if (i < shows.length) blended.push(shows[i]);
+  }
+
+  return blended;
+}
+
+/**
+ * Map over items with a bounded number of calls in flight, keeping the input order
+ * @param items The items to map
+ * @param limit The most calls to run at once
+ * @param fn The async mapping function
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
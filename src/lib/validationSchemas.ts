@@ -1,5 +1,7 @@
 import { z } from 'zod';
-import { WatchStatus } from './prismaTypes';
+import { FeedbackType, WatchStatus } from './prismaTypes';
+import { CERTIFICATIONS } from './recommendationFilters';
+import { tmdbDetailsAppendSchema } from './tmdbSchemas';
 
 export const watchlistUpdateSchema = z.object({
   status: z.nativeEnum(WatchStatus).optional(),
@@ -38,3 +40,211 @@ export const watchlistCreateSchema = z.object({
   nextAirDate: z.string().nullable().optional(),
   showStatus: z.string().nullable().optional(),
 });
+
+const decadeSchema = z.number().int().min(1900).max(2090).multipleOf(10);
+const languageSchema = z.string().regex(/^[a-z]{2}$/, 'Expected an ISO 639-1 language code');
+
+// Hard constraints checked against TMDB details after resolution
+export const recommendationFiltersSchema = z.object({
+  // Minutes (episode runtime for TV)
+  minRuntime: z.number().int().min(0).max(600).optional(),
+  maxRuntime: z.number().int().min(0).max(600).optional(),
+  // First year of the decade, e.g. 1990
+  fromDecade: decadeSchema.optional(),
+  toDecade: decadeSchema.optional(),
+  originalLanguage: languageSchema.optional(),
+  excludedLanguage: languageSchema.optional(),
+  maxCertification: z.enum(CERTIFICATIONS).optional(),
+  minVoteAverage: z.number().min(0).max(10).optional(),
+}).refine(
+  data => data.minRuntime === undefined || data.maxRuntime === undefined || data.minRuntime <= data.maxRuntime,
+  { message: 'Minimum runtime must not exceed maximum runtime' }
+).refine(
+  data => data.fromDecade === undefined || data.toDecade === undefined || data.fromDecade <= data.toDecade,
+  { message: 'Start decade must not be after end decade' }
+);
+
+export const selectedMediaSchema = z.array(z.object({
+  id: z.number(),
+  title: z.string(),
+  poster_path: z.string().nullable().transform(path => path ?? ''),
+  media_type: z.enum(['movie', 'tv']),
+})).max(3).default([]);
+
+export const recommendationRequestSchema = z.object({
+  description: z.string().max(2000).default(''),
+  selectedMedia: selectedMediaSchema,
+  count: z.number().int().min(1).max(20).default(15),
+  mediaType: z.enum(['movie', 'tv', 'mixed']),
+  // `${mediaType}:${id}`, since movie and TV IDs overlap on TMDB
+  excludeKeys: z.array(z.string().regex(/^(movie|tv):\d+$/, 'Expected a key such as movie:603')).max(200).default([]),
+  useTaste: z.boolean().default(false),
+  // Only keep titles streaming on the signed-in user's services
+  onlyMyServices: z.boolean().default(false),
+  filters: recommendationFiltersSchema.optional(),
+}).refine(
+  data => data.description.trim().length > 0 || data.selectedMedia.length > 0,
+  { message: 'Please enter a description or select some titles' }
+);
+
+export const groupRecommendationRequestSchema = z.object({
+  // The organizer is always included, these are the friends joining them
+  friendIds: z.array(z.string().min(1)).min(1).max(5),
+  description: z.string().max(2000).default(''),
+  count: z.number().int().min(1).max(20).default(10),
+  mediaType: z.enum(['movie', 'tv', 'mixed']),
+  filters: recommendationFiltersSchema.optional(),
+});
+
+export const conversationStartSchema = z.object({
+  // Continue from a saved session instead of asking for new results
+  sessionId: z.string().min(1).optional(),
+  message: z.string().trim().max(500).default(''),
+  selectedMedia: selectedMediaSchema,
+  mediaType: z.enum(['movie', 'tv', 'mixed']).default('movie'),
+  useTaste: z.boolean().default(false),
+  onlyMyServices: z.boolean().default(false),
+  filters: recommendationFiltersSchema.optional(),
+}).refine(
+  data => !!data.sessionId || data.message.length > 0 || data.selectedMedia.length > 0,
+  { message: 'Please enter a message or select some titles' }
+);
+
+export const conversationMessageSchema = z.object({
+  message: z.string().trim().min(1).max(500),
+});
+
+export const recommendationFeedbackSchema = z.object({
+  mediaId: z.number().int().positive(),
+  mediaType: z.enum(['movie', 'tv']),
+  title: z.string().min(1),
+  posterPath: z.string().nullable(),
+  type: z.nativeEnum(FeedbackType),
+});
+
+export const recommendationSessionUpdateSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+});
+
+// Route params arrive as strings
+export const mediaParamsSchema = z.object({
+  mediaType: z.enum(['movie', 'tv']),
+  mediaId: z.coerce.number().int().positive(),
+});
+
+export const personParamsSchema = z.object({
+  personId: z.coerce.number().int().positive(),
+});
+
+export const streamingServicesUpdateSchema = z.object({
+  region: z.string().regex(/^[A-Z]{2}$/, 'Expected an ISO 3166-1 country code'),
+  // TMDB watch provider IDs
+  services: z.array(z.number().int().positive()).max(50),
+});
+
+export const localePreferencesUpdateSchema = z.object({
+  // Language and country, as TMDB expects it
+  locale: z.string().regex(/^[a-z]{2}-[A-Z]{2}$/, 'Expected a locale such as en-US'),
+  region: z.string().regex(/^[A-Z]{2}$/, 'Expected an ISO 3166-1 country code'),
+});
+
+export const streamingAvailabilityRequestSchema = z.object({
+  items: z.array(z.object({
+    mediaType: z.enum(['movie', 'tv']),
+    mediaId: z.number().int().positive(),
+  })).max(200),
+});
+
+export const mediaBatchRequestSchema = z.object({
+  items: z.array(z.object({
+    mediaType: z.enum(['movie', 'tv']),
+    mediaId: z.number().int().positive(),
+    append: z.array(tmdbDetailsAppendSchema).max(tmdbDetailsAppendSchema.options.length).default([]),
+  })).min(1).max(200),
+});
+
+// Shape of a single recommendation as returned by the language model
+export const recommendedTitleSchema = z.object({
+  title: z.string().trim().min(1),
+  year: z.coerce.number().int().min(1870).max(2100).nullable().catch(null),
+  mediaType: z.enum(['movie', 'tv']),
+  reason: z.string().trim().default(''),
+  // Seed titles (selected or loved) this pick relates to
+  relatedTo: z.array(z.string()).default([]),
+});
+
+export const recommendationOutputSchema = z.object({
+  recommendations: z.array(recommendedTitleSchema).min(1),
+});
+
+// Query parameters the /api/tmdb proxy forwards, by kind of endpoint.
+// Strict, so anything else (including an api_key) is rejected.
+const tmdbLanguageSchema = z.string().regex(/^[a-z]{2}(-[A-Z]{2})?$/, 'Expected a language such as en-US');
+const tmdbRegionSchema = z.string().regex(/^[A-Z]{2}$/, 'Expected an ISO 3166-1 country code');
+const tmdbPageSchema = z.coerce.number().int().min(1).max(500);
+const tmdbYearSchema = z.coerce.number().int().min(1870).max(2100);
+const tmdbBooleanSchema = z.enum(['true', 'false']);
+// Comma or pipe separated IDs, dates, sort orders and the like
+const tmdbFilterValueSchema = z.string().regex(/^[\w.,|:-]{1,200}$/, 'Invalid filter value');
+const tmdbAppendable = [
+  'credits', 'aggregate_credits', 'videos', 'images', 'keywords', 'release_dates', 'content_ratings',
+  'external_ids', 'watch/providers', 'similar', 'recommendations', 'movie_credits', 'tv_credits', 'combined_credits',
+];
+const tmdbAppendSchema = z.string().refine(
+  value => value.split(',').every(part => tmdbAppendable.includes(part)),
+  'Unsupported append_to_response value'
+);
+
+const tmdbDiscoverFilters = [
+  'sort_by', 'with_genres', 'without_genres', 'with_original_language', 'with_runtime.gte', 'with_runtime.lte',
+  'vote_average.gte', 'vote_average.lte', 'vote_count.gte', 'primary_release_date.gte', 'primary_release_date.lte',
+  'first_air_date.gte', 'first_air_date.lte', 'with_watch_providers', 'with_watch_monetization_types',
+  'certification_country', 'certification.lte', 'certification.gte', 'with_people', 'with_cast', 'with_crew',
+  'with_keywords', 'with_companies', 'with_networks', 'with_status', 'with_type',
+] as const;
+
+export const tmdbProxyParamsSchemas = {
+  list: z.object({
+    language: tmdbLanguageSchema.optional(),
+    page: tmdbPageSchema.optional(),
+    region: tmdbRegionSchema.optional(),
+  }).strict(),
+  search: z.object({
+    query: z.string().trim().min(1).max(200),
+    include_adult: tmdbBooleanSchema.optional(),
+    language: tmdbLanguageSchema.optional(),
+    page: tmdbPageSchema.optional(),
+    region: tmdbRegionSchema.optional(),
+    year: tmdbYearSchema.optional(),
+    primary_release_year: tmdbYearSchema.optional(),
+    first_air_date_year: tmdbYearSchema.optional(),
+  }).strict(),
+  discover: z.object({
+    language: tmdbLanguageSchema.optional(),
+    page: tmdbPageSchema.optional(),
+    region: tmdbRegionSchema.optional(),
+    watch_region: tmdbRegionSchema.optional(),
+    include_adult: tmdbBooleanSchema.optional(),
+    include_video: tmdbBooleanSchema.optional(),
+    primary_release_year: tmdbYearSchema.optional(),
+    first_air_date_year: tmdbYearSchema.optional(),
+    ...Object.fromEntries(tmdbDiscoverFilters.map(key => [key, tmdbFilterValueSchema.optional()])),
+  }).strict(),
+  details: z.object({
+    language: tmdbLanguageSchema.optional(),
+    append_to_response: tmdbAppendSchema.optional(),
+    // Extra languages to include videos in, e.g. `fr,en,null`
+    include_video_language: z.string().regex(/^([a-z]{2}|null)(,([a-z]{2}|null)){0,4}$/).optional(),
+  }).strict(),
+  providers: z.object({
+    language: tmdbLanguageSchema.optional(),
+    watch_region: tmdbRegionSchema.optional(),
+  }).strict(),
+};
+
+export const languageQuerySchema = z.object({
+  language: tmdbLanguageSchema.optional(),
+});
+
+export type RecommendedTitle = z.infer<typeof recommendedTitleSchema>;
+export type RecommendationFilters = z.infer<typeof recommendationFiltersSchema>;
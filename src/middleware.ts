@@ -2,11 +2,21 @@ import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
 
 export function middleware(request: NextRequest) {
-  // Skip middleware for TMDB routes
+  // The TMDB proxy is public, it enforces its own path allowlist and rate limit
   if (request.nextUrl.pathname.startsWith('/api/tmdb')) {
     return NextResponse.next();
   }
 
+  // Recommendations are available to signed-out visitors too
+  if (request.nextUrl.pathname.startsWith('/api/recommendations')) {
+    return NextResponse.next();
+  }
+
+  // Title details and person pages are public, the routes rate limit signed-out callers themselves
+  if (request.method === 'GET' && /^\/api\/(media\/(movie|tv)|person)\/\d+$/.test(request.nextUrl.pathname)) {
+    return NextResponse.next();
+  }
+
   // Check if the request is for an API route
   if (request.nextUrl.pathname.startsWith('/api/')) {
     // Skip authentication for auth routes
@@ -27,11 +37,11 @@ export function middleware(request: NextRequest) {
   return NextResponse.next();
 }
 
-// Explicitly define which routes to apply middleware to, excluding /api/tmdb
+// Explicitly define which routes to apply middleware to, excluding /api/tmdb and /api/recommendations
 export const config = {
   matcher: [
     // Protected API routes
-    '/api/((?!tmdb|auth).*)',
+    '/api/((?!tmdb|auth|recommendations).*)',
     // Protected pages
     '/feed',
     '/friends/:path*',
@@ -0,0 +1,41 @@
+import { RecommendationInput } from '@/types/recommendation';
+import { recommendationPromptV1 } from './v1';
+
+export type RecommendationPromptInput = RecommendationInput;
+
+export interface RecommendationPromptTemplate {
+  version: string;
+  render: (input: RecommendationPromptInput) => string;
+}
+
+// Older versions stay registered so evaluation runs can compare them against new ones
+export const RECOMMENDATION_PROMPTS = {
+  v1: recommendationPromptV1,
+} satisfies Record<string, RecommendationPromptTemplate>;
+
+export type RecommendationPromptVersion = keyof typeof RECOMMENDATION_PROMPTS;
+
+export const DEFAULT_RECOMMENDATION_PROMPT_VERSION: RecommendationPromptVersion = 'v1';
+
+/**
+ * Whether a version names a registered prompt template
+ */
+export function isRecommendationPromptVersion(version: string): version is RecommendationPromptVersion {
+  return Object.prototype.hasOwnProperty.call(RECOMMENDATION_PROMPTS, version);
+}
+
+/**
+ * Pick the prompt template named by RECOMMENDATION_PROMPT_VERSION (defaults to the current version).
+ * Falls back to the default when the version is unknown.
+ */
+export function getRecommendationPrompt(
+  version = process.env.RECOMMENDATION_PROMPT_VERSION
+): RecommendationPromptTemplate {
+  if (version && !isRecommendationPromptVersion(version)) {
+    console.warn(`Unknown recommendation prompt version "${version}", using ${DEFAULT_RECOMMENDATION_PROMPT_VERSION}`);
+  }
+
+  return RECOMMENDATION_PROMPTS[
+    version && isRecommendationPromptVersion(version) ? version : DEFAULT_RECOMMENDATION_PROMPT_VERSION
+  ];
+}
@@ -0,0 +1,188 @@
+import { hasActiveFilters } from '@/lib/recommendationFilters';
+import { RecommendationFilters } from '@/lib/validationSchemas';
+import { RecommendationConversationContext, TasteProfile } from '@/types/recommendation';
+import type { RecommendationPromptInput, RecommendationPromptTemplate } from '.';
+
+/**
+ * Describe the viewer's watchlist taste for the prompt
+ */
+function buildTasteSection(tasteProfile: TasteProfile): string {
+  const lines = [
+    tasteProfile.likedMedia.length > 0 && `- Loved (rated highly): ${tasteProfile.likedMedia.map(m => m.title).join(', ')}`,
+    tasteProfile.dislikedTitles.length > 0 && `- Disliked or dropped: ${tasteProfile.dislikedTitles.join(', ')}`,
+    tasteProfile.favoriteGenres.length > 0 && `- Most watched genres: ${tasteProfile.favoriteGenres.join(', ')}`,
+    tasteProfile.excludedTitles.length > 0 && `- Already seen or queued (NEVER recommend these): ${tasteProfile.excludedTitles.join(', ')}`,
+  ].filter(Boolean);
+
+  if (lines.length === 0) return '';
+
+  return `
+Viewer Taste Profile (from their watchlist and feedback on past recommendations):
+${lines.join('\n')}
+Lean towards what they loved, steer away from what they disliked, and only recommend titles they have not seen or queued.
+`;
+}
+
+/**
+ * Spell out the hard constraints for the prompt
+ */
+function buildFiltersSection(filters: RecommendationFilters): string {
+  const languageNames = new Intl.DisplayNames(['en'], { type: 'language' });
+  const lines = [
+    filters.minRuntime !== undefined && `- Runtime of at least ${filters.minRuntime} minutes (per episode for TV)`,
+    filters.maxRuntime !== undefined && `- Runtime of at most ${filters.maxRuntime} minutes (per episode for TV)`,
+    filters.fromDecade !== undefined && `- Released in ${filters.fromDecade} or later`,
+    filters.toDecade !== undefined && `- Released in ${filters.toDecade + 9} or earlier`,
+    filters.originalLanguage && `- Original language: ${languageNames.of(filters.originalLanguage)}`,
+    filters.excludedLanguage && `- Original language must NOT be ${languageNames.of(filters.excludedLanguage)}`,
+    filters.maxCertification && `- Rated ${filters.maxCertification} or milder in the US (or the TV equivalent)`,
+    filters.minVoteAverage !== undefined && `- TMDB average rating of ${filters.minVoteAverage}/10 or higher`,
+  ].filter(Boolean);
+
+  return `
+Hard Constraints (every recommendation MUST satisfy all of these, they override everything else):
+${lines.join('\n')}
+`;
+}
+
+/**
+ * Lay out the results the viewer is refining and what they asked for since
+ */
+function buildConversationSection({ refinements, currentResults }: RecommendationConversationContext): string {
+  return `
+Conversation So Far:
+The viewer was shown these results, numbered as they see them:
+${currentResults.map((media, index) => `${index + 1}. ${media.title} (${media.media_type === 'movie' ? 'film' : 'TV series'})`).join('\n')}
+Their follow-up requests, oldest first (the latest one matters most):
+${refinements.map(message => `- "${message}"`).join('\n')}
+Refine the list so it honors every follow-up request. "#N" refers to result N above.
+Keep earlier results only if they still fit, replace the rest with new titles, and mention the follow-up in each reason where it applies.
+`;
+}
+
+function render({
+  description,
+  selectedMedia,
+  count,
+  mediaType,
+  tasteProfile,
+  filters,
+  conversation,
+}: RecommendationPromptInput): string {
+  // Wording for films, series, or both in mixed mode
+  const byType = (movie: string, tv: string, mixed = `${movie}; ${tv}`) =>
+    mediaType === 'movie' ? movie : mediaType === 'tv' ? tv : mixed;
+
+  return `You are an elite media recommendation expert with comprehensive knowledge of global ${byType('cinema', 'television', 'cinema and television')}, incorporating data from multiple rating platforms, critic reviews, and audience reception. Your recommendations are based on sophisticated analysis of viewer preferences, cultural impact, and artistic merit. Analyze the following input to recommend ${count} exceptional ${byType('films', 'TV series', 'films and TV series')} that precisely match the given criteria.
+
+Input Analysis:
+User Description: ${description}
+Selected ${byType('Films', 'Series', 'Titles')}: ${selectedMedia.map(m => m.title).join(', ')}
+${tasteProfile ? buildTasteSection(tasteProfile) : ''}${hasActiveFilters(filters) ? buildFiltersSection(filters) : ''}${conversation ? buildConversationSection(conversation) : ''}
+Primary Directive:
+Generate exactly ${count} meticulously curated ${byType('film', 'TV series', 'film and TV series')} recommendations adhering to these hierarchical criteria:${mediaType === 'mixed' ? `
+
+Mixed Format: return a balanced blend of films and TV series, about half of each, alternating between them in your ranking.` : ''}
+
+1. Explicit Title Handling:
+   - If the description mentions specific titles, they MUST be included
+   - Analyze any mentioned titles for their key characteristics to inform other recommendations
+
+2. Rating Aggregation (Minimum Thresholds):
+   ${byType(`- IMDb: 7.0+ weighted average
+   - Letterboxd: 3.5+ average rating
+   - Metacritic: 70+ metascore
+   - Rotten Tomatoes: 75%+ critic score or 80%+ audience score`,
+   `- IMDb: 7.0+ weighted average
+   - TV Time: 85%+ rating
+   - Rotten Tomatoes: 75%+ critic score or 80%+ audience score
+   - Metacritic: 70+ metascore for key seasons`,
+   `- IMDb: 7.0+ weighted average
+   - Letterboxd: 3.5+ average rating (films)
+   - TV Time: 85%+ rating (series)
+   - Rotten Tomatoes: 75%+ critic score or 80%+ audience score
+   - Metacritic: 70+ metascore (key seasons for series)`)}
+
+3. Deep Content Analysis:
+   A. Thematic Elements:
+      - Core themes and philosophical undertones
+      - Emotional resonance and psychological depth
+      - Cultural and societal commentary
+      - Genre innovations and subversions
+
+   B. Technical Excellence:
+      - Cinematography and visual composition
+      - Sound design and musical score
+      - Production design and world-building
+      - ${byType('Editing and pacing', 'Episode structure and season arcs')}
+
+   C. Narrative Components:
+      - Story complexity and coherence
+      - Character development depth
+      - Dialog quality and subtlety
+      - ${byType('Plot resolution satisfaction', 'Season-to-season narrative progression')}
+
+4. Audience and Critical Reception:
+   - Professional critic consensus
+   - Audience sentiment analysis
+   - Awards and recognition
+   - Cultural impact and longevity
+   - Online community discussions and analysis
+   - ${byType('Post-release critical reappraisal', 'Season-by-season reception trends')}
+
+5. Advanced Matching Criteria:
+   A. Content Attributes:
+      - Tone and atmosphere alignment
+      - Pacing and runtime considerations
+      - Visual style and aesthetic approach
+      - ${byType('Narrative structure and act composition', 'Episode length and season structure')}
+
+   B. Contextual Factors:
+      - Historical and cultural significance
+      - Innovation and influence on the medium
+      - Creator/Director's artistic vision
+      - Genre-defining or genre-blending elements
+
+   C. Accessibility Factors:
+      - Availability on major streaming platforms
+      - Language and subtitle availability
+      - ${byType('International release status', 'Series completion status')}
+
+6. Quality Control Exclusions:
+   - Productions with significant quality inconsistencies
+   - Poorly received remakes or derivatives
+   - ${byType(`- Poor quality franchise entries
+   - Critically panned remakes
+   - Films with major production issues
+   - Direct-to-video releases (unless critically acclaimed)`,
+   `- Series with unresolved major plotlines
+   - Shows with dramatic quality decline
+   - Prematurely cancelled series
+   - Shows with inconsistent creative vision`,
+   `- Poor quality franchise entries
+   - Critically panned remakes
+   - Films with major production issues
+   - Series with unresolved major plotlines
+   - Shows with dramatic quality decline
+   - Prematurely cancelled series`)}
+
+Output Requirements:
+- Return EXACTLY ${count} recommendations
+- Respond with JSON only, matching: {"recommendations": [{"title": string, "year": number | null, "mediaType": "movie" | "tv", "reason": string, "relatedTo": string[]}]}
+- "title" is the title exactly as listed on TMDB
+- "year" is the release year${byType('', ' of the first season', ' (of the first season for TV series)')}
+- "mediaType" is ${byType('"movie"', '"tv"', '"movie" for films and "tv" for TV series')}
+- "reason" is a single short sentence explaining why it fits, naming the selected or loved title it builds on when there is one (e.g. "Because you picked Arrival: cerebral first-contact sci-fi")
+- "relatedTo" lists the exact selected or loved titles the pick relates to (empty if it only matches the description)
+- Ensure mentioned titles from description are included
+- Maintain strict quality standards for all recommendations`;
+}
+
+/**
+ * The original long-form prompt: an "elite expert" persona with a detailed
+ * ranking rubric, followed by the JSON output contract
+ */
+export const recommendationPromptV1: RecommendationPromptTemplate = {
+  version: 'v1',
+  render,
+};
@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { fakePrisma } from '@/test/fakePrisma';
+import type { RecommendationConversation as RecommendationConversationRecord } from '@prisma/client';
+import { continueConversation, MAX_FOLLOW_UPS } from './conversationService';
+
+const record = (turns: number): RecommendationConversationRecord => ({
+  id: 'conversation',
+  userId: null,
+  description: 'Mind-bending sci-fi',
+  mediaType: 'movie',
+  selectedMedia: [],
+  filters: null,
+  useTaste: false,
+  onlyMyServices: false,
+  messages: [{ role: 'user', content: 'Mind-bending sci-fi', createdAt: new Date(0).toISOString() }],
+  results: [],
+  turns,
+  createdAt: new Date(0),
+  updatedAt: new Date(0),
+});
+
+describe('continueConversation', () => {
+  // The stored turn count, as the conditional update sees it
+  let turns: number;
+
+  beforeEach(() => {
+    fakePrisma.recommendationConversation = {
+      updateMany: async ({ where, data }: { where: { turns: { lt: number } }; data: { turns: { increment: number } } }) => {
+        if (turns >= where.turns.lt) return { count: 0 };
+        turns += data.turns.increment;
+        return { count: 1 };
+      },
+      update: async ({ data }: { data: { turns?: { decrement: number } } }) => {
+        if (data.turns) turns -= data.turns.decrement;
+        return record(turns);
+      },
+    };
+    // Nothing on TMDB, so any generation fails
+    mock.method(globalThis, 'fetch', async () => new Response(JSON.stringify({ status_message: 'Not found' }), { status: 404 }));
+    mock.method(console, 'warn', () => {});
+    mock.method(console, 'error', () => {});
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  test('refuses a follow-up once the turns are used up, without generating', async () => {
+    turns = MAX_FOLLOW_UPS;
+
+    assert.equal(await continueConversation(record(turns), 'darker'), null);
+    assert.equal((globalThis.fetch as unknown as ReturnType<typeof mock.fn>).mock.callCount(), 0);
+  });
+
+  test('lets only one of several concurrent follow-ups take the last turn', async () => {
+    turns = MAX_FOLLOW_UPS - 1;
+    const stale = record(turns);
+
+    const outcomes = await Promise.allSettled([
+      continueConversation(stale, 'darker'),
+      continueConversation(stale, 'funnier'),
+      continueConversation(stale, 'shorter'),
+    ]);
+
+    // The claimed turn fails to generate here, the others never get that far
+    assert.equal(outcomes.filter(outcome => outcome.status === 'rejected').length, 1);
+    assert.equal(outcomes.filter(outcome => outcome.status === 'fulfilled' && outcome.value === null).length, 2);
+  });
+
+  test('gives the turn back when generating fails', async () => {
+    turns = 2;
+
+    await assert.rejects(continueConversation(record(turns), 'darker'));
+    assert.equal(turns, 2);
+  });
+});
@@ -0,0 +1,231 @@
+import { nanoid } from 'nanoid';
+import { z } from 'zod';
+import { Prisma, RecommendationConversation as RecommendationConversationRecord } from '@prisma/client';
+import { prisma, withPrismaRetry } from '@/lib/prisma';
+import { AuthenticatedRequest } from '@/lib/authMiddleware';
+import { RateLimit } from '@/lib/rateLimit';
+import { conversationStartSchema, RecommendationFilters } from '@/lib/validationSchemas';
+import { availabilityKey } from '@/lib/utils';
+import { Media } from '@/types/media';
+import {
+  ConversationMessage,
+  RecommendationConversation,
+  RecommendationMediaType,
+  RecommendedMedia,
+} from '@/types/recommendation';
+import { getRecommendations, RecommendationRequest } from './recommendationService';
+
+type ConversationUser = AuthenticatedRequest['user'] | null;
+
+// Each turn is a full generation, and long histories make for long, unfocused prompts
+export const MAX_FOLLOW_UPS = 8;
+export const ASSISTANT_RATE_LIMIT: RateLimit = { limit: 20, windowSeconds: 10 * 60 };
+
+const RESULTS_PER_TURN = 15;
+
+const toJson = (value: unknown) => value as Prisma.InputJsonValue;
+
+const message = (role: ConversationMessage['role'], content: string): ConversationMessage => ({
+  role,
+  content,
+  createdAt: new Date().toISOString(),
+});
+
+/**
+ * The assistant's side of a turn, summarizing what changed
+ */
+function describeResults(results: RecommendedMedia[], previous?: RecommendedMedia[]): string {
+  if (!previous) {
+    return `Here are ${results.length} picks. Tell me what to change, like "darker", "less violent" or "more like #3".`;
+  }
+
+  const previousKeys = new Set(previous.map(media => availabilityKey(media.media_type, media.id)));
+  const kept = results.filter(media => previousKeys.has(availabilityKey(media.media_type, media.id))).length;
+  const added = results.length - kept;
+
+  return `Here's an updated list of ${results.length}: ${added} new${kept > 0 ? `, ${kept} kept from before` : ''}.`;
+}
+
+const getFollowUps = (messages: ConversationMessage[]) =>
+  messages.filter(entry => entry.role === 'user').slice(1).map(entry => entry.content);
+
+/**
+ * Shape a stored conversation for the API
+ */
+export function toRecommendationConversation(record: RecommendationConversationRecord): RecommendationConversation {
+  const messages = record.messages as unknown as ConversationMessage[];
+
+  return {
+    id: record.id,
+    description: record.description,
+    mediaType: record.mediaType as RecommendationMediaType,
+    selectedMedia: record.selectedMedia as unknown as Media[],
+    filters: record.filters as RecommendationFilters | null,
+    useTaste: record.useTaste,
+    onlyMyServices: record.onlyMyServices,
+    messages,
+    results: record.results as unknown as RecommendedMedia[],
+    remainingTurns: Math.max(0, MAX_FOLLOW_UPS - record.turns),
+  };
+}
+
+/**
+ * Personalization for a conversation's requests, which only its owner can make
+ */
+const personalize = (
+  { useTaste, onlyMyServices }: { useTaste: boolean; onlyMyServices: boolean },
+  userId?: string | null
+): Pick<RecommendationRequest, 'tasteUserId' | 'servicesUserId' | 'feedbackUserId' | 'localeUserId'> => ({
+  tasteUserId: useTaste && userId ? userId : undefined,
+  servicesUserId: onlyMyServices && userId ? userId : undefined,
+  feedbackUserId: userId || undefined,
+  localeUserId: userId || undefined,
+});
+
+/**
+ * Start a conversation, either with fresh results for an opening message
+ * or from the results of a saved session
+ * @returns The new conversation, or null if the session does not exist
+ */
+export async function startConversation(
+  input: z.infer<typeof conversationStartSchema>,
+  user: ConversationUser
+): Promise<RecommendationConversation | null> {
+  let opening: {
+    description: string;
+    selectedMedia: Media[];
+    mediaType: RecommendationMediaType;
+    filters?: RecommendationFilters;
+    results: RecommendedMedia[];
+  };
+
+  if (input.sessionId) {
+    const session = await withPrismaRetry(() =>
+      prisma.recommendationSession.findUnique({ where: { id: input.sessionId } })
+    );
+    if (!session) return null;
+
+    opening = {
+      description: session.description,
+      selectedMedia: session.selectedMedia as unknown as Media[],
+      mediaType: session.mediaType as RecommendationMediaType,
+      filters: (session.filters as RecommendationFilters | null) || undefined,
+      results: session.results as unknown as RecommendedMedia[],
+    };
+  } else {
+    const { message: description, selectedMedia, mediaType, filters } = input;
+    opening = {
+      description,
+      selectedMedia,
+      mediaType,
+      filters,
+      results: await getRecommendations({
+        description,
+        selectedMedia,
+        count: RESULTS_PER_TURN,
+        mediaType,
+        filters,
+        ...personalize(input, user?.uid),
+      }),
+    };
+  }
+
+  const openingMessage = opening.description
+    || `Something like ${opening.selectedMedia.map(media => media.title).join(', ')}`;
+
+  const conversation = await withPrismaRetry(() =>
+    prisma.recommendationConversation.create({
+      data: {
+        id: nanoid(),
+        description: opening.description,
+        mediaType: opening.mediaType,
+        selectedMedia: toJson(opening.selectedMedia),
+        filters: opening.filters ? toJson(opening.filters) : Prisma.JsonNull,
+        useTaste: input.useTaste && !!user,
+        onlyMyServices: input.onlyMyServices && !!user,
+        messages: toJson([message('user', openingMessage), message('assistant', describeResults(opening.results))]),
+        results: toJson(opening.results),
+        ...(user && {
+          user: {
+            connectOrCreate: {
+              where: { id: user.uid },
+              create: {
+                id: user.uid,
+                email: user.email,
+                displayName: user.name,
+                photoURL: user.picture,
+              },
+            },
+          },
+        }),
+      },
+    })
+  );
+
+  return toRecommendationConversation(conversation);
+}
+
+/**
+ * Refine a conversation's results with a follow-up message
+ * @param record The stored conversation, already checked to belong to the caller
+ * @param content The follow-up, e.g. "darker" or "more like #3"
+ * @returns The updated conversation, or null if it has no turns left
+ */
+export async function continueConversation(
+  record: RecommendationConversationRecord,
+  content: string
+): Promise<RecommendationConversation | null> {
+  // Claim the turn in a single conditional update, so concurrent follow-ups cannot all pass the limit
+  const claimed = await withPrismaRetry(() =>
+    prisma.recommendationConversation.updateMany({
+      where: { id: record.id, turns: { lt: MAX_FOLLOW_UPS } },
+      data: { turns: { increment: 1 } },
+    })
+  );
+  if (claimed.count === 0) return null;
+
+  const conversation = toRecommendationConversation(record);
+
+  let results: RecommendedMedia[];
+  try {
+    results = await getRecommendations({
+      description: conversation.description,
+      selectedMedia: conversation.selectedMedia,
+      count: RESULTS_PER_TURN,
+      mediaType: conversation.mediaType,
+      filters: conversation.filters || undefined,
+      conversation: {
+        refinements: [...getFollowUps(conversation.messages), content],
+        currentResults: conversation.results,
+      },
+      ...personalize(conversation, record.userId),
+    });
+  } catch (error) {
+    // A failed generation gives its turn back
+    await withPrismaRetry(() =>
+      prisma.recommendationConversation.update({
+        where: { id: record.id },
+        data: { turns: { decrement: 1 } },
+      })
+    ).catch(refundError => console.error('Error giving back a conversation turn:', refundError));
+    throw error;
+  }
+
+  const messages = [
+    ...conversation.messages,
+    message('user', content),
+    message('assistant', describeResults(results, conversation.results)),
+  ];
+
+  const updated = await withPrismaRetry(() =>
+    prisma.recommendationConversation.update({
+      where: { id: record.id },
+      data: {
+        messages: toJson(messages),
+        results: toJson(results),
+      },
+    })
+  );
+
+  return toRecommendationConversation(updated);
+}
@@ -0,0 +1,53 @@
+import { prisma, withPrismaRetry } from '@/lib/prisma';
+import { FeedbackType } from '@/lib/prismaTypes';
+import { cacheTags, invalidateTags } from '@/lib/cache';
+import { TasteProfile } from '@/types/recommendation';
+
+const MAX_LIKED = 10;
+const MAX_DISLIKED = 15;
+
+/**
+ * Turn a user's thumbs up/down and "not interested" list into a taste profile.
+ * Liked titles become positive examples, disliked ones negative examples,
+ * and disliked or hidden titles are never recommended again.
+ * @param userId The user's ID
+ */
+export async function getFeedbackProfile(userId: string): Promise<TasteProfile> {
+  const feedback = await withPrismaRetry(() =>
+    prisma.recommendationFeedback.findMany({
+      where: { userId },
+      orderBy: { updatedAt: 'desc' },
+      select: {
+        mediaId: true,
+        mediaType: true,
+        title: true,
+        posterPath: true,
+        type: true,
+      },
+    })
+  );
+
+  const liked = feedback.filter(entry => entry.type === FeedbackType.LIKE);
+  const disliked = feedback.filter(entry => entry.type === FeedbackType.DISLIKE);
+  const excluded = feedback.filter(entry => entry.type !== FeedbackType.LIKE);
+
+  return {
+    likedMedia: liked.slice(0, MAX_LIKED).map(entry => ({
+      id: entry.mediaId,
+      title: entry.title,
+      poster_path: entry.posterPath || '',
+      media_type: entry.mediaType as 'movie' | 'tv',
+    })),
+    dislikedTitles: disliked.slice(0, MAX_DISLIKED).map(entry => entry.title),
+    favoriteGenres: [],
+    excludedKeys: excluded.map(entry => `${entry.mediaType}:${entry.mediaId}`),
+    excludedTitles: excluded.map(entry => entry.title),
+  };
+}
+
+/**
+ * Drop a user's cached recommendations so new feedback applies to the next request
+ */
+export async function invalidateUserRecommendations(userId: string): Promise<void> {
+  await invalidateTags(cacheTags.recommendations(userId));
+}
@@ -1,6 +1,9 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
+import { GoogleGenerativeAI, SchemaType, ResponseSchema } from "@google/generative-ai";
+import { recommendationOutputSchema, recommendedTitleSchema, RecommendationFilters, RecommendedTitle } from "@/lib/validationSchemas";
+import { getRecommendationPrompt } from "@/prompts/recommendation";
+import { RecommendationConversationContext, RecommendationMediaType, TasteProfile } from "@/types/recommendation";
 
-interface Media {
+export interface Media {
   id: number;
   title: string;  // movie.title or tvShow.name
   name?: string;  // for TV shows
@@ -8,115 +11,168 @@ interface Media {
   media_type: 'movie' | 'tv';
 }
 
+// Maximum number of times we ask the model again after an unusable response
+const MAX_GENERATION_ATTEMPTS = 3;
+
+// Mirrors recommendationOutputSchema so Gemini constrains its output to the same shape
+const responseSchema: ResponseSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    recommendations: {
+      type: SchemaType.ARRAY,
+      items: {
+        type: SchemaType.OBJECT,
+        properties: {
+          title: { type: SchemaType.STRING, description: 'Title as listed on TMDB' },
+          year: { type: SchemaType.INTEGER, description: 'Release year (first air year for TV)', nullable: true },
+          mediaType: { type: SchemaType.STRING, enum: ['movie', 'tv'] },
+          reason: { type: SchemaType.STRING, description: 'One-line reason for the pick' },
+          relatedTo: {
+            type: SchemaType.ARRAY,
+            items: { type: SchemaType.STRING },
+            description: 'Selected or loved titles this pick relates to',
+          },
+        },
+        required: ['title', 'year', 'mediaType', 'reason', 'relatedTo'],
+      },
+    },
+  },
+  required: ['recommendations'],
+};
+
+/**
+ * Parse the raw model text into recommendations, repairing common issues
+ * such as markdown code fences, a bare array, or a few malformed entries.
+ * @returns The valid recommendations, or null if nothing usable was found
+ */
+export function parseRecommendationOutput(text: string): RecommendedTitle[] | null {
+  const cleaned = text.replace(/^\s*```(?:json)?\s*/i, '').replace(/\s*```\s*$/, '').trim();
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(cleaned);
+  } catch {
+    // Fall back to the outermost JSON object or array in the text
+    const match = cleaned.match(/[[{][\s\S]*[\]}]/);
+    if (!match) return null;
+    try {
+      parsed = JSON.parse(match[0]);
+    } catch {
+      return null;
+    }
+  }
+
+  const strict = recommendationOutputSchema.safeParse(Array.isArray(parsed) ? { recommendations: parsed } : parsed);
+  if (strict.success) {
+    return strict.data.recommendations;
+  }
+
+  // Keep whatever entries are individually valid
+  const items = Array.isArray(parsed)
+    ? parsed
+    : (parsed as { recommendations?: unknown })?.recommendations;
+  if (!Array.isArray(items)) return null;
+
+  const repaired = items.flatMap(item => {
+    const result = recommendedTitleSchema.safeParse(item);
+    return result.success ? [result.data] : [];
+  });
+
+  return repaired.length > 0 ? repaired : null;
+}
+
+/**
+ * Build the recommendation prompt shared by every LLM-backed provider
+ * with the configured prompt template
+ */
+export function buildRecommendationPrompt(
+  description: string,
+  selectedMedia: Media[],
+  count: number,
+  mediaType: RecommendationMediaType,
+  tasteProfile?: TasteProfile,
+  filters?: RecommendationFilters,
+  conversation?: RecommendationConversationContext
+): string {
+  return getRecommendationPrompt().render({
+    description,
+    selectedMedia,
+    count,
+    mediaType,
+    tasteProfile,
+    filters,
+    conversation,
+  });
+}
+
+/**
+ * Run a prompt through a model, re-asking when the output cannot be parsed
+ * @param complete Sends a prompt to the model and returns its raw text
+ * @param prompt The recommendation prompt
+ * @param count The number of recommendations requested
+ * @returns The parsed recommendations
+ */
+export async function generateWithRepair(
+  complete: (prompt: string) => Promise<string>,
+  prompt: string,
+  count: number
+): Promise<RecommendedTitle[]> {
+  let lastError: unknown = null;
+  let request = prompt;
+
+  for (let attempt = 1; attempt <= MAX_GENERATION_ATTEMPTS; attempt++) {
+    try {
+      const text = await complete(request);
+
+      const recommendations = parseRecommendationOutput(text);
+      if (recommendations) {
+        return recommendations.slice(0, count);
+      }
+
+      console.warn(`Malformed recommendation output (attempt ${attempt}):`, text.slice(0, 200));
+      lastError = new Error('Model returned malformed recommendations');
+      // Remind the model of the expected format on the next attempt
+      request = `${prompt}\n\nYour previous response was not valid JSON in the required format. Respond again with JSON only.`;
+    } catch (error) {
+      console.error('Error generating recommendations:', error);
+      lastError = error;
+    }
+  }
+
+  throw lastError;
+}
+
+/**
+ * Send a prompt to Gemini, constraining its output to the recommendation schema
+ * @returns The raw response text
+ */
+export async function completeWithGemini(prompt: string): Promise<string> {
+  const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY!);
+  const model = genAI.getGenerativeModel({
+    model: "gemini-2.0-flash",
+    generationConfig: {
+      responseMimeType: "application/json",
+      responseSchema,
+    },
+  });
+
+  const result = await model.generateContent(prompt);
+  const response = await result.response;
+  return response.text();
+}
+
 export async function generateMediaRecommendations(
   description: string, 
   selectedMedia: Media[], 
   count: number = 15,
-  mediaType: 'movie' | 'tv'
-): Promise<string[]> {
-  const genAI = new GoogleGenerativeAI(process.env.NEXT_PUBLIC_GEMINI_API_KEY!);
-  const model = genAI.getGenerativeModel({ model: "gemini-2.0-flash" });
-
-  const prompt = `You are an elite media recommendation expert with comprehensive knowledge of global ${mediaType === 'movie' ? 'cinema' : 'television'}, incorporating data from multiple rating platforms, critic reviews, and audience reception. Your recommendations are based on sophisticated analysis of viewer preferences, cultural impact, and artistic merit. Analyze the following input to recommend ${count} exceptional ${mediaType === 'movie' ? 'films' : 'TV series'} that precisely match the given criteria.
-
-Input Analysis:
-User Description: ${description}
-Selected ${mediaType === 'movie' ? 'Films' : 'Series'}: ${selectedMedia.map(m => m.title).join(', ')}
-
-Primary Directive:
-Generate exactly ${count} meticulously curated ${mediaType === 'movie' ? 'film' : 'TV series'} recommendations adhering to these hierarchical criteria:
-
-1. Explicit Title Handling:
-   - If the description mentions specific titles, they MUST be included
-   - Analyze any mentioned titles for their key characteristics to inform other recommendations
-
-2. Rating Aggregation (Minimum Thresholds):
-   ${mediaType === 'movie' ? `- IMDb: 7.0+ weighted average
-   - Letterboxd: 3.5+ average rating
-   - Metacritic: 70+ metascore
-   - Rotten Tomatoes: 75%+ critic score or 80%+ audience score` 
-   : 
-   `- IMDb: 7.0+ weighted average
-   - TV Time: 85%+ rating
-   - Rotten Tomatoes: 75%+ critic score or 80%+ audience score
-   - Metacritic: 70+ metascore for key seasons`}
-
-3. Deep Content Analysis:
-   A. Thematic Elements:
-      - Core themes and philosophical undertones
-      - Emotional resonance and psychological depth
-      - Cultural and societal commentary
-      - Genre innovations and subversions
-
-   B. Technical Excellence:
-      - Cinematography and visual composition
-      - Sound design and musical score
-      - Production design and world-building
-      - ${mediaType === 'movie' ? 'Editing and pacing' : 'Episode structure and season arcs'}
-
-   C. Narrative Components:
-      - Story complexity and coherence
-      - Character development depth
-      - Dialog quality and subtlety
-      - ${mediaType === 'movie' ? 'Plot resolution satisfaction' : 'Season-to-season narrative progression'}
-
-4. Audience and Critical Reception:
-   - Professional critic consensus
-   - Audience sentiment analysis
-   - Awards and recognition
-   - Cultural impact and longevity
-   - Online community discussions and analysis
-   - ${mediaType === 'tv' ? 'Season-by-season reception trends' : 'Post-release critical reappraisal'}
-
-5. Advanced Matching Criteria:
-   A. Content Attributes:
-      - Tone and atmosphere alignment
-      - Pacing and runtime considerations
-      - Visual style and aesthetic approach
-      - ${mediaType === 'tv' ? 'Episode length and season structure' : 'Narrative structure and act composition'}
-
-   B. Contextual Factors:
-      - Historical and cultural significance
-      - Innovation and influence on the medium
-      - Creator/Director's artistic vision
-      - Genre-defining or genre-blending elements
-
-   C. Accessibility Factors:
-      - Availability on major streaming platforms
-      - Language and subtitle availability
-      - ${mediaType === 'tv' ? 'Series completion status' : 'International release status'}
-
-6. Quality Control Exclusions:
-   - Productions with significant quality inconsistencies
-   - Poorly received remakes or derivatives
-   - ${mediaType === 'tv' ? `- Series with unresolved major plotlines
-   - Shows with dramatic quality decline
-   - Prematurely cancelled series
-   - Shows with inconsistent creative vision` 
-   : 
-   `- Poor quality franchise entries
-   - Critically panned remakes
-   - Films with major production issues
-   - Direct-to-video releases (unless critically acclaimed)`}
-
-Output Requirements:
-- Return EXACTLY ${count} titles
-- Format: Title 1, Title 2, Title 3, etc.
-- Include ONLY the titles, no explanations
-- Ensure mentioned titles from description are included
-- Maintain strict quality standards for all recommendations
-
-Response Format:
-${mediaType === 'movie' ? 'Film 1, Film 2, Film 3, etc.' : 'Series 1, Series 2, Series 3, etc.'}`;
-
-  try {
-    const result = await model.generateContent(prompt);
-    const response = await result.response;
-    const text = response.text();
-    
-    return text.split(',').map(title => title.trim()).filter(title => title.length > 0);
-  } catch (error) {
-    console.error('Error generating recommendations:', error);
-    throw error;
-  }
-} 
\ No newline at end of file
+  mediaType: RecommendationMediaType,
+  tasteProfile?: TasteProfile,
+  filters?: RecommendationFilters,
+  conversation?: RecommendationConversationContext
+): Promise<RecommendedTitle[]> {
+  return generateWithRepair(
+    completeWithGemini,
+    buildRecommendationPrompt(description, selectedMedia, count, mediaType, tasteProfile, filters, conversation),
+    count
+  );
+}
@@ -0,0 +1,156 @@
+import { prisma, withPrismaRetry } from '@/lib/prisma';
+import { WatchStatus } from '@/lib/prismaTypes';
+import { tmdb } from '@/lib/tmdb';
+import { mapWithConcurrency } from '@/lib/utils';
+import { getDecade, getDirectors } from '@/lib/tasteScoring';
+import { MediaType } from '@/types/media';
+import { GroupRecommendation, ParticipantFit, RecommendedMedia } from '@/types/recommendation';
+
+export interface GroupParticipant {
+  id: string;
+  displayName: string | null;
+  photoURL: string | null;
+}
+
+interface TitleTraits {
+  genres: number[];
+  directors: number[];
+  decade: string | null;
+}
+
+// How much of someone's viewing each genre, director and decade takes up
+interface Preferences {
+  genres: Map<number, number>;
+  directors: Map<number, number>;
+  decades: Map<string, number>;
+}
+
+// Same ordering of importance as the taste match between two friends
+const FIT_WEIGHTS = {
+  genre: 0.5,
+  director: 0.3,
+  decade: 0.2,
+};
+
+// Recent, best-rated watches are enough to see a pattern without fetching a whole history
+const MAX_PROFILE_TITLES = 30;
+const DETAILS_CONCURRENCY = 8;
+const DISLIKED_RATING = 2;
+
+async function fetchTraits(mediaType: MediaType, mediaId: number): Promise<TitleTraits | null> {
+  try {
+    const details = await tmdb.details(mediaType, mediaId, { append: ['credits'] });
+    return {
+      genres: details.genres.map(genre => genre.id),
+      directors: getDirectors(details.credits?.crew, mediaType).map(person => person.id),
+      decade: getDecade(details.media_type === 'movie' ? details.release_date : details.first_air_date),
+    };
+  } catch (error) {
+    console.warn(`Could not fetch details for ${mediaType} ${mediaId}:`, error);
+    return null;
+  }
+}
+
+const addWeight = <K>(counts: Map<K, number>, key: K, weight: number) =>
+  counts.set(key, (counts.get(key) || 0) + weight);
+
+/**
+ * Learn what a participant tends to enjoy from the titles they have watched and not disliked
+ * @returns Their preferences, or null without any usable history
+ */
+async function getPreferences(userId: string): Promise<Preferences | null> {
+  const entries = await withPrismaRetry(() =>
+    prisma.watchlistEntry.findMany({
+      where: {
+        userId,
+        status: WatchStatus.WATCHED,
+        OR: [{ rating: null }, { rating: { gt: DISLIKED_RATING } }],
+      },
+      orderBy: [{ rating: { sort: 'desc', nulls: 'last' } }, { updatedAt: 'desc' }],
+      take: MAX_PROFILE_TITLES,
+      select: { mediaId: true, mediaType: true, rating: true },
+    })
+  );
+
+  const preferences: Preferences = { genres: new Map(), directors: new Map(), decades: new Map() };
+  const traits = await mapWithConcurrency(entries, DETAILS_CONCURRENCY, entry =>
+    fetchTraits(entry.mediaType as MediaType, entry.mediaId)
+  );
+
+  let found = false;
+  entries.forEach((entry, index) => {
+    const title = traits[index];
+    if (!title) return;
+    found = true;
+
+    // Weighted by rating, as in the taste profile
+    const weight = entry.rating ? entry.rating / 3 : 1;
+    title.genres.forEach(genre => addWeight(preferences.genres, genre, weight));
+    title.directors.forEach(director => addWeight(preferences.directors, director, weight));
+    if (title.decade) addWeight(preferences.decades, title.decade, weight);
+  });
+
+  return found ? preferences : null;
+}
+
+/**
+ * How strongly someone leans towards a title's traits, from 0 to 100.
+ * Each trait scores its share of their viewing relative to their favorite one.
+ * @returns The average over the title's traits, or null if either side has none
+ */
+function affinity<K>(preferences: Map<K, number>, traits: K[]): number | null {
+  if (traits.length === 0 || preferences.size === 0) return null;
+
+  const strongest = Math.max(...preferences.values());
+  const total = traits.reduce((sum, trait) => sum + (preferences.get(trait) || 0) / strongest, 0);
+  return (total / traits.length) * 100;
+}
+
+/**
+ * Predict how well a title fits one person, reweighting when a trait is unknown
+ */
+function predictFit(preferences: Preferences | null, traits: TitleTraits | null): number | null {
+  if (!preferences || !traits) return null;
+
+  const scores = [
+    { score: affinity(preferences.genres, traits.genres), weight: FIT_WEIGHTS.genre },
+    { score: affinity(preferences.directors, traits.directors), weight: FIT_WEIGHTS.director },
+    { score: affinity(preferences.decades, traits.decade ? [traits.decade] : []), weight: FIT_WEIGHTS.decade },
+  ].filter((part): part is { score: number; weight: number } => part.score !== null);
+
+  const totalWeight = scores.reduce((sum, part) => sum + part.weight, 0);
+  if (totalWeight === 0) return null;
+
+  return Math.round(scores.reduce((sum, part) => sum + part.score * part.weight, 0) / totalWeight);
+}
+
+/**
+ * Predict how well each pick fits each participant, and order the picks so
+ * the ones the whole group should enjoy come first
+ * @param recommendations The picks, in the provider's ranking
+ * @param participants Everyone watching, including the organizer
+ */
+export async function scoreGroupFit(
+  recommendations: RecommendedMedia[],
+  participants: GroupParticipant[]
+): Promise<GroupRecommendation[]> {
+  const [preferences, traits] = await Promise.all([
+    Promise.all(participants.map(participant => getPreferences(participant.id))),
+    mapWithConcurrency(recommendations, DETAILS_CONCURRENCY, media => fetchTraits(media.media_type, media.id)),
+  ]);
+
+  const scored = recommendations.map((media, index) => {
+    const fits: ParticipantFit[] = participants.map((participant, participantIndex) => ({
+      userId: participant.id,
+      displayName: participant.displayName,
+      photoURL: participant.photoURL,
+      score: predictFit(preferences[participantIndex], traits[index]),
+    }));
+    const known = fits.map(fit => fit.score).filter((score): score is number => score !== null);
+
+    return { ...media, fits, groupScore: known.length > 0 ? Math.min(...known) : null };
+  });
+
+  // Stable, so picks without a prediction keep the provider's order at the end
+  return scored.sort((a, b) => (b.groupScore ?? -1) - (a.groupScore ?? -1));
+}
@@ -0,0 +1,23 @@
+import { prisma, withPrismaRetry } from '@/lib/prisma';
+import type { LocalePreferences } from '@/lib/localePreferences';
+import { TMDB_DEFAULT_LANGUAGE } from '@/lib/tmdbClient';
+import { DEFAULT_WATCH_REGION } from '@/lib/utils';
+
+/**
+ * Load a user's language and watch region, the defaults for signed-out visitors
+ */
+export async function getLocalePreferences(userId?: string | null): Promise<LocalePreferences> {
+  const user = userId
+    ? await withPrismaRetry(() =>
+        prisma.user.findUnique({
+          where: { id: userId },
+          select: { locale: true, watchRegion: true },
+        })
+      )
+    : null;
+
+  return {
+    locale: user?.locale || TMDB_DEFAULT_LANGUAGE,
+    region: user?.watchRegion || DEFAULT_WATCH_REGION,
+  };
+}
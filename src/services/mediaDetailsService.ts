@@ -0,0 +1,396 @@
+import { Media as MediaRecord, MediaCredit as MediaCreditRecord, Prisma } from '@prisma/client';
+import { prisma, withPrismaRetry } from '@/lib/prisma';
+import { cacheTags, invalidateTags } from '@/lib/cache';
+import { tmdb } from '@/lib/tmdb';
+import { TMDB_DEFAULT_LANGUAGE, TMDBDetailsAppend } from '@/lib/tmdbClient';
+import { toFilterableDetails } from '@/lib/recommendationFilters';
+import { mapWithConcurrency } from '@/lib/utils';
+import { Media, MediaDetails, MediaType, TVShowDetails } from '@/types/media';
+
+export interface MediaKey {
+  mediaType: MediaType;
+  mediaId: number;
+}
+
+export interface MediaDetailsRequest extends MediaKey {
+  append: TMDBDetailsAppend[];
+}
+
+type StoredMedia = MediaRecord & { credits: MediaCreditRecord[] };
+
+// Keeps a whole watchlist of misses from firing hundreds of TMDB requests at once
+const DETAILS_CONCURRENCY = 8;
+
+// Shows on the air change every week, everything else rarely
+const REFRESH_AFTER_DAYS = { airing: 1, default: 7 };
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Enough of the cast for stats and taste matching, TMDB lists hundreds for long running shows
+const MAX_STORED_CAST = 20;
+const STORED_CREW_JOBS = [
+  'Director', 'Creator', 'Showrunner', 'Executive Producer', 'Screenplay', 'Writer',
+  'Original Music Composer', 'Director of Photography',
+];
+
+// What the store keeps besides the details themselves
+const STORED_APPEND: Record<MediaType, TMDBDetailsAppend[]> = {
+  movie: ['credits', 'keywords', 'release_dates'],
+  tv: ['credits', 'keywords', 'content_ratings'],
+};
+
+const toJson = (value: unknown) => value as Prisma.InputJsonValue;
+
+const toDate = (value?: string) => (value ? new Date(value) : null);
+
+const fromDate = (value: Date | null) => value?.toISOString().slice(0, 10);
+
+const mediaKey = ({ mediaType, mediaId }: MediaKey) => `${mediaType}:${mediaId}`;
+
+/**
+ * Whether a stored title is due for a refresh from TMDB
+ */
+export function isMediaStale(media: Pick<MediaRecord, 'mediaType' | 'inProduction' | 'refreshedAt'>): boolean {
+  if (!media.refreshedAt) return true;
+  const days = media.mediaType === 'tv' && media.inProduction ? REFRESH_AFTER_DAYS.airing : REFRESH_AFTER_DAYS.default;
+  return Date.now() - media.refreshedAt.getTime() > days * DAY_MS;
+}
+
+/**
+ * Columns of the Media table for a title's TMDB details
+ */
+function toMediaData(details: MediaDetails) {
+  const filterable = toFilterableDetails(details);
+  const common = {
+    title: details.title,
+    posterPath: details.poster_path || null,
+    backdropPath: details.backdrop_path || null,
+    overview: details.overview || null,
+    tagline: details.tagline || null,
+    originalLanguage: details.original_language || null,
+    genres: details.genres.map(genre => genre.name),
+    genreIds: details.genres.map(genre => genre.id),
+    runtime: filterable.runtime,
+    certification: filterable.certification,
+    voteAverage: details.vote_average,
+    voteCount: details.vote_count ?? null,
+    status: details.status ?? null,
+    refreshedAt: new Date(),
+  };
+
+  if (details.media_type === 'movie') {
+    return {
+      ...common,
+      originalTitle: details.original_title ?? null,
+      keywords: (details.keywords?.keywords || []).map(keyword => keyword.name),
+      releaseDate: toDate(details.release_date),
+    };
+  }
+
+  return {
+    ...common,
+    originalTitle: details.original_name ?? null,
+    keywords: (details.keywords?.results || []).map(keyword => keyword.name),
+    releaseDate: toDate(details.first_air_date),
+    numberOfSeasons: details.number_of_seasons ?? null,
+    numberOfEpisodes: details.number_of_episodes ?? null,
+    inProduction: details.in_production ?? null,
+    lastAirDate: toDate(details.last_air_date),
+    nextEpisode: details.next_episode_to_air ? toJson(details.next_episode_to_air) : Prisma.JsonNull,
+    seasons: toJson(details.seasons || []),
+  };
+}
+
+/**
+ * Rows of the MediaCredit table for a title's top billed cast and key crew
+ */
+function toCreditData(details: MediaDetails): Prisma.MediaCreditCreateManyInput[] {
+  const key = { mediaType: details.media_type, mediaId: details.id };
+  const cast = (details.credits?.cast || []).slice(0, MAX_STORED_CAST).map((person, order) => ({
+    ...key,
+    personId: person.id,
+    role: 'cast',
+    name: person.name,
+    profilePath: person.profile_path,
+    character: person.character ?? null,
+    order,
+  }));
+  const crew = (details.credits?.crew || [])
+    .filter(person => STORED_CREW_JOBS.includes(person.job || ''))
+    .map((person, order) => ({
+      ...key,
+      personId: person.id,
+      role: 'crew',
+      name: person.name,
+      profilePath: person.profile_path,
+      job: person.job ?? null,
+      order,
+    }));
+
+  return [...cast, ...crew];
+}
+
+/**
+ * Shape a stored title like the TMDB details it was stored from, with its stored credits
+ */
+function toMediaDetails(media: StoredMedia): MediaDetails {
+  const credits = media.credits.sort((a, b) => a.order - b.order);
+  const common = {
+    id: media.tmdbId,
+    title: media.title,
+    poster_path: media.posterPath || '',
+    backdrop_path: media.backdropPath || '',
+    vote_average: media.voteAverage ?? 0,
+    vote_count: media.voteCount ?? undefined,
+    overview: media.overview || '',
+    tagline: media.tagline || '',
+    original_language: media.originalLanguage || '',
+    genres: media.genreIds.map((id, index) => ({ id, name: media.genres[index] })),
+    status: media.status ?? undefined,
+    credits: {
+      cast: credits.filter(credit => credit.role === 'cast').map(credit => ({
+        id: credit.personId,
+        name: credit.name,
+        character: credit.character ?? undefined,
+        profile_path: credit.profilePath,
+        order: credit.order,
+      })),
+      crew: credits.filter(credit => credit.role === 'crew').map(credit => ({
+        id: credit.personId,
+        name: credit.name,
+        job: credit.job ?? undefined,
+        profile_path: credit.profilePath,
+      })),
+    },
+  };
+
+  if (media.mediaType === 'movie') {
+    return {
+      ...common,
+      media_type: 'movie',
+      original_title: media.originalTitle ?? undefined,
+      runtime: media.runtime ?? undefined,
+      release_date: fromDate(media.releaseDate),
+    };
+  }
+
+  return {
+    ...common,
+    media_type: 'tv',
+    name: media.title,
+    original_name: media.originalTitle ?? undefined,
+    episode_run_time: media.runtime ? [media.runtime] : [],
+    first_air_date: fromDate(media.releaseDate),
+    last_air_date: fromDate(media.lastAirDate),
+    number_of_seasons: media.numberOfSeasons ?? undefined,
+    number_of_episodes: media.numberOfEpisodes ?? undefined,
+    in_production: media.inProduction ?? undefined,
+    next_episode_to_air: (media.nextEpisode as unknown as TVShowDetails['next_episode_to_air']) ?? undefined,
+    seasons: (media.seasons as unknown as TVShowDetails['seasons']) ?? undefined,
+  };
+}
+
+/**
+ * Fetch a title's details, credits and keywords from TMDB and store them
+ * @returns The details as fetched
+ */
+export async function refreshMedia({ mediaType, mediaId }: MediaKey): Promise<MediaDetails> {
+  const details = await tmdb.details(mediaType, mediaId, { append: STORED_APPEND[mediaType] });
+  const data = toMediaData(details);
+
+  await withPrismaRetry(() =>
+    prisma.$transaction([
+      prisma.media.upsert({
+        where: { mediaType_tmdbId: { mediaType, tmdbId: mediaId } },
+        create: { mediaType, tmdbId: mediaId, ...data },
+        update: data,
+      }),
+      prisma.mediaCredit.deleteMany({ where: { mediaType, mediaId } }),
+      prisma.mediaCredit.createMany({ data: toCreditData(details) }),
+    ])
+  );
+
+  return details;
+}
+
+/**
+ * Details for many titles, read from the store where possible.
+ * Titles not stored yet or due for a refresh are fetched from TMDB with bounded concurrency
+ * and stored for next time. A stale title is still served when TMDB is unavailable.
+ * @returns Details with credits, keyed by `${mediaType}:${mediaId}`, null for titles TMDB could not return
+ */
+export async function getMediaDetails(keys: MediaKey[]): Promise<Record<string, MediaDetails | null>> {
+  const idsByType = (mediaType: MediaType) =>
+    keys.filter(key => key.mediaType === mediaType).map(key => key.mediaId);
+
+  const stored = keys.length === 0 ? [] : await withPrismaRetry(() =>
+    prisma.media.findMany({
+      where: {
+        refreshedAt: { not: null },
+        OR: [
+          { mediaType: 'movie', tmdbId: { in: idsByType('movie') } },
+          { mediaType: 'tv', tmdbId: { in: idsByType('tv') } },
+        ],
+      },
+      include: { credits: true },
+    })
+  );
+
+  const details: Record<string, MediaDetails | null> = {};
+  const storedByKey = new Map(stored.map(media => [`${media.mediaType}:${media.tmdbId}`, media]));
+  const misses = new Map<string, MediaKey>();
+
+  keys.forEach(key => {
+    const media = storedByKey.get(mediaKey(key));
+    if (media && !isMediaStale(media)) {
+      details[mediaKey(key)] = toMediaDetails(media);
+    } else {
+      misses.set(mediaKey(key), key);
+    }
+  });
+
+  await mapWithConcurrency(Array.from(misses.entries()), DETAILS_CONCURRENCY, async ([key, miss]) => {
+    try {
+      details[key] = await refreshMedia(miss);
+    } catch (error) {
+      console.warn(`Failed to refresh details for ${key}:`, error);
+      const media = storedByKey.get(key);
+      details[key] = media ? toMediaDetails(media) : null;
+    }
+  });
+
+  return details;
+}
+
+/**
+ * Details for many titles in one go. Requests for details and credits are served through the store,
+ * anything else it does not keep is fetched from TMDB with bounded concurrency.
+ * @param items The titles, with the sub-resources to include for each
+ * @returns Details keyed by `${mediaType}:${mediaId}`, null for titles TMDB could not return
+ */
+export async function getMediaDetailsBatch(items: MediaDetailsRequest[]): Promise<Record<string, MediaDetails | null>> {
+  // One request per title, covering every sub-resource it was asked for with
+  const titles = new Map<string, MediaDetailsRequest>();
+  items.forEach(({ mediaType, mediaId, append }) => {
+    const key = mediaKey({ mediaType, mediaId });
+    const title = titles.get(key) || { mediaType, mediaId, append: [] };
+    title.append = Array.from(new Set([...title.append, ...append]));
+    titles.set(key, title);
+  });
+
+  const requests = Array.from(titles.values());
+  const fromStore = requests.filter(({ append }) => append.every(part => part === 'credits'));
+  const fromTMDB = requests.filter(({ append }) => !append.every(part => part === 'credits'));
+
+  const details = await getMediaDetails(fromStore);
+
+  await mapWithConcurrency(fromTMDB, DETAILS_CONCURRENCY, async ({ mediaType, mediaId, append }) => {
+    const key = mediaKey({ mediaType, mediaId });
+    try {
+      details[key] = await tmdb.details(mediaType, mediaId, { append });
+    } catch (error) {
+      console.warn(`Failed to fetch details for ${key}:`, error);
+      details[key] = null;
+    }
+  });
+
+  return details;
+}
+
+/**
+ * Refresh stored titles that are due, oldest first, for running on a schedule
+ * @param limit The most titles to refresh in one run
+ * @returns How many titles were refreshed and how many failed
+ */
+export async function refreshStaleMedia(limit: number): Promise<{ refreshed: number; failed: number }> {
+  const now = Date.now();
+  const stale = await withPrismaRetry(() =>
+    prisma.media.findMany({
+      where: {
+        OR: [
+          { refreshedAt: null },
+          { refreshedAt: { lt: new Date(now - REFRESH_AFTER_DAYS.default * DAY_MS) } },
+          { mediaType: 'tv', inProduction: true, refreshedAt: { lt: new Date(now - REFRESH_AFTER_DAYS.airing * DAY_MS) } },
+        ],
+      },
+      orderBy: { refreshedAt: { sort: 'asc', nulls: 'first' } },
+      take: limit,
+      select: { mediaType: true, tmdbId: true },
+    })
+  );
+
+  let failed = 0;
+  await mapWithConcurrency(stale, DETAILS_CONCURRENCY, async media => {
+    try {
+      await refreshMedia({ mediaType: media.mediaType as MediaType, mediaId: media.tmdbId });
+    } catch (error) {
+      console.warn(`Failed to refresh ${media.mediaType}:${media.tmdbId}:`, error);
+      failed++;
+    }
+  });
+
+  return { refreshed: stale.length - failed, failed };
+}
+
+/**
+ * Drop a title's cached TMDB responses and mark its stored details stale,
+ * so the next request for it reads everything from TMDB again
+ */
+export async function purgeMedia({ mediaType, mediaId }: MediaKey): Promise<void> {
+  await invalidateTags(cacheTags.media(mediaType, mediaId));
+  await withPrismaRetry(() =>
+    prisma.media.updateMany({
+      where: { mediaType, tmdbId: mediaId },
+      data: { refreshedAt: null },
+    })
+  );
+}
+
+/**
+ * One title's stored details with the text and artwork TMDB has in another language.
+ * Only the stored, default-language copy is kept, translations are read through the TMDB cache.
+ * @param language TMDB language, e.g. 'fr-FR'
+ * @returns The details, or null when TMDB could not return the title
+ */
+export async function getLocalizedMediaDetails(key: MediaKey, language: string): Promise<MediaDetails | null> {
+  const details = (await getMediaDetails([key]))[mediaKey(key)];
+  if (!details || language === TMDB_DEFAULT_LANGUAGE) return details;
+
+  try {
+    const localized = await tmdb.details(key.mediaType, key.mediaId, { language });
+    // Fields TMDB has no translation for come back empty, keep the stored ones for those
+    return {
+      ...details,
+      title: localized.title || details.title,
+      ...('name' in localized && localized.name ? { name: localized.name } : {}),
+      overview: localized.overview || details.overview,
+      tagline: localized.tagline || details.tagline,
+      poster_path: localized.poster_path || details.poster_path,
+      backdrop_path: localized.backdrop_path || details.backdrop_path,
+      genres: localized.genres.length > 0 ? localized.genres : details.genres,
+    } as MediaDetails;
+  } catch (error) {
+    console.warn(`Failed to localize ${mediaKey(key)} to ${language}:`, error);
+    return details;
+  }
+}
+
+/**
+ * A search or recommendation result with its title and poster in another language
+ * @param language TMDB language, e.g. 'fr-FR'
+ * @returns The result as given when it is already in that language or TMDB is unavailable
+ */
+export async function localizeMedia<T extends Media>(media: T, language: string): Promise<T> {
+  if (language === TMDB_DEFAULT_LANGUAGE) return media;
+
+  try {
+    const localized = await tmdb.details(media.media_type, media.id, { language });
+    return {
+      ...media,
+      title: localized.title || media.title,
+      poster_path: localized.poster_path || media.poster_path,
+    };
+  } catch (error) {
+    console.warn(`Failed to localize ${mediaKey({ mediaType: media.media_type, mediaId: media.id })} to ${language}:`, error);
+    return media;
+  }
+}
@@ -0,0 +1,64 @@
+import { buildRecommendationPrompt, generateWithRepair, Media } from './gemmaService';
+import { RecommendationFilters, RecommendedTitle } from '@/lib/validationSchemas';
+import { RecommendationConversationContext, RecommendationMediaType, TasteProfile } from '@/types/recommendation';
+
+interface ChatCompletionResponse {
+  choices?: Array<{
+    message?: {
+      content?: string | null;
+    };
+  }>;
+}
+
+/**
+ * Send a prompt to any endpoint that speaks the OpenAI chat completions API
+ * (OpenAI itself, OpenRouter, Ollama, LM Studio, vLLM, ...).
+ * Configured through OPENAI_BASE_URL, OPENAI_MODEL and an optional OPENAI_API_KEY.
+ * @returns The raw response text
+ */
+export async function completeWithOpenAICompatible(prompt: string): Promise<string> {
+  const baseUrl = (process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/+$/, '');
+  const model = process.env.OPENAI_MODEL || 'gpt-4o-mini';
+
+  const response = await fetch(`${baseUrl}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      // Local servers usually run without a key
+      ...(process.env.OPENAI_API_KEY && { Authorization: `Bearer ${process.env.OPENAI_API_KEY}` }),
+    },
+    body: JSON.stringify({
+      model,
+      messages: [{ role: 'user', content: prompt }],
+      response_format: { type: 'json_object' },
+      temperature: 0.7,
+    }),
+    signal: AbortSignal.timeout(30000), // 30 second timeout
+  });
+
+  if (!response.ok) {
+    throw new Error(`LLM endpoint returned ${response.status}`);
+  }
+
+  const data: ChatCompletionResponse = await response.json();
+  return data.choices?.[0]?.message?.content || '';
+}
+
+/**
+ * Generate recommendations with an OpenAI-compatible endpoint
+ */
+export async function generateOpenAICompatibleRecommendations(
+  description: string,
+  selectedMedia: Media[],
+  count: number = 15,
+  mediaType: RecommendationMediaType,
+  tasteProfile?: TasteProfile,
+  filters?: RecommendationFilters,
+  conversation?: RecommendationConversationContext
+): Promise<RecommendedTitle[]> {
+  return generateWithRepair(
+    completeWithOpenAICompatible,
+    buildRecommendationPrompt(description, selectedMedia, count, mediaType, tasteProfile, filters, conversation),
+    count
+  );
+}
@@ -0,0 +1,119 @@
+import { prisma, withPrismaRetry } from '@/lib/prisma';
+import { tmdb } from '@/lib/tmdb';
+import { WatchStatus } from '@/lib/prismaTypes';
+import { TMDBPersonCredit } from '@/lib/tmdbSchemas';
+import { MediaType } from '@/types/media';
+import { PersonCredit, PersonDetails } from '@/types/person';
+
+// Talk shows, award ceremonies and documentaries list people as themselves
+const SELF_APPEARANCE = /^(self|himself|herself|themselves)\b/i;
+
+const creditKey = ({ media_type, id }: { media_type: MediaType; id: number }) => `${media_type}:${id}`;
+
+/**
+ * Collapse TMDB's one-credit-per-role list into one credit per title, most recent first.
+ * Undated titles (usually announced projects) go last.
+ * @param role The role a credit describes, e.g. the character or job
+ */
+function mergeCredits(
+  credits: TMDBPersonCredit[],
+  role: (credit: TMDBPersonCredit) => string | undefined
+): Omit<PersonCredit, 'watchlist'>[] {
+  const merged = new Map<string, Omit<PersonCredit, 'watchlist'>>();
+
+  credits.forEach(credit => {
+    const key = creditKey(credit);
+    const existing = merged.get(key) || {
+      id: credit.id,
+      media_type: credit.media_type,
+      title: credit.title || credit.name || '',
+      poster_path: credit.poster_path,
+      date: (credit.media_type === 'movie' ? credit.release_date : credit.first_air_date) || null,
+      popularity: credit.popularity,
+      vote_average: credit.vote_average,
+      roles: [],
+    };
+    const name = role(credit);
+    if (name && !existing.roles.includes(name)) existing.roles.push(name);
+    merged.set(key, existing);
+  });
+
+  return Array.from(merged.values()).sort((a, b) =>
+    (b.date || '').localeCompare(a.date || '') || b.popularity - a.popularity
+  );
+}
+
+/**
+ * The viewer's status and rating for each of the titles they have on their watchlist
+ * @returns Entries keyed by `${mediaType}:${mediaId}`
+ */
+async function getWatchlistOverlay(
+  userId: string,
+  credits: Array<{ media_type: MediaType; id: number }>
+): Promise<Map<string, PersonCredit['watchlist']>> {
+  const idsByType = (mediaType: MediaType) =>
+    credits.filter(credit => credit.media_type === mediaType).map(credit => credit.id);
+
+  const entries = await withPrismaRetry(() =>
+    prisma.watchlistEntry.findMany({
+      where: {
+        userId,
+        OR: [
+          { mediaType: 'movie', mediaId: { in: idsByType('movie') } },
+          { mediaType: 'tv', mediaId: { in: idsByType('tv') } },
+        ],
+      },
+      select: { mediaType: true, mediaId: true, status: true, rating: true },
+    })
+  );
+
+  return new Map(entries.map(entry => [
+    `${entry.mediaType}:${entry.mediaId}`,
+    { status: entry.status as WatchStatus, rating: entry.rating },
+  ]));
+}
+
+/**
+ * A person's profile with their movie and TV credits, each overlaid with the viewer's watchlist status and rating.
+ * Appearances as themselves are left out, so the credits and progress reflect their actual work.
+ * @param personId The person's TMDB ID
+ * @param options.userId The viewer, if signed in
+ * @param options.language TMDB language for the biography and titles
+ * @returns The person, or null when TMDB could not return them
+ */
+export async function getPersonDetails(
+  personId: number,
+  { userId, language }: { userId?: string; language?: string } = {}
+): Promise<PersonDetails | null> {
+  const person = await tmdb.person(personId, { language }).catch(error => {
+    console.warn(`Failed to fetch person ${personId}:`, error);
+    return null;
+  });
+  if (!person) return null;
+
+  const { combined_credits: credits, ...profile } = person;
+  const cast = mergeCredits(
+    (credits?.cast || []).filter(credit => !SELF_APPEARANCE.test(credit.character || '')),
+    credit => credit.character
+  );
+  const crew = mergeCredits(credits?.crew || [], credit => credit.job);
+
+  const titles = new Map([...cast, ...crew].map(credit => [creditKey(credit), credit]));
+  const overlay = userId ? await getWatchlistOverlay(userId, Array.from(titles.values())) : new Map();
+  const withWatchlist = (credit: Omit<PersonCredit, 'watchlist'>): PersonCredit => ({
+    ...credit,
+    watchlist: overlay.get(creditKey(credit)) || null,
+  });
+
+  return {
+    ...profile,
+    cast: cast.map(withWatchlist),
+    crew: crew.map(withWatchlist),
+    progress: userId
+      ? {
+          seen: Array.from(overlay.values()).filter(entry => entry?.status === WatchStatus.WATCHED).length,
+          total: titles.size,
+        }
+      : null,
+  };
+}
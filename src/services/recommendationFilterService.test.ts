@@ -0,0 +1,55 @@
+import { afterEach, beforeEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { meetsFilters } from './recommendationFilterService';
+
+// TMDB details with release dates appended, as the filter check requests them
+const details: Record<string, unknown> = {
+  '/movie/603': {
+    id: 603,
+    title: 'The Matrix',
+    poster_path: '/f89U3ADr1oiB1s9GkdPOEpXUk5H.jpg',
+    runtime: 136,
+    release_date: '1999-03-30',
+    original_language: 'en',
+    vote_average: 8.2,
+    vote_count: 25000,
+    release_dates: { results: [{ iso_3166_1: 'US', release_dates: [{ certification: 'R' }] }] },
+  },
+};
+
+const matrix = { id: 603, title: 'The Matrix', poster_path: '', media_type: 'movie' as const };
+
+describe('meetsFilters', () => {
+  let requestedUrls: URL[];
+
+  beforeEach(() => {
+    requestedUrls = [];
+    mock.method(globalThis, 'fetch', async (input: string | URL | Request) => {
+      const url = new URL(input instanceof Request ? input.url : input);
+      requestedUrls.push(url);
+      const body = details[url.pathname.replace(/^\/3/, '')];
+      return body
+        ? new Response(JSON.stringify(body), { status: 200 })
+        : new Response(JSON.stringify({ status_message: 'Invalid id' }), { status: 404 });
+    });
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'warn', () => {});
+    mock.method(console, 'error', () => {});
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  test('checks the constraints against the title\'s TMDB details', async () => {
+    assert.equal(await meetsFilters(matrix, { maxRuntime: 150, maxCertification: 'R' }), true);
+    assert.equal(await meetsFilters(matrix, { maxCertification: 'PG-13' }), false);
+    assert.equal(requestedUrls[0].searchParams.get('append_to_response'), 'release_dates');
+  });
+
+  test('rejects titles whose details cannot be fetched', async () => {
+    const missing = { ...matrix, id: 999999999 };
+
+    assert.equal(await meetsFilters(missing, { maxRuntime: 150 }), false);
+  });
+});
@@ -0,0 +1,34 @@
+import { tmdb } from '@/lib/tmdb';
+import { FilterableDetails, findFilterViolation, toFilterableDetails } from '@/lib/recommendationFilters';
+import { RecommendationFilters } from '@/lib/validationSchemas';
+import { Media } from '@/types/media';
+
+/**
+ * Fetch the details the hard constraints are checked against
+ */
+export async function fetchFilterableDetails(media: Media, signal?: AbortSignal): Promise<FilterableDetails> {
+  const append = media.media_type === 'movie' ? 'release_dates' : 'content_ratings';
+  const details = await tmdb.details(media.media_type, media.id, { append: [append], signal });
+  return toFilterableDetails(details);
+}
+
+/**
+ * Whether a resolved title satisfies every hard constraint.
+ * Titles whose details cannot be fetched are rejected, since they cannot be checked.
+ */
+export async function meetsFilters(
+  media: Media,
+  filters: RecommendationFilters,
+  signal?: AbortSignal
+): Promise<boolean> {
+  try {
+    const violation = findFilterViolation(await fetchFilterableDetails(media, signal), filters);
+    if (violation) {
+      console.log(`Filtered out ${media.media_type} "${media.title}": ${violation}`);
+    }
+    return !violation;
+  } catch (error) {
+    console.warn(`Could not check filters for ${media.media_type} ${media.id}:`, error);
+    return false;
+  }
+}
@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { fakePrisma } from '@/test/fakePrisma';
+import relatedFixtures from './__fixtures__/tmdbRelated.json';
+import { getRecommendationProvider, tmdbProvider } from './recommendationProvider';
+import { getRecommendations } from './recommendationService';
+
+const PROVIDER_ENV = ['RECOMMENDATION_PROVIDER', 'GEMINI_API_KEY', 'OPENAI_API_KEY', 'OPENAI_BASE_URL'];
+
+// Answer TMDB requests from the recorded responses, by path without the query string
+const fetchFromFixtures = async (input: string | URL | Request) => {
+  const { pathname } = new URL(input instanceof Request ? input.url : input);
+  const body = (relatedFixtures as Record<string, unknown>)[pathname.replace(/^\/3/, '')];
+  return body
+    ? new Response(JSON.stringify(body), { status: 200 })
+    : new Response(JSON.stringify({ status_message: 'The resource you requested could not be found.' }), { status: 404 });
+};
+
+describe('TMDB fallback provider', () => {
+  const savedEnv: Record<string, string | undefined> = {};
+
+  beforeEach(() => {
+    PROVIDER_ENV.forEach(key => {
+      savedEnv[key] = process.env[key];
+      delete process.env[key];
+    });
+    mock.method(globalThis, 'fetch', fetchFromFixtures);
+    mock.method(console, 'warn', () => {});
+  });
+
+  afterEach(() => {
+    PROVIDER_ENV.forEach(key => {
+      if (savedEnv[key] === undefined) delete process.env[key];
+      else process.env[key] = savedEnv[key];
+    });
+    mock.restoreAll();
+  });
+
+  test('is selected when no model provider is configured', () => {
+    assert.equal(getRecommendationProvider(), tmdbProvider);
+  });
+
+  test('is selected when the configured provider has no key', () => {
+    process.env.RECOMMENDATION_PROVIDER = 'openai';
+    assert.equal(getRecommendationProvider(), tmdbProvider);
+  });
+
+  test('returns resolved recommendations from the seed\'s TMDB lists', async () => {
+    const recommendations = await getRecommendations({
+      description: 'Mind-bending sci-fi action',
+      selectedMedia: [{ id: 603, title: 'The Matrix', poster_path: '/f89U3ADr1oiB1s9GkdPOEpXUk5H.jpg', media_type: 'movie' }],
+      count: 3,
+      mediaType: 'movie',
+    });
+
+    assert.equal(recommendations.length, 3);
+    // Inception is in both lists, so it ranks first
+    assert.equal(recommendations[0].id, 27205);
+    recommendations.forEach(media => {
+      assert.equal(media.media_type, 'movie');
+      assert.ok(Number.isInteger(media.id) && media.id > 0);
+      assert.ok(media.title.length > 0);
+      assert.equal(typeof media.poster_path, 'string');
+      assert.ok(media.reason.length > 0);
+      assert.deepEqual(media.seeds, ['The Matrix']);
+      // TMDB-backed picks need no title search, so they are certain
+      assert.equal(media.confidence, 1);
+      assert.notEqual(media.id, 603);
+    });
+  });
+
+  test('excludes titles by type and ID, so a show does not hide a movie with the same ID', async () => {
+    const request = {
+      description: 'Mind-bending sci-fi action',
+      selectedMedia: [{ id: 603, title: 'The Matrix', poster_path: '', media_type: 'movie' as const }],
+      count: 3,
+      mediaType: 'movie' as const,
+    };
+
+    const withShowExcluded = await getRecommendations({ ...request, excludeKeys: ['tv:27205'] });
+    const withMovieExcluded = await getRecommendations({ ...request, excludeKeys: ['movie:27205'] });
+
+    assert.ok(withShowExcluded.some(media => media.id === 27205));
+    assert.ok(!withMovieExcluded.some(media => media.id === 27205));
+  });
+
+  test('keeps titles whose streaming availability could not be checked, flagged', async () => {
+    fakePrisma.user = {
+      findUnique: async () => ({ streamingServices: [8], watchRegion: 'US', locale: null }),
+    };
+    const providers: Record<string, number[]> = {
+      '/movie/27205/watch/providers': [8],
+      '/movie/604/watch/providers': [337],
+    };
+    // Lookups for anything else fail
+    mock.method(globalThis, 'fetch', async (input: string | URL | Request) => {
+      const path = new URL(input instanceof Request ? input.url : input).pathname.replace(/^\/3/, '');
+      if (!path.endsWith('/watch/providers')) return fetchFromFixtures(input);
+      if (!providers[path]) return new Response(JSON.stringify({ status_message: 'Not found' }), { status: 404 });
+      const flatrate = providers[path].map(id => ({ provider_id: id, provider_name: `Provider ${id}`, logo_path: '' }));
+      return new Response(JSON.stringify({ id: 0, results: { US: { flatrate } } }));
+    });
+
+    const recommendations = await getRecommendations({
+      description: 'Mind-bending sci-fi action',
+      selectedMedia: [{ id: 603, title: 'The Matrix', poster_path: '', media_type: 'movie' }],
+      count: 3,
+      mediaType: 'movie',
+      servicesUserId: 'alice',
+    });
+
+    assert.equal(recommendations[0].id, 27205);
+    assert.equal(recommendations[0].availabilityUnknown, undefined);
+    // On a service the user does not have
+    assert.ok(!recommendations.some(media => media.id === 604));
+    assert.equal(recommendations.length, 3);
+    assert.ok(recommendations.slice(1).every(media => media.availabilityUnknown));
+  });
+});
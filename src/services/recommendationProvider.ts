@@ -0,0 +1,82 @@
+import { generateMediaRecommendations } from './gemmaService';
+import { generateOpenAICompatibleRecommendations } from './openAICompatibleService';
+import { generateTMDBRecommendations } from './tmdbRecommendationService';
+import {
+  RecommendationInput,
+  RecommendationProvider,
+  RecommendationProviderName,
+} from '@/types/recommendation';
+
+export const geminiProvider: RecommendationProvider = {
+  name: 'gemini',
+  generate: ({ description, selectedMedia, count, mediaType, tasteProfile, filters, conversation }) =>
+    generateMediaRecommendations(description, selectedMedia, count, mediaType, tasteProfile, filters, conversation),
+};
+
+export const openAICompatibleProvider: RecommendationProvider = {
+  name: 'openai',
+  generate: ({ description, selectedMedia, count, mediaType, tasteProfile, filters, conversation }) =>
+    generateOpenAICompatibleRecommendations(description, selectedMedia, count, mediaType, tasteProfile, filters, conversation),
+};
+
+export const tmdbProvider: RecommendationProvider = {
+  name: 'tmdb',
+  generate: generateTMDBRecommendations,
+};
+
+const providers: Record<RecommendationProviderName, RecommendationProvider> = {
+  gemini: geminiProvider,
+  openai: openAICompatibleProvider,
+  tmdb: tmdbProvider,
+};
+
+/**
+ * Whether the configuration needed by a provider is present
+ */
+function isConfigured(name: RecommendationProviderName): boolean {
+  switch (name) {
+    case 'gemini':
+      return !!process.env.GEMINI_API_KEY;
+    case 'openai':
+      return !!(process.env.OPENAI_BASE_URL || process.env.OPENAI_API_KEY);
+    case 'tmdb':
+      return true;
+  }
+}
+
+/**
+ * Pick the provider named by RECOMMENDATION_PROVIDER (defaults to Gemini).
+ * Falls back to the TMDB provider when the chosen one is not configured.
+ */
+export function getRecommendationProvider(): RecommendationProvider {
+  const configured = process.env.RECOMMENDATION_PROVIDER as RecommendationProviderName | undefined;
+  const name = configured && configured in providers ? configured : 'gemini';
+
+  if (!isConfigured(name)) {
+    console.warn(`Recommendation provider "${name}" is not configured, using TMDB fallback`);
+    return tmdbProvider;
+  }
+
+  return providers[name];
+}
+
+/**
+ * Generate recommendations with the configured provider, switching to the
+ * LLM-free TMDB provider when the primary one errors or returns nothing.
+ */
+export async function generateRecommendations(input: RecommendationInput) {
+  const provider = getRecommendationProvider();
+
+  try {
+    const recommendations = await provider.generate(input);
+    if (recommendations.length > 0 || provider === tmdbProvider) {
+      return recommendations;
+    }
+    console.warn(`Recommendation provider "${provider.name}" returned no results, using TMDB fallback`);
+  } catch (error) {
+    if (provider === tmdbProvider) throw error;
+    console.warn(`Recommendation provider "${provider.name}" failed, using TMDB fallback:`, error);
+  }
+
+  return tmdbProvider.generate(input);
+}
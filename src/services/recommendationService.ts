@@ -0,0 +1,282 @@
+import { createHash } from 'crypto';
+import { generateRecommendations } from './recommendationProvider';
+import { getGroupTasteProfile, getTasteProfile, mergeTasteProfiles } from './tasteProfileService';
+import { getFeedbackProfile } from './feedbackService';
+import { meetsFilters } from './recommendationFilterService';
+import { getStreamingPreferences, getSubscribedProviders, StreamingPreferences } from './streamingAvailabilityService';
+import { getLocalePreferences } from './localeService';
+import { localizeMedia } from './mediaDetailsService';
+import { tmdb } from '@/lib/tmdb';
+import { getCachedValue, setCachedValue, generateCacheKey, CACHE_TTL, cacheTags } from '@/lib/cache';
+import { interleaveMediaTypes } from '@/lib/utils';
+import { hasActiveFilters } from '@/lib/recommendationFilters';
+import { RecommendationFilters } from '@/lib/validationSchemas';
+import { Media } from '@/types/media';
+import {
+  ProviderRecommendation,
+  RecommendationConversationContext,
+  RankedRecommendation,
+  RecommendationMediaType,
+  RecommendedMedia,
+} from '@/types/recommendation';
+import { normalizeTitle, resolveTitle } from '@/lib/titleResolution';
+import type { RateLimit } from '@/lib/rateLimit';
+
+export interface RecommendationRequest {
+  description: string;
+  selectedMedia: Media[];
+  count: number;
+  mediaType: RecommendationMediaType;
+  // `${mediaType}:${id}` keys of titles to leave out, e.g. ones already shown
+  excludeKeys?: string[];
+  // Set to personalize with this user's watchlist ("use my taste" mode)
+  tasteUserId?: string;
+  filters?: RecommendationFilters;
+  // Set to keep only titles streaming on this user's services
+  servicesUserId?: string;
+  // Set for signed-in users so their thumbs up/down and hidden titles apply
+  feedbackUserId?: string;
+  // Set for signed-in users so results come back in their language
+  localeUserId?: string;
+  // Set to recommend for everyone in a group watching together
+  groupUserIds?: string[];
+  // Set when refining earlier results in a conversation
+  conversation?: RecommendationConversationContext;
+}
+
+// Every run is a model call plus a TMDB search per title, and the routes are open to signed-out visitors
+export const RECOMMENDATION_RATE_LIMIT: RateLimit = { limit: 30, windowSeconds: 10 * 60 };
+
+// With hard constraints some picks get dropped, so ask the provider for extra
+const FILTERED_OVERGENERATION_FACTOR = 2;
+const MAX_GENERATED_COUNT = 30;
+
+/**
+ * Keep only the related titles that really are seeds, using the seed's own spelling
+ */
+function matchSeeds(relatedTo: string[], seedTitles: string[]): string[] {
+  const seedsByTitle = new Map(seedTitles.map(title => [normalizeTitle(title), title]));
+  const seeds = relatedTo
+    .map(title => seedsByTitle.get(normalizeTitle(title)))
+    .filter((title): title is string => !!title);
+  return Array.from(new Set(seeds));
+}
+
+/**
+ * Resolve a provider recommendation to a TMDB entry with a match confidence
+ * @param recommendation The provider's recommendation
+ * @param seedTitles Titles the recommendation may relate to (selected and loved titles)
+ * @param signal Stops the TMDB searches when aborted
+ */
+async function resolveRecommendation(
+  recommendation: ProviderRecommendation,
+  seedTitles: string[],
+  signal?: AbortSignal
+): Promise<RecommendedMedia | null> {
+  const explanation = {
+    reason: recommendation.reason,
+    seeds: matchSeeds(recommendation.relatedTo, seedTitles),
+  };
+
+  // Providers backed by TMDB already know the exact entry
+  if (recommendation.media) return { ...recommendation.media, ...explanation, confidence: 1 };
+
+  const match = await resolveTitle(
+    { title: recommendation.title, year: recommendation.year, mediaType: recommendation.mediaType },
+    tmdb,
+    { signal }
+  );
+
+  return match ? { ...match.media, ...explanation, confidence: match.confidence } : null;
+}
+
+/**
+ * Whether a title streams on one of the user's services, or null when TMDB
+ * could not tell us, so a failed lookup is not mistaken for "not streaming"
+ */
+async function isOnServices(media: Media, streaming: StreamingPreferences, signal?: AbortSignal): Promise<boolean | null> {
+  try {
+    const providers = await getSubscribedProviders(media.media_type, media.id, streaming, signal);
+    return providers.length > 0;
+  } catch (error) {
+    if (!signal?.aborted) console.warn(`Could not check streaming availability for ${media.media_type} ${media.id}:`, error);
+    return null;
+  }
+}
+
+const buildCacheKey = (request: RecommendationRequest, language: string, streaming?: StreamingPreferences): string => {
+  const {
+    description,
+    selectedMedia,
+    count,
+    mediaType,
+    excludeKeys = [],
+    tasteUserId,
+    filters,
+    feedbackUserId,
+    groupUserIds,
+    conversation,
+  } = request;
+  // A conversation turn is a different request from its opening description
+  const prompt = conversation ? `${description}\n${JSON.stringify(conversation)}` : description;
+
+  return generateCacheKey('recommendations', {
+    descHash: createHash('sha256').update(prompt).digest('hex').substring(0, 16),
+    mediaIds: selectedMedia.map(m => m.id).sort().join('-'),
+    exclude: [...excludeKeys].sort().join('-'),
+    count,
+    type: mediaType,
+    taste: tasteUserId || '',
+    group: groupUserIds ? [...groupUserIds].sort().join('-') : '',
+    filters: hasActiveFilters(filters) ? JSON.stringify(filters) : '',
+    // Keyed by the services themselves so changing them takes effect immediately
+    services: streaming ? `${streaming.region}:${[...streaming.services].sort().join('-')}` : '',
+    // Keeps results that skip a user's disliked titles apart from everyone else's
+    user: feedbackUserId || '',
+    language,
+  });
+};
+
+/**
+ * Generate recommendations with the configured provider and yield each one as
+ * soon as it and every better-ranked title have been resolved to TMDB media, in rank order.
+ * The full result set is cached once the stream completes.
+ * @param request The description, seed titles and media type ('mixed' for both) to recommend for
+ * @param signal Stops resolving further titles when aborted
+ */
+export async function* streamRecommendations(
+  request: RecommendationRequest,
+  signal?: AbortSignal
+): AsyncGenerator<RankedRecommendation> {
+  const {
+    description,
+    selectedMedia,
+    count,
+    mediaType,
+    excludeKeys = [],
+    tasteUserId,
+    servicesUserId,
+    feedbackUserId,
+    localeUserId,
+    groupUserIds,
+    conversation,
+  } = request;
+  const filters = hasActiveFilters(request.filters) ? request.filters : undefined;
+
+  const [streaming, { locale }] = await Promise.all([
+    servicesUserId ? getStreamingPreferences(servicesUserId) : undefined,
+    getLocalePreferences(localeUserId),
+  ]);
+  if (streaming && streaming.services.length === 0) {
+    throw new Error('Add your streaming services in your profile to filter by them');
+  }
+
+  const cacheKey = buildCacheKey(request, locale, streaming);
+
+  const cached = await getCachedValue<RankedRecommendation[]>(cacheKey);
+  if (cached?.length) {
+    yield* cached;
+    return;
+  }
+
+  const [watchlistTaste, groupTaste, feedback] = await Promise.all([
+    tasteUserId ? getTasteProfile(tasteUserId) : undefined,
+    groupUserIds ? getGroupTasteProfile(groupUserIds) : undefined,
+    feedbackUserId ? getFeedbackProfile(feedbackUserId) : undefined,
+  ]);
+  const tasteProfile = mergeTasteProfiles(watchlistTaste, groupTaste, feedback);
+  const generated = await generateRecommendations({
+    description,
+    selectedMedia,
+    count: filters || streaming ? Math.min(count * FILTERED_OVERGENERATION_FACTOR, MAX_GENERATED_COUNT) : count,
+    mediaType,
+    tasteProfile,
+    filters,
+    conversation,
+  });
+  // Models do not always alternate as asked, so blend mixed results ourselves
+  const recommendedTitles = mediaType === 'mixed'
+    ? interleaveMediaTypes(generated, recommendation => recommendation.mediaType)
+    : generated;
+
+  if (!recommendedTitles.length) {
+    throw new Error('No recommendations received');
+  }
+
+  const seedTitles = [
+    ...selectedMedia.map(media => media.title),
+    ...(tasteProfile?.likedMedia || []).map(media => media.title),
+  ];
+
+  // Resolve every title in parallel, indexed by rank
+  const resolving = recommendedTitles.map(recommendation =>
+    resolveRecommendation(recommendation, seedTitles, signal)
+      // Enforce the hard constraints on the actual TMDB entry, whatever the model claimed
+      .then(async media => (media && filters && !(await meetsFilters(media, filters, signal)) ? null : media))
+      .then(async media => {
+        if (!media || !streaming) return media;
+        const onServices = await isOnServices(media, streaming, signal);
+        // Keep titles we could not check, flagged, rather than dropping them
+        return onServices === false ? null : onServices === null ? { ...media, availabilityUnknown: true } : media;
+      })
+      // Titles are resolved in English, which models recommend in, and shown in the user's language
+      .then(media => (media ? localizeMedia(media, locale) : null))
+      .catch(error => {
+        // Searches cut short by a disconnected client are expected
+        if (!signal?.aborted) console.error(`Error searching for media "${recommendation.title}":`, error);
+        return null;
+      })
+  );
+
+  // Drop unresolved or filtered titles, duplicates, anything the caller asked
+  // us to skip, anything already in the user's watchlist and anything they hid
+  // Movie and TV IDs overlap on TMDB, so de-duplicate by type and ID
+  const excludedKeys = new Set([...excludeKeys, ...(tasteProfile?.excludedKeys || [])]);
+  const results: RankedRecommendation[] = [];
+
+  // Hand them out in rank order, so the cut at `count` keeps the best-ranked titles
+  // rather than the fastest to resolve, and mixed results keep their interleaving
+  for (let rank = 0; rank < resolving.length && results.length < count; rank++) {
+    const media = await resolving[rank];
+    if (signal?.aborted) return;
+
+    if (!media) continue;
+    // A single-type request must not fall back to a namesake of the other type
+    if (mediaType !== 'mixed' && media.media_type !== mediaType) continue;
+    const key = `${media.media_type}:${media.id}`;
+    if (excludedKeys.has(key)) continue;
+    excludedKeys.add(key);
+
+    const result = { rank, media };
+    results.push(result);
+    yield result;
+  }
+
+  if (results.length === 0) {
+    throw new Error(filters || streaming
+      ? 'No recommendations matched your filters, try loosening them'
+      : 'Could not find any matching movies or TV shows');
+  }
+
+  // Results go stale when feedback changes or a watchlist that fed the prompt does
+  const cacheUserIds = new Set(
+    [feedbackUserId, tasteUserId, ...(groupUserIds || [])].filter((userId): userId is string => !!userId)
+  );
+  await setCachedValue(cacheKey, results, CACHE_TTL.RECOMMENDATIONS, {
+    tags: Array.from(cacheUserIds, cacheTags.recommendations),
+  });
+}
+
+/**
+ * Generate recommendations with the configured provider and resolve them to TMDB media on the server
+ * @param request The description, seed titles and media type to recommend for
+ * @returns The resolved media in ranked order, de-duplicated and without excluded IDs
+ */
+export async function getRecommendations(request: RecommendationRequest): Promise<RecommendedMedia[]> {
+  const results: RankedRecommendation[] = [];
+  for await (const result of streamRecommendations(request)) {
+    results.push(result);
+  }
+
+  return results.map(({ media }) => media);
+}
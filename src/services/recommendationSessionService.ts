@@ -0,0 +1,92 @@
+import { nanoid } from 'nanoid';
+import { Prisma, RecommendationSession as RecommendationSessionRecord } from '@prisma/client';
+import { prisma, withPrismaRetry } from '@/lib/prisma';
+import { AuthenticatedRequest } from '@/lib/authMiddleware';
+import { RecommendationFilters } from '@/lib/validationSchemas';
+import { Media } from '@/types/media';
+import { RecommendationMediaType, RecommendationSession, RecommendedMedia } from '@/types/recommendation';
+
+// Short enough for a permalink, long enough that links cannot be guessed
+const SESSION_ID_LENGTH = 10;
+const MAX_NAME_LENGTH = 80;
+
+export interface RecommendationSessionInput {
+  description: string;
+  selectedMedia: Media[];
+  mediaType: RecommendationMediaType;
+  filters?: RecommendationFilters;
+}
+
+/**
+ * Name a session after its description, falling back to its seed titles
+ */
+function defaultSessionName({ description, selectedMedia }: RecommendationSessionInput): string {
+  const name = description.trim().replace(/\s+/g, ' ')
+    || `Like ${selectedMedia.map(media => media.title).join(', ')}`;
+  return name.length > MAX_NAME_LENGTH ? `${name.slice(0, MAX_NAME_LENGTH - 1)}…` : name;
+}
+
+const toJson = (value: unknown) => value as Prisma.InputJsonValue;
+
+/**
+ * Persist a completed recommendation run
+ * @param input The description, seed titles, media type and filters of the run
+ * @param results The resolved recommendations in ranked order
+ * @param user The signed-in user who made the run, who owns the session
+ * @returns The session's short ID
+ */
+export async function saveRecommendationSession(
+  input: RecommendationSessionInput,
+  results: RecommendedMedia[],
+  user: AuthenticatedRequest['user']
+): Promise<string> {
+  const session = await withPrismaRetry(() =>
+    prisma.recommendationSession.create({
+      data: {
+        id: nanoid(SESSION_ID_LENGTH),
+        name: defaultSessionName(input),
+        description: input.description,
+        mediaType: input.mediaType,
+        selectedMedia: toJson(input.selectedMedia),
+        filters: input.filters ? toJson(input.filters) : Prisma.JsonNull,
+        results: toJson(results),
+        user: {
+          connectOrCreate: {
+            where: { id: user.uid },
+            create: {
+              id: user.uid,
+              email: user.email,
+              displayName: user.name,
+              photoURL: user.picture,
+            },
+          },
+        },
+      },
+      select: { id: true },
+    })
+  );
+
+  return session.id;
+}
+
+/**
+ * Shape a stored session for the API
+ * @param viewerId The ID of the user viewing the session, if signed in
+ */
+export function toRecommendationSession(
+  record: RecommendationSessionRecord,
+  viewerId?: string
+): RecommendationSession {
+  return {
+    id: record.id,
+    name: record.name,
+    description: record.description,
+    mediaType: record.mediaType as RecommendationMediaType,
+    selectedMedia: record.selectedMedia as unknown as Media[],
+    filters: record.filters as RecommendationFilters | null,
+    results: record.results as unknown as RecommendedMedia[],
+    createdAt: record.createdAt.toISOString(),
+    updatedAt: record.updatedAt.toISOString(),
+    isOwner: !!viewerId && record.userId === viewerId,
+  };
+}
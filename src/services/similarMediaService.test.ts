@@ -0,0 +1,58 @@
+import { afterEach, beforeEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { fakePrisma } from '@/test/fakePrisma';
+import { WatchStatus } from '@/lib/prismaTypes';
+import relatedFixtures from './__fixtures__/tmdbRelated.json';
+import { getSimilarMedia } from './similarMediaService';
+
+const movieGenres = {
+  genres: [
+    { id: 12, name: 'Adventure' },
+    { id: 28, name: 'Action' },
+    { id: 878, name: 'Science Fiction' },
+    { id: 9648, name: 'Mystery' },
+  ],
+};
+
+// Answer TMDB requests from the recorded related lists and the genre list
+const fetchFromFixtures = async (input: string | URL | Request) => {
+  const path = new URL(input instanceof Request ? input.url : input).pathname.replace(/^\/3/, '');
+  const body = path === '/genre/movie/list' ? movieGenres : (relatedFixtures as Record<string, unknown>)[path];
+  return body
+    ? new Response(JSON.stringify(body), { status: 200 })
+    : new Response(JSON.stringify({ status_message: 'The resource you requested could not be found.' }), { status: 404 });
+};
+
+describe('getSimilarMedia', () => {
+  beforeEach(() => {
+    mock.method(globalThis, 'fetch', fetchFromFixtures);
+    fakePrisma.user = {
+      findUnique: async () => ({ locale: 'en-US', watchRegion: 'US' }),
+    };
+    // Watched Inception and nothing but mysteries
+    fakePrisma.watchlistEntry = {
+      findMany: async () => [
+        { mediaId: 27205, mediaType: 'movie', status: WatchStatus.WATCHED, rating: null, genres: ['Mystery'] },
+      ],
+    };
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  test('ranks by position in TMDB\'s lists, adding up titles in both', async () => {
+    const similar = await getSimilarMedia('movie', 603);
+
+    // Inception is in both lists, and recommendations outweigh similar titles
+    assert.deepEqual(similar.map(media => media.id), [27205, 604, 605, 2666, 7299]);
+    assert.ok(similar.every(media => media.media_type === 'movie'));
+  });
+
+  test('leaves out watched titles and reranks towards the viewer\'s genres', async () => {
+    const similar = await getSimilarMedia('movie', 603, 'alice');
+
+    // Dark City is the only mystery, the rest keep TMDB's order
+    assert.deepEqual(similar.map(media => media.id), [2666, 604, 605, 7299]);
+  });
+});
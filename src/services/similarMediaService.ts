@@ -0,0 +1,110 @@
+import { tmdb } from '@/lib/tmdb';
+import { availabilityKey } from '@/lib/utils';
+import { TMDBListItem } from '@/lib/tmdbSchemas';
+import { getWatchedTaste } from './tasteProfileService';
+import { getLocalePreferences } from './localeService';
+import { SOURCE_WEIGHTS } from './tmdbRecommendationService';
+import { Media, MediaType } from '@/types/media';
+import { WatchedTaste } from '@/types/recommendation';
+
+interface Candidate {
+  result: TMDBListItem;
+  score: number;
+}
+
+const MAX_SIMILAR = 20;
+
+// How much the viewer's genre taste counts against TMDB's own ranking
+const TASTE_WEIGHT = 0.4;
+
+type Source = keyof typeof SOURCE_WEIGHTS;
+
+/**
+ * Fetch one of TMDB's related-title lists, treating failures as an empty list
+ */
+async function fetchList(mediaType: MediaType, mediaId: number, source: Source, language: string): Promise<TMDBListItem[]> {
+  try {
+    const data = await tmdb.related(mediaType, mediaId, source, { language });
+    return data.results;
+  } catch (error) {
+    console.warn(`Failed to fetch ${source} for ${mediaType} ${mediaId}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Map TMDB genre IDs to the names stored on watchlist entries, which are in the default language
+ */
+async function fetchGenreNames(mediaType: MediaType): Promise<Map<number, string>> {
+  try {
+    const genres = await tmdb.genres(mediaType);
+    return new Map(genres.map(genre => [genre.id, genre.name]));
+  } catch (error) {
+    console.warn(`Failed to fetch ${mediaType} genres:`, error);
+    return new Map();
+  }
+}
+
+/**
+ * Titles related to a movie or show, merged from TMDB's `/recommendations` and `/similar` lists.
+ * For signed-in viewers the list is reranked towards the genres they watch most
+ * and titles they have already watched are left out, with titles and posters in their language.
+ * @param mediaType The title's media type
+ * @param mediaId The title's TMDB ID
+ * @param userId The viewer, if signed in
+ * @returns Up to MAX_SIMILAR titles, best match first
+ */
+export async function getSimilarMedia(mediaType: MediaType, mediaId: number, userId?: string): Promise<Media[]> {
+  const sources = Object.keys(SOURCE_WEIGHTS) as Source[];
+  const { locale } = await getLocalePreferences(userId);
+  const [lists, genreNames, taste] = await Promise.all([
+    Promise.all(sources.map(source => fetchList(mediaType, mediaId, source, locale))),
+    userId ? fetchGenreNames(mediaType) : new Map<number, string>(),
+    userId ? getWatchedTaste(userId) : undefined,
+  ]);
+
+  const watchedKeys = new Set(taste?.watchedKeys || []);
+  // Keyed by `${mediaType}:${id}`, since movie and TV IDs overlap on TMDB
+  const candidates = new Map<string, Candidate>();
+
+  lists.forEach((results, sourceIndex) => {
+    results.forEach((result, index) => {
+      const key = availabilityKey(mediaType, result.id);
+      if (result.id === mediaId || watchedKeys.has(key)) return;
+
+      // Earlier positions in TMDB's list are better matches, and titles in both lists add up
+      const positionBonus = 1 - index / Math.max(results.length, 1);
+      const candidate = candidates.get(key) || { result, score: 0 };
+      candidate.score += SOURCE_WEIGHTS[sources[sourceIndex]] + positionBonus;
+      candidates.set(key, candidate);
+    });
+  });
+
+  const ranked = Array.from(candidates.values());
+  const tasteScore = (result: TMDBListItem, { genreShares }: WatchedTaste) =>
+    result.genre_ids.reduce((sum, id) => sum + (genreShares[genreNames.get(id) || ''] || 0), 0);
+
+  if (taste) {
+    // Blend both scores on the same 0-1 scale
+    const maxScore = Math.max(...ranked.map(candidate => candidate.score), 1);
+    const tasteScores = new Map(
+      ranked.map(candidate => [availabilityKey(mediaType, candidate.result.id), tasteScore(candidate.result, taste)])
+    );
+    const maxTaste = Math.max(...tasteScores.values(), 0);
+
+    ranked.forEach(candidate => {
+      const genreFit = maxTaste > 0 ? (tasteScores.get(availabilityKey(mediaType, candidate.result.id)) ?? 0) / maxTaste : 0;
+      candidate.score = (1 - TASTE_WEIGHT) * (candidate.score / maxScore) + TASTE_WEIGHT * genreFit;
+    });
+  }
+
+  return ranked
+    .sort((a, b) => b.score - a.score || b.result.popularity - a.result.popularity)
+    .slice(0, MAX_SIMILAR)
+    .map(({ result }) => ({
+      id: result.id,
+      title: (mediaType === 'movie' ? result.title : result.name) || result.title || result.name || '',
+      poster_path: result.poster_path,
+      media_type: mediaType,
+    }));
+}
@@ -0,0 +1,69 @@
+import { prisma, withPrismaRetry } from '@/lib/prisma';
+import { tmdb } from '@/lib/tmdb';
+import { availabilityKey, DEFAULT_WATCH_REGION, mapWithConcurrency } from '@/lib/utils';
+import { MediaType, Provider } from '@/types/media';
+
+export interface StreamingPreferences {
+  region: string;
+  // TMDB watch provider IDs
+  services: number[];
+}
+
+// Keeps large watchlists from firing hundreds of TMDB requests at once
+const AVAILABILITY_CONCURRENCY = 8;
+
+/**
+ * Load the user's streaming services and watch region
+ */
+export async function getStreamingPreferences(userId: string): Promise<StreamingPreferences> {
+  const user = await withPrismaRetry(() =>
+    prisma.user.findUnique({
+      where: { id: userId },
+      select: { streamingServices: true, watchRegion: true },
+    })
+  );
+
+  return {
+    region: user?.watchRegion || DEFAULT_WATCH_REGION,
+    services: user?.streamingServices || [],
+  };
+}
+
+/**
+ * The user's services that stream a title as part of the subscription (flatrate)
+ * @returns The matching providers, empty when the title is not on any of them
+ */
+export async function getSubscribedProviders(
+  mediaType: MediaType,
+  mediaId: number,
+  preferences: StreamingPreferences,
+  signal?: AbortSignal
+): Promise<Provider[]> {
+  if (preferences.services.length === 0) return [];
+
+  const providers = await tmdb.providers(mediaType, mediaId, { region: preferences.region, signal });
+  const flatrate = providers?.flatrate || [];
+  return flatrate.filter(provider => preferences.services.includes(provider.provider_id));
+}
+
+/**
+ * Look up the subscribed providers for many titles with bounded concurrency
+ * @returns Providers keyed by `${mediaType}:${mediaId}`
+ */
+export async function getStreamingAvailability(
+  items: Array<{ mediaType: MediaType; mediaId: number }>,
+  preferences: StreamingPreferences
+): Promise<Record<string, Provider[]>> {
+  const availability: Record<string, Provider[]> = {};
+
+  await mapWithConcurrency(items, AVAILABILITY_CONCURRENCY, async ({ mediaType, mediaId }) => {
+    const key = availabilityKey(mediaType, mediaId);
+    try {
+      availability[key] = await getSubscribedProviders(mediaType, mediaId, preferences);
+    } catch (error) {
+      console.warn(`Failed to fetch watch providers for ${key}:`, error);
+      availability[key] = [];
+    }
+  });
+  return availability;
+}
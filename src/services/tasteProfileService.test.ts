@@ -0,0 +1,108 @@
+import { before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { fakePrisma } from '@/test/fakePrisma';
+import { WatchStatus } from '@/lib/prismaTypes';
+import { getGroupTasteProfile, getTasteProfile, mergeTasteProfiles } from './tasteProfileService';
+import { TasteProfile } from '@/types/recommendation';
+
+interface Entry {
+  userId: string;
+  mediaId: number;
+  mediaType: 'movie' | 'tv';
+  title: string;
+  posterPath: string | null;
+  status: WatchStatus;
+  rating: number | null;
+  genres: string[];
+}
+
+const entry = (fields: Partial<Entry> & Pick<Entry, 'mediaId' | 'title'>): Entry => ({
+  userId: 'alice',
+  mediaType: 'movie',
+  posterPath: null,
+  status: WatchStatus.WATCHED,
+  rating: null,
+  genres: [],
+  ...fields,
+});
+
+// Most recently updated first, as the service asks for
+const watchlist: Entry[] = [
+  entry({ mediaId: 603, title: 'The Matrix', rating: 5, genres: ['Science Fiction', 'Action'] }),
+  entry({ mediaId: 1396, mediaType: 'tv', title: 'Breaking Bad', rating: 4, genres: ['Drama', 'Crime'] }),
+  entry({ mediaId: 27205, title: 'Inception', status: WatchStatus.PLAN_TO_WATCH, genres: ['Science Fiction'] }),
+  entry({ mediaId: 1399, mediaType: 'tv', title: 'Game of Thrones', status: WatchStatus.DROPPED, genres: ['Drama'] }),
+  entry({ mediaId: 8587, title: 'The Lion King', rating: 2, genres: ['Animation', 'Family'] }),
+  entry({ userId: 'bob', mediaId: 1396, mediaType: 'tv', title: 'Breaking Bad', rating: 1, genres: ['Drama', 'Crime'] }),
+  entry({ userId: 'bob', mediaId: 155, title: 'The Dark Knight', rating: 5, genres: ['Action', 'Crime'] }),
+  entry({ userId: 'bob', mediaId: 98, title: 'Gladiator', status: WatchStatus.PLAN_TO_WATCH, genres: ['Action'] }),
+];
+
+describe('taste profiles', () => {
+  before(() => {
+    fakePrisma.watchlistEntry = {
+      findMany: async ({ where }: { where: { userId: string | { in: string[] } } }) =>
+        watchlist.filter(item =>
+          typeof where.userId === 'string' ? item.userId === where.userId : where.userId.in.includes(item.userId)
+        ),
+    };
+  });
+
+  test('likes highly rated titles and dislikes low-rated and dropped ones', async () => {
+    const profile = await getTasteProfile('alice');
+
+    assert.deepEqual(profile.likedMedia.map(media => media.title), ['The Matrix', 'Breaking Bad']);
+    assert.deepEqual(profile.dislikedTitles, ['Game of Thrones', 'The Lion King']);
+    assert.equal(profile.likedMedia[1].media_type, 'tv');
+  });
+
+  test('weights genres of watched titles by rating, ignoring disliked and unwatched ones', async () => {
+    const profile = await getTasteProfile('alice');
+
+    assert.deepEqual(profile.favoriteGenres, ['Science Fiction', 'Action', 'Drama', 'Crime']);
+  });
+
+  test('excludes everything on the watchlist, keyed by type and ID', async () => {
+    const profile = await getTasteProfile('alice');
+
+    assert.deepEqual(profile.excludedKeys, ['movie:603', 'tv:1396', 'movie:27205', 'tv:1399', 'movie:8587']);
+  });
+
+  test('drops a group favorite someone else disliked and only excludes what someone watched', async () => {
+    const profile = await getGroupTasteProfile(['alice', 'bob']);
+
+    assert.deepEqual(profile.likedMedia.map(media => media.title).sort(), ['The Dark Knight', 'The Matrix']);
+    assert.ok(profile.dislikedTitles.includes('Breaking Bad'));
+    assert.ok(!profile.excludedKeys.includes('movie:98'));
+    assert.ok(!profile.excludedKeys.includes('movie:27205'));
+    assert.ok(profile.excludedKeys.includes('movie:155'));
+  });
+
+  test('merges profiles without duplicates and with nothing to merge returns undefined', () => {
+    const base: TasteProfile = {
+      likedMedia: [{ id: 603, title: 'The Matrix', poster_path: '', media_type: 'movie' }],
+      dislikedTitles: ['Cats'],
+      favoriteGenres: ['Action'],
+      excludedKeys: ['movie:603'],
+      excludedTitles: ['The Matrix'],
+    };
+    const feedback: TasteProfile = {
+      likedMedia: [
+        { id: 603, title: 'The Matrix', poster_path: '', media_type: 'movie' },
+        { id: 603, title: 'Show 603', poster_path: '', media_type: 'tv' },
+      ],
+      dislikedTitles: ['Cats', 'Dragonball Evolution'],
+      favoriteGenres: ['Action', 'Drama'],
+      excludedKeys: ['movie:603', 'tv:603'],
+      excludedTitles: [],
+    };
+
+    const merged = mergeTasteProfiles(base, undefined, feedback);
+
+    assert.equal(merged?.likedMedia.length, 2);
+    assert.deepEqual(merged?.dislikedTitles, ['Cats', 'Dragonball Evolution']);
+    assert.deepEqual(merged?.favoriteGenres, ['Action', 'Drama']);
+    assert.deepEqual(merged?.excludedKeys, ['movie:603', 'tv:603']);
+    assert.equal(mergeTasteProfiles(undefined, undefined), undefined);
+  });
+});
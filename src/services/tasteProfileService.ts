@@ -0,0 +1,190 @@
+import { Prisma } from '@prisma/client';
+import { prisma, withPrismaRetry } from '@/lib/prisma';
+import { WatchStatus } from '@/lib/prismaTypes';
+import { TasteProfile, WatchedTaste } from '@/types/recommendation';
+
+// Ratings are on a 1-5 scale
+const LIKED_RATING = 4;
+const DISLIKED_RATING = 2;
+
+const MAX_LIKED = 15;
+const MAX_DISLIKED = 10;
+const MAX_GENRES = 5;
+// Keeps the prompt a reasonable size for users with long watchlists
+const MAX_EXCLUDED_TITLES = 60;
+
+const tasteEntrySelect = {
+  userId: true,
+  mediaId: true,
+  mediaType: true,
+  title: true,
+  posterPath: true,
+  status: true,
+  rating: true,
+  genres: true,
+} as const;
+
+type TasteEntry = Prisma.WatchlistEntryGetPayload<{ select: typeof tasteEntrySelect }>;
+
+const isLiked = (entry: TasteEntry) => entry.rating !== null && entry.rating >= LIKED_RATING;
+
+const isDisliked = (entry: TasteEntry) =>
+  entry.status === WatchStatus.DROPPED ||
+  (entry.rating !== null && entry.rating > 0 && entry.rating <= DISLIKED_RATING);
+
+const entryKey = (entry: TasteEntry) => `${entry.mediaType}:${entry.mediaId}`;
+
+const toMedia = (entry: TasteEntry) => ({
+  id: entry.mediaId,
+  title: entry.title,
+  poster_path: entry.posterPath || '',
+  media_type: entry.mediaType as 'movie' | 'tv',
+});
+
+/**
+ * Weight genres of titles the user actually engaged with by rating
+ * @returns Each genre's weight, in no particular order
+ */
+function countGenres(entries: TasteEntry[]): Map<string, number> {
+  const genreCounts = new Map<string, number>();
+  entries
+    .filter(entry =>
+      (entry.status === WatchStatus.WATCHED || entry.status === WatchStatus.WATCHING) &&
+      (entry.rating === null || entry.rating > DISLIKED_RATING)
+    )
+    .forEach(entry => {
+      const weight = entry.rating ? entry.rating / 3 : 1;
+      entry.genres.forEach(genre => genreCounts.set(genre, (genreCounts.get(genre) || 0) + weight));
+    });
+  return genreCounts;
+}
+
+const topGenres = (genreCounts: Map<string, number>) =>
+  Array.from(genreCounts.entries())
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, MAX_GENRES)
+    .map(([genre]) => genre);
+
+/**
+ * Build a taste profile for a user from their watchlist ratings, statuses and genres
+ * @param userId The user's ID
+ * @returns The liked, disliked and already-known titles plus favorite genres
+ */
+export async function getTasteProfile(userId: string): Promise<TasteProfile> {
+  const entries = await withPrismaRetry(() =>
+    prisma.watchlistEntry.findMany({
+      where: { userId },
+      orderBy: { updatedAt: 'desc' },
+      select: tasteEntrySelect,
+    })
+  );
+
+  const liked = entries
+    .filter(isLiked)
+    .sort((a, b) => (b.rating || 0) - (a.rating || 0))
+    .slice(0, MAX_LIKED);
+
+  const disliked = entries.filter(isDisliked).slice(0, MAX_DISLIKED);
+
+  return {
+    likedMedia: liked.map(toMedia),
+    dislikedTitles: disliked.map(entry => entry.title),
+    favoriteGenres: topGenres(countGenres(entries)),
+    // Anything already watched, queued or dropped should not come back as a recommendation
+    excludedKeys: entries.map(entryKey),
+    excludedTitles: entries.slice(0, MAX_EXCLUDED_TITLES).map(entry => entry.title),
+  };
+}
+
+/**
+ * Build one taste profile for a group watching together from everyone's watchlists.
+ * Titles someone loved are only used as examples if nobody in the group disliked them,
+ * every participant's genres count equally however long their watchlist is,
+ * and only titles somebody has already watched are excluded.
+ * @param userIds The participants' IDs
+ */
+export async function getGroupTasteProfile(userIds: string[]): Promise<TasteProfile> {
+  const entries = await withPrismaRetry(() =>
+    prisma.watchlistEntry.findMany({
+      where: { userId: { in: userIds } },
+      orderBy: { updatedAt: 'desc' },
+      select: tasteEntrySelect,
+    })
+  );
+
+  const dislikedKeys = new Set(entries.filter(isDisliked).map(entryKey));
+  const liked = Array.from(
+    new Map(
+      entries
+        .filter(entry => isLiked(entry) && !dislikedKeys.has(entryKey(entry)))
+        .sort((a, b) => (b.rating || 0) - (a.rating || 0))
+        .map(entry => [entryKey(entry), entry])
+    ).values()
+  ).slice(0, MAX_LIKED);
+
+  const dislikedTitles = Array.from(new Set(entries.filter(isDisliked).map(entry => entry.title)))
+    .slice(0, MAX_DISLIKED);
+
+  // Sum each participant's genre shares rather than raw counts
+  const groupGenres = new Map<string, number>();
+  userIds.forEach(userId => {
+    const genreCounts = countGenres(entries.filter(entry => entry.userId === userId));
+    const total = Array.from(genreCounts.values()).reduce((sum, count) => sum + count, 0);
+    genreCounts.forEach((count, genre) => groupGenres.set(genre, (groupGenres.get(genre) || 0) + count / total));
+  });
+
+  // Something one person has queued is still a fair pick for the group
+  const watched = entries.filter(entry => entry.status === WatchStatus.WATCHED);
+
+  return {
+    likedMedia: liked.map(toMedia),
+    dislikedTitles,
+    favoriteGenres: topGenres(groupGenres),
+    excludedKeys: Array.from(new Set(watched.map(entryKey))),
+    excludedTitles: Array.from(new Set(watched.map(entry => entry.title))).slice(0, MAX_EXCLUDED_TITLES),
+  };
+}
+
+/**
+ * How a user's viewing splits across genres and which titles they have already watched,
+ * for reranking lists of titles rather than prompting a model
+ * @param userId The user's ID
+ */
+export async function getWatchedTaste(userId: string): Promise<WatchedTaste> {
+  const entries = await withPrismaRetry(() =>
+    prisma.watchlistEntry.findMany({
+      where: { userId },
+      select: tasteEntrySelect,
+    })
+  );
+
+  const genreCounts = countGenres(entries);
+  const total = Array.from(genreCounts.values()).reduce((sum, count) => sum + count, 0);
+
+  return {
+    genreShares: Object.fromEntries(
+      Array.from(genreCounts.entries()).map(([genre, count]) => [genre, count / total])
+    ),
+    watchedKeys: entries.filter(entry => entry.status === WatchStatus.WATCHED).map(entryKey),
+  };
+}
+
+/**
+ * Combine taste profiles from several sources, e.g. watchlist and recommendation feedback
+ * @returns The merged profile, or undefined when there is nothing to merge
+ */
+export function mergeTasteProfiles(...profiles: Array<TasteProfile | undefined>): TasteProfile | undefined {
+  const present = profiles.filter((profile): profile is TasteProfile => !!profile);
+  if (present.length === 0) return undefined;
+
+  const unique = <T>(items: T[], key: (item: T) => string = String) =>
+    Array.from(new Map(items.map(item => [key(item), item])).values());
+
+  return {
+    likedMedia: unique(present.flatMap(profile => profile.likedMedia), media => `${media.media_type}:${media.id}`),
+    dislikedTitles: unique(present.flatMap(profile => profile.dislikedTitles)),
+    favoriteGenres: unique(present.flatMap(profile => profile.favoriteGenres)).slice(0, MAX_GENRES),
+    excludedKeys: unique(present.flatMap(profile => profile.excludedKeys)),
+    excludedTitles: unique(present.flatMap(profile => profile.excludedTitles)).slice(0, MAX_EXCLUDED_TITLES),
+  };
+}
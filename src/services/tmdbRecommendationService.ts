@@ -0,0 +1,175 @@
+import { tmdb } from '@/lib/tmdb';
+import { Media, MediaType } from '@/types/media';
+import { ProviderRecommendation, RecommendationInput } from '@/types/recommendation';
+import { interleaveMediaTypes } from '@/lib/utils';
+import { CERTIFICATION_COUNTRY } from '@/lib/recommendationFilters';
+import { RecommendationFilters } from '@/lib/validationSchemas';
+import { TMDBListItem } from '@/lib/tmdbSchemas';
+
+interface Candidate {
+  result: TMDBListItem;
+  score: number;
+  seeds: string[];
+}
+
+interface Seed {
+  media: Media;
+  weight: number;
+}
+
+// How many of the user's highest rated titles to branch out from in taste mode
+const MAX_TASTE_SEEDS = 5;
+
+// Direct recommendations are a stronger signal than "similar" (which is keyword based)
+export const SOURCE_WEIGHTS = {
+  recommendations: 2,
+  similar: 1,
+} as const;
+
+const getYear = (result: TMDBListItem): number | null => {
+  const date = result.release_date || result.first_air_date;
+  return date ? Number(date.slice(0, 4)) || null : null;
+};
+
+const toRecommendation = (
+  result: TMDBListItem,
+  mediaType: MediaType,
+  reason: string,
+  relatedTo: string[] = []
+): ProviderRecommendation => {
+  const title = (mediaType === 'movie' ? result.title : result.name) || result.title || result.name || '';
+  const media: Media = {
+    id: result.id,
+    title,
+    poster_path: result.poster_path,
+    media_type: mediaType,
+  };
+
+  return { title, year: getYear(result), mediaType, reason, relatedTo, media };
+};
+
+/**
+ * Translate the hard constraints into TMDB discover parameters where TMDB supports them
+ */
+function buildDiscoverParams(mediaType: MediaType, filters: RecommendationFilters = {}): Record<string, string> {
+  const dateField = mediaType === 'movie' ? 'primary_release_date' : 'first_air_date';
+  const params: Record<string, string> = {
+    sort_by: 'popularity.desc',
+    'vote_count.gte': '500',
+    'vote_average.gte': String(Math.max(7, filters.minVoteAverage ?? 0)),
+  };
+
+  if (filters.minRuntime !== undefined) params['with_runtime.gte'] = String(filters.minRuntime);
+  if (filters.maxRuntime !== undefined) params['with_runtime.lte'] = String(filters.maxRuntime);
+  if (filters.fromDecade !== undefined) params[`${dateField}.gte`] = `${filters.fromDecade}-01-01`;
+  if (filters.toDecade !== undefined) params[`${dateField}.lte`] = `${filters.toDecade + 9}-12-31`;
+  if (filters.originalLanguage) params.with_original_language = filters.originalLanguage;
+  // TMDB only filters movies by certification
+  if (filters.maxCertification && mediaType === 'movie') {
+    params.certification_country = CERTIFICATION_COUNTRY;
+    params['certification.lte'] = filters.maxCertification;
+  }
+
+  return params;
+}
+
+/**
+ * Fetch well-rated, popular titles when there are no seeds to branch out from
+ */
+async function fetchDiscoverCandidates(mediaType: MediaType, filters?: RecommendationFilters): Promise<TMDBListItem[]> {
+  const data = await tmdb.discover(mediaType, buildDiscoverParams(mediaType, filters));
+  return data.results;
+}
+
+/**
+ * Rank titles of a single media type from the seeds' TMDB lists
+ */
+async function generateForMediaType(
+  input: RecommendationInput,
+  mediaType: MediaType,
+  count: number
+): Promise<ProviderRecommendation[]> {
+  const { selectedMedia, tasteProfile, filters } = input;
+  const candidates = new Map<number, Candidate>();
+
+  // Hand-picked titles count fully, titles from the user's watchlist a bit less
+  const seeds: Seed[] = [
+    ...selectedMedia.map(media => ({ media, weight: 1 })),
+    ...(tasteProfile?.likedMedia || []).slice(0, MAX_TASTE_SEEDS).map(media => ({ media, weight: 0.5 })),
+  ];
+  const seedIds = new Set(seeds.map(seed => seed.media.id));
+  const excludedKeys = new Set(tasteProfile?.excludedKeys || []);
+  const isExcluded = (result: TMDBListItem) =>
+    seedIds.has(result.id) || excludedKeys.has(`${mediaType}:${result.id}`);
+
+  await Promise.all(
+    seeds
+      // TMDB only returns titles of the seed's own type
+      .filter(({ media }) => media.media_type === mediaType)
+      .flatMap(({ media: seed, weight }) =>
+        (Object.keys(SOURCE_WEIGHTS) as Array<keyof typeof SOURCE_WEIGHTS>).map(async source => {
+          try {
+            const data = await tmdb.related(seed.media_type, seed.id, source);
+
+            data.results.forEach((result, index) => {
+              if (isExcluded(result)) return;
+
+              // Earlier positions in TMDB's list are better matches
+              const positionBonus = 1 - index / Math.max(data.results.length, 1);
+              const candidate = candidates.get(result.id) || { result, score: 0, seeds: [] };
+              candidate.score += (SOURCE_WEIGHTS[source] + positionBonus) * weight;
+              if (!candidate.seeds.includes(seed.title)) {
+                candidate.seeds.push(seed.title);
+              }
+              candidates.set(result.id, candidate);
+            });
+          } catch (error) {
+            console.warn(`Failed to fetch ${source} for ${seed.media_type} ${seed.id}:`, error);
+          }
+        })
+      )
+  );
+
+  const ranked = Array.from(candidates.values())
+    .sort((a, b) => b.score - a.score || b.result.popularity - a.result.popularity)
+    .map(({ result, seeds }) =>
+      toRecommendation(result, mediaType, `Because you liked ${seeds.join(' and ')}: similar titles on TMDB`, seeds)
+    );
+
+  if (ranked.length >= count) {
+    return ranked.slice(0, count);
+  }
+
+  // Top up with generally acclaimed titles when the seeds did not give us enough
+  const discovered = await fetchDiscoverCandidates(mediaType, filters).catch(error => {
+    console.warn('Failed to fetch discover candidates:', error);
+    return [];
+  });
+  const rankedIds = new Set(ranked.map(r => r.media!.id));
+  const topUp = discovered
+    .filter(result => !rankedIds.has(result.id) && !isExcluded(result))
+    .map(result => toRecommendation(result, mediaType, 'Popular and highly rated'));
+
+  return [...ranked, ...topUp].slice(0, count);
+}
+
+/**
+ * Build recommendations without a language model, from TMDB's own
+ * `/recommendations` and `/similar` lists for the selected titles.
+ * Titles suggested by several seeds rank higher.
+ */
+export async function generateTMDBRecommendations(input: RecommendationInput): Promise<ProviderRecommendation[]> {
+  const { count, mediaType } = input;
+
+  if (mediaType !== 'mixed') {
+    return generateForMediaType(input, mediaType, count);
+  }
+
+  // Split the count between both types and alternate them
+  const [movies, shows] = await Promise.all([
+    generateForMediaType(input, 'movie', Math.ceil(count / 2)),
+    generateForMediaType(input, 'tv', Math.floor(count / 2)),
+  ]);
+
+  return interleaveMediaTypes([...movies, ...shows], recommendation => recommendation.mediaType);
+}
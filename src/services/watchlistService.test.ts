@@ -0,0 +1,71 @@
+import { before, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { fakePrisma } from '@/test/fakePrisma';
+import { createMemoryCache } from '@/lib/memoryCache';
+import type { CacheBackend } from '@/lib/cache';
+
+// Friendships are one-way, userId has friendId as a friend and sees their activity in their feed
+const friendships = [
+  { userId: 'friend', friendId: 'owner' },
+  { userId: 'owner', friendId: 'followed' },
+  { userId: 'friend', friendId: 'someone-else' },
+];
+
+describe('invalidateWatchlistCaches', () => {
+  let cache: typeof import('@/lib/cache');
+  let invalidateWatchlistCaches: typeof import('./watchlistService').invalidateWatchlistCaches;
+
+  const feedKey = (userId: string) => cache.generateCacheKey('feed', { userId });
+  const seedFeed = (userId: string) =>
+    cache.setCachedValue(feedKey(userId), [{ id: `${userId}-entry` }], cache.CACHE_TTL.FEED, {
+      tags: [cache.cacheTags.feed(userId)],
+    });
+
+  before(async () => {
+    // Installed where lib/cache looks for an existing backend, so the module uses this one
+    (global as unknown as { cacheBackend: CacheBackend }).cacheBackend = createMemoryCache(100);
+    cache = await import('@/lib/cache');
+    ({ invalidateWatchlistCaches } = await import('./watchlistService'));
+
+    fakePrisma.friendship = {
+      findMany: async ({ where }: { where: { friendId: string } }) =>
+        friendships.filter(friendship => friendship.friendId === where.friendId),
+    };
+  });
+
+  beforeEach(async () => {
+    await Promise.all(['friend', 'followed', 'stranger'].map(seedFeed));
+    await cache.setCachedValue('watchlist:owner', [], cache.CACHE_TTL.WATCHLIST, { tags: [cache.cacheTags.user('owner')] });
+    await cache.setCachedValue('recommendations:owner', [], cache.CACHE_TTL.RECOMMENDATIONS, {
+      tags: [cache.cacheTags.recommendations('owner')],
+    });
+    await cache.setCachedValue('recommendations:stranger', [], cache.CACHE_TTL.RECOMMENDATIONS, {
+      tags: [cache.cacheTags.recommendations('stranger')],
+    });
+  });
+
+  test('drops the feeds of users who have the owner as a friend, and no one else\'s', async () => {
+    await invalidateWatchlistCaches('owner');
+
+    assert.equal(await cache.getCachedValue(feedKey('friend')), null);
+    // The owner having them as a friend does not put the owner in their feed
+    assert.deepEqual(await cache.getCachedValue(feedKey('followed')), [{ id: 'followed-entry' }]);
+    assert.deepEqual(await cache.getCachedValue(feedKey('stranger')), [{ id: 'stranger-entry' }]);
+  });
+
+  test('drops the owner\'s own lists and the recommendations built from their taste', async () => {
+    await invalidateWatchlistCaches('owner');
+
+    assert.equal(await cache.getCachedValue('watchlist:owner'), null);
+    assert.equal(await cache.getCachedValue('recommendations:owner'), null);
+    assert.deepEqual(await cache.getCachedValue('recommendations:stranger'), []);
+  });
+
+  test('leaves every feed cached for a user no one has as a friend', async () => {
+    await invalidateWatchlistCaches('stranger');
+
+    for (const userId of ['friend', 'followed', 'stranger']) {
+      assert.notEqual(await cache.getCachedValue(feedKey(userId)), null, userId);
+    }
+  });
+});
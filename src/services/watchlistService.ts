@@ -0,0 +1,23 @@
+import { prisma, withPrismaRetry } from '@/lib/prisma';
+import { cacheTags, invalidateTags } from '@/lib/cache';
+
+/**
+ * Drop the caches a change to a user's watchlist affects: their own watchlist and history,
+ * recommendations built from their taste, and the feeds of the users who have them as a friend.
+ * Everyone else's feed stays cached.
+ */
+export async function invalidateWatchlistCaches(userId: string): Promise<void> {
+  // A feed shows the entries of the viewer's friends, so the affected viewers are the ones friends with this user
+  const viewers = await withPrismaRetry(() =>
+    prisma.friendship.findMany({
+      where: { friendId: userId },
+      select: { userId: true },
+    })
+  );
+
+  await invalidateTags(
+    cacheTags.user(userId),
+    cacheTags.recommendations(userId),
+    ...viewers.map(viewer => cacheTags.feed(viewer.userId))
+  );
+}
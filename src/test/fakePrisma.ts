@@ -0,0 +1,15 @@
+/**
+ * A stand-in Prisma client for tests, installed where `@/lib/prisma` looks for an existing client.
+ * Import it before anything that imports `@/lib/prisma`, then give each test the delegates it needs,
+ * e.g. `fakePrisma.friendship = { findMany: async () => [] }`. Anything left unset throws.
+ */
+export const fakePrisma: Record<string, unknown> = {};
+
+(global as unknown as { prisma: unknown }).prisma = new Proxy(fakePrisma, {
+  get(target, property) {
+    if (typeof property !== 'string' || property in target || property === 'then') {
+      return Reflect.get(target, property);
+    }
+    throw new Error(`prisma.${property} is not faked in this test`);
+  },
+});
@@ -1,58 +1,17 @@
 import { WatchStatus } from '@/lib/prismaTypes';
+import type {
+  TMDBMovieDetails,
+  TMDBProvider,
+  TMDBStreamingData,
+  TMDBTVShowDetails,
+  TMDBVideo,
+} from '@/lib/tmdbSchemas';
 
 export type MediaType = 'movie' | 'tv';
 
-interface BaseMedia {
-  id: number;
-  title: string;
-  poster_path: string;
-  backdrop_path: string;
-  vote_average: number;
-  overview: string;
-  tagline: string;
-  original_language: string;
-  genres: { id: number; name: string }[];
-  media_type: MediaType;
-}
-
-export interface MovieDetails extends BaseMedia {
-  media_type: 'movie';
-  runtime?: number;
-  release_date?: string;
-  production_companies?: { id: number; name: string; logo_path?: string }[];
-  budget?: number;
-  revenue?: number;
-  status?: string;
-}
-
-export interface TVShowDetails extends BaseMedia {
-  media_type: 'tv';
-  name: string;
-  number_of_seasons?: number;
-  number_of_episodes?: number;
-  episode_run_time?: number[];
-  first_air_date?: string;
-  last_air_date?: string;
-  next_episode_to_air?: {
-    air_date: string;
-    episode_number: number;
-    season_number: number;
-    name: string;
-  };
-  status?: string;
-  in_production?: boolean;
-  networks?: { id: number; name: string; logo_path?: string }[];
-  seasons?: {
-    id: number;
-    name: string;
-    episode_count: number;
-    season_number: number;
-    air_date?: string;
-    poster_path?: string;
-    overview?: string;
-  }[];
-}
-
+// TMDB response shapes are defined once, by the schemas the TMDB client parses them with
+export type MovieDetails = TMDBMovieDetails;
+export type TVShowDetails = TMDBTVShowDetails;
 export type MediaDetails = MovieDetails | TVShowDetails;
 
 export interface Media {
@@ -82,21 +41,8 @@ export interface WatchlistEntry {
   updatedAt: string;
 }
 
-export interface Provider {
-  provider_name: string;
-  logo_path: string;
-  provider_id: number;
-}
+export type Provider = TMDBProvider;
 
-export interface StreamingData {
-  flatrate?: Provider[];
-  rent?: Provider[];
-  buy?: Provider[];
-}
+export type StreamingData = TMDBStreamingData;
 
-export interface MediaVideo {
-  key: string;
-  site: string;
-  type: string;
-  name: string;
-} 
\ No newline at end of file
+export type MediaVideo = TMDBVideo;
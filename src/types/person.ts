@@ -0,0 +1,40 @@
+import { MediaType } from './media';
+import { WatchStatus } from '@/lib/prismaTypes';
+
+// One title on a person's page, with every role they had on it
+export interface PersonCredit {
+  id: number;
+  media_type: MediaType;
+  title: string;
+  poster_path: string;
+  // Release date for movies, first air date for shows
+  date: string | null;
+  popularity: number;
+  vote_average: number;
+  // Characters played or jobs done, e.g. ['Director', 'Screenplay']
+  roles: string[];
+  // The viewer's watchlist entry for the title, null when it is not on their watchlist or they are signed out
+  watchlist: { status: WatchStatus; rating: number | null } | null;
+}
+
+export interface PersonProgress {
+  // Titles the viewer has marked as watched
+  seen: number;
+  total: number;
+}
+
+export interface PersonDetails {
+  id: number;
+  name: string;
+  biography: string;
+  profile_path: string;
+  known_for_department?: string;
+  birthday?: string;
+  deathday?: string;
+  place_of_birth?: string;
+  // Both most recent first, a title can be in both for people who act and direct
+  cast: PersonCredit[];
+  crew: PersonCredit[];
+  // Null for signed-out viewers
+  progress: PersonProgress | null;
+}
@@ -0,0 +1,131 @@
+import { Media, MediaType } from './media';
+import { FeedbackType } from '@/lib/prismaTypes';
+import { RecommendationFilters, RecommendedTitle } from '@/lib/validationSchemas';
+
+export type RecommendationProviderName = 'gemini' | 'openai' | 'tmdb';
+
+// 'mixed' asks for a balanced blend of films and series
+export type RecommendationMediaType = MediaType | 'mixed';
+
+export interface RecommendationInput {
+  description: string;
+  selectedMedia: Media[];
+  count: number;
+  mediaType: RecommendationMediaType;
+  tasteProfile?: TasteProfile;
+  filters?: RecommendationFilters;
+  conversation?: RecommendationConversationContext;
+}
+
+// Follow-up requests refining results the viewer has already seen
+export interface RecommendationConversationContext {
+  // The viewer's follow-up messages, oldest first
+  refinements: string[];
+  // The results shown before the latest message, in the numbered order the viewer sees
+  currentResults: Media[];
+}
+
+export interface ProviderRecommendation extends RecommendedTitle {
+  // Set by providers that already know the TMDB entry, so it needs no title search
+  media?: Media;
+}
+
+export interface RecommendationProvider {
+  name: RecommendationProviderName;
+  generate: (input: RecommendationInput) => Promise<ProviderRecommendation[]>;
+}
+
+export interface RecommendationExplanation {
+  reason: string;
+  // Seed titles the recommendation relates to
+  seeds: string[];
+}
+
+export interface RecommendedMedia extends Media, RecommendationExplanation {
+  // How sure we are that the TMDB entry is the title that was recommended (0-1)
+  confidence: number;
+  // Set when the user's streaming services were asked for but TMDB's providers could not be checked
+  availabilityUnknown?: boolean;
+}
+
+export interface RankedRecommendation {
+  // Position in the provider's ranking, so streamed results can be shown in order
+  rank: number;
+  media: RecommendedMedia;
+}
+
+export interface TasteProfile {
+  likedMedia: Media[];
+  dislikedTitles: string[];
+  favoriteGenres: string[];
+  // Titles already in the watchlist, keyed as `${mediaType}:${mediaId}`
+  excludedKeys: string[];
+  excludedTitles: string[];
+}
+
+export interface WatchedTaste {
+  // Share of the user's viewing each genre takes up, summing to 1
+  genreShares: Record<string, number>;
+  // Titles the user has watched, keyed as `${mediaType}:${mediaId}`
+  watchedKeys: string[];
+}
+
+export interface RecommendationFeedbackEntry {
+  id: string;
+  mediaId: number;
+  mediaType: MediaType;
+  title: string;
+  posterPath: string | null;
+  type: FeedbackType;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RecommendationSession {
+  id: string;
+  name: string;
+  description: string;
+  mediaType: RecommendationMediaType;
+  selectedMedia: Media[];
+  filters: RecommendationFilters | null;
+  results: RecommendedMedia[];
+  createdAt: string;
+  updatedAt: string;
+  // Whether the viewer created the session and may rename or delete it
+  isOwner: boolean;
+}
+
+export interface ParticipantFit {
+  userId: string;
+  displayName: string | null;
+  photoURL: string | null;
+  // Predicted fit from 0 to 100, or null without enough watch history to tell
+  score: number | null;
+}
+
+export interface GroupRecommendation extends RecommendedMedia {
+  fits: ParticipantFit[];
+  // The lowest fit in the group, so a pick nobody will mind ranks above a divisive one
+  groupScore: number | null;
+}
+
+export interface ConversationMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  createdAt: string;
+}
+
+export interface RecommendationConversation {
+  id: string;
+  description: string;
+  mediaType: RecommendationMediaType;
+  selectedMedia: Media[];
+  filters: RecommendationFilters | null;
+  useTaste: boolean;
+  onlyMyServices: boolean;
+  messages: ConversationMessage[];
+  // The latest results, numbered from 1 in this order
+  results: RecommendedMedia[];
+  // Follow-up messages left before the conversation has to start over
+  remainingTurns: number;
+}